@@ -0,0 +1,341 @@
+import { describe, it, expect } from "vitest";
+import { AsyncBufferQueue } from "../src/core/AsyncBufferQueue";
+import { QueueClosedError, QueueTimeoutError } from "../src/core/errors";
+import type { Clock } from "../src/core/TimeWindowBuffer";
+import { OverflowPolicy, PushResult } from "../src/types";
+
+/** Deterministic clock: timers only fire via `advance()`. */
+function createManualClock() {
+  let time = 0;
+  let nextId = 1;
+  const timers = new Map<number, { at: number; callback: () => void }>();
+
+  const clock: Clock & { advance(ms: number): void; pending(): number } = {
+    now: () => time,
+    setTimeout: (callback, delayMs) => {
+      const id = nextId++;
+      timers.set(id, { at: time + delayMs, callback });
+      return id;
+    },
+    clearTimeout: (handle) => {
+      timers.delete(handle as number);
+    },
+    advance: (ms) => {
+      time += ms;
+      for (const [id, timer] of [...timers]) {
+        if (timer.at > time) continue;
+        timers.delete(id);
+        timer.callback();
+      }
+    },
+    pending: () => timers.size,
+  };
+  return clock;
+}
+
+/** Resolve pending promise callbacks. */
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("AsyncBufferQueue", () => {
+  describe("take", () => {
+    it("should resolve immediately when items are queued", async () => {
+      const queue = new AsyncBufferQueue<number>(5);
+      queue.pushTail([1, 2, 3]);
+
+      await expect(queue.take()).resolves.toBe(1);
+      await expect(queue.take(5)).resolves.toEqual([2, 3]);
+      expect(queue.isEmpty()).toBe(true);
+    });
+
+    it("should wait until an item arrives", async () => {
+      const queue = new AsyncBufferQueue<string>(5);
+      const taken = queue.take();
+      expect(queue.pendingTakes()).toBe(1);
+
+      queue.pushTail("a");
+      await expect(taken).resolves.toBe("a");
+      expect(queue.pendingTakes()).toBe(0);
+      expect(queue.size()).toBe(0);
+    });
+
+    it("should serve waiting consumers in call order", async () => {
+      const queue = new AsyncBufferQueue<number>(10);
+      const first = queue.take();
+      const batch = queue.take(3);
+      const last = queue.take();
+
+      queue.pushTail([1, 2]);
+      await expect(first).resolves.toBe(1);
+      await expect(batch).resolves.toEqual([2]);
+
+      queue.pushTail([3, 4]);
+      await expect(last).resolves.toBe(3);
+      expect(queue.popHead()).toBe(4);
+    });
+
+    it("should hand items to waiters before they can be overwritten", async () => {
+      const queue = new AsyncBufferQueue<number>(2);
+      const batch = queue.take(2);
+      const result = queue.pushTail([1, 2, 3]);
+
+      expect(result).toBe(PushResult.OVERWRITTEN);
+      await expect(batch).resolves.toEqual([2, 3]);
+    });
+
+    it("should resolve take(0) with an empty array", async () => {
+      const queue = new AsyncBufferQueue<number>(2);
+      await expect(queue.take(0)).resolves.toEqual([]);
+      expect(queue.pendingTakes()).toBe(0);
+    });
+  });
+
+  describe("timeouts and abort", () => {
+    it("should reject with QueueTimeoutError after the timeout", async () => {
+      const clock = createManualClock();
+      const queue = new AsyncBufferQueue<number>(2, { clock });
+      const taken = queue.take({ timeout: 100 });
+
+      clock.advance(99);
+      queue.pushTail([]); // no items: the waiter keeps waiting
+      expect(queue.pendingTakes()).toBe(1);
+
+      clock.advance(1);
+      await expect(taken).rejects.toBeInstanceOf(QueueTimeoutError);
+      await expect(taken).rejects.toMatchObject({ timeoutMs: 100 });
+      expect(queue.pendingTakes()).toBe(0);
+
+      // The timed out waiter no longer consumes items
+      queue.pushTail(1);
+      expect(queue.size()).toBe(1);
+    });
+
+    it("should cancel the timer once the wait is served", async () => {
+      const clock = createManualClock();
+      const queue = new AsyncBufferQueue<number>(2, { clock });
+      const taken = queue.take(2, { timeout: 100 });
+      expect(clock.pending()).toBe(1);
+
+      queue.pushTail(7);
+      await expect(taken).resolves.toEqual([7]);
+      expect(clock.pending()).toBe(0);
+    });
+
+    it("should reject with the abort reason", async () => {
+      const queue = new AsyncBufferQueue<number>(2);
+      const controller = new AbortController();
+      const taken = queue.take({ signal: controller.signal });
+      const other = queue.take();
+
+      controller.abort(new Error("stop"));
+      await expect(taken).rejects.toThrow("stop");
+
+      queue.pushTail(1);
+      await expect(other).resolves.toBe(1);
+    });
+
+    it("should reject at once when the signal is already aborted", async () => {
+      const queue = new AsyncBufferQueue<number>(2);
+      const taken = queue.take({ signal: AbortSignal.abort() });
+
+      await expect(taken).rejects.toMatchObject({ name: "AbortError" });
+      expect(queue.pendingTakes()).toBe(0);
+    });
+
+    it("should still take queued items with an aborted signal or zero timeout", async () => {
+      const queue = new AsyncBufferQueue<number>(2);
+      queue.pushTail([1, 2]);
+
+      await expect(queue.take({ timeout: 0 })).resolves.toBe(1);
+      await expect(queue.take({ signal: AbortSignal.abort() })).resolves.toBe(
+        2
+      );
+    });
+
+    it("should reject an invalid timeout", async () => {
+      const queue = new AsyncBufferQueue<number>(2);
+      await expect(queue.take({ timeout: -1 })).rejects.toBeInstanceOf(
+        RangeError
+      );
+      await expect(queue.take({ timeout: NaN })).rejects.toBeInstanceOf(
+        RangeError
+      );
+    });
+  });
+
+  describe("close", () => {
+    it("should reject pending takes and refuse new items", async () => {
+      const clock = createManualClock();
+      const queue = new AsyncBufferQueue<number>(2, { clock });
+      const taken = queue.take({ timeout: 100 });
+
+      queue.close();
+      queue.close();
+      await expect(taken).rejects.toBeInstanceOf(QueueClosedError);
+      expect(clock.pending()).toBe(0);
+      expect(queue.isClosed()).toBe(true);
+      expect(() => queue.pushTail(1)).toThrow(QueueClosedError);
+    });
+
+    it("should let consumers drain remaining items", async () => {
+      const queue = new AsyncBufferQueue<number>(5);
+      queue.pushTail([1, 2]);
+      queue.close();
+
+      await expect(queue.take(5)).resolves.toEqual([1, 2]);
+      await expect(queue.take()).rejects.toBeInstanceOf(QueueClosedError);
+    });
+  });
+
+  describe("async iteration", () => {
+    it("should yield items until closed and drained", async () => {
+      const queue = new AsyncBufferQueue<number>(5);
+      const seen: number[] = [];
+      const consumer = (async () => {
+        for await (const item of queue) seen.push(item);
+      })();
+
+      queue.pushTail([1, 2]);
+      await flush();
+      queue.pushTail(3);
+      queue.close();
+      await consumer;
+
+      expect(seen).toEqual([1, 2, 3]);
+    });
+
+    it("should leave remaining items when the loop breaks", async () => {
+      const queue = new AsyncBufferQueue<number>(5);
+      queue.pushTail([1, 2, 3]);
+
+      for await (const item of queue) {
+        if (item === 2) break;
+      }
+      expect(queue.popHead(5)).toEqual([3]);
+    });
+  });
+
+  it("should follow the overflow policy of the underlying buffer", () => {
+    const queue = new AsyncBufferQueue<number>(2, {
+      overflow: OverflowPolicy.REJECT,
+    });
+    queue.pushTail([1, 2]);
+
+    expect(queue.isFull()).toBe(true);
+    expect(queue.available()).toBe(0);
+    expect(queue.pushTail(3)).toBe(PushResult.REJECTED);
+    expect(queue.capacity()).toBe(2);
+  });
+
+
+  describe("pushTailAsync", () => {
+    it("should resolve at once while there is room", async () => {
+      const queue = new AsyncBufferQueue<number>(2);
+      await expect(queue.pushTailAsync(1)).resolves.toBe(PushResult.ADDED);
+      expect(queue.popHead()).toBe(1);
+    });
+
+    it("should wait for a free slot instead of overwriting", async () => {
+      const queue = new AsyncBufferQueue<number>(2);
+      queue.pushTail([1, 2]);
+      const pushed = queue.pushTailAsync(3);
+      expect(queue.pendingPushes()).toBe(1);
+      expect(queue.isPaused()).toBe(true);
+
+      await expect(queue.take()).resolves.toBe(1);
+      await expect(pushed).resolves.toBe(PushResult.ADDED);
+      expect(queue.popHead(5)).toEqual([2, 3]);
+    });
+
+    it("should admit waiting producers in call order", async () => {
+      const queue = new AsyncBufferQueue<number>(1);
+      queue.pushTail(0);
+      const order: number[] = [];
+      const pushes = [1, 2, 3].map((item) =>
+        queue.pushTailAsync(item).then(() => order.push(item))
+      );
+
+      // Later calls queue behind the waiting producers even with room
+      queue.popHead();
+      const late = queue.pushTailAsync(4).then(() => order.push(4));
+      expect(queue.popHead()).toBe(1);
+      expect(queue.popHead()).toBe(2);
+      expect(queue.popHead()).toBe(3);
+      expect(queue.popHead()).toBe(4);
+
+      await Promise.all([...pushes, late]);
+      expect(order).toEqual([1, 2, 3, 4]);
+    });
+
+    it("should resume at the low watermark", async () => {
+      const queue = new AsyncBufferQueue<number>(10, {
+        highWaterMark: 4,
+        lowWaterMark: 1,
+      });
+      for (let i = 0; i < 4; i++) await queue.pushTailAsync(i);
+      expect(queue.isPaused()).toBe(true);
+
+      const pushed = queue.pushTailAsync(4);
+      queue.popHead(2); // size 2: above the low watermark
+      expect(queue.pendingPushes()).toBe(1);
+
+      queue.popHead(); // size 1
+      await expect(pushed).resolves.toBe(PushResult.ADDED);
+      expect(queue.isPaused()).toBe(false);
+      expect(queue.popHead(10)).toEqual([3, 4]);
+    });
+
+    it("should hand pushed items to waiting consumers", async () => {
+      const queue = new AsyncBufferQueue<number>(1);
+      const taken = queue.take();
+      await queue.pushTailAsync(5);
+      await expect(taken).resolves.toBe(5);
+      expect(queue.isEmpty()).toBe(true);
+    });
+
+    it("should drop timed out and aborted producers without queueing", async () => {
+      const clock = createManualClock();
+      const queue = new AsyncBufferQueue<number>(1, { clock });
+      queue.pushTail(0);
+      const controller = new AbortController();
+      const timedOut = queue.pushTailAsync(1, { timeout: 50 });
+      const aborted = queue.pushTailAsync(2, { signal: controller.signal });
+      const kept = queue.pushTailAsync(3);
+
+      clock.advance(50);
+      controller.abort();
+      await expect(timedOut).rejects.toBeInstanceOf(QueueTimeoutError);
+      await expect(aborted).rejects.toMatchObject({ name: "AbortError" });
+
+      expect(queue.popHead()).toBe(0);
+      await expect(kept).resolves.toBe(PushResult.ADDED);
+      expect(queue.popHead()).toBe(3);
+      expect(queue.pendingPushes()).toBe(0);
+    });
+
+    it("should reject waiting and later producers on close", async () => {
+      const queue = new AsyncBufferQueue<number>(1);
+      queue.pushTail(0);
+      const pushed = queue.pushTailAsync(1);
+
+      queue.close();
+      await expect(pushed).rejects.toBeInstanceOf(QueueClosedError);
+      await expect(queue.pushTailAsync(2)).rejects.toBeInstanceOf(
+        QueueClosedError
+      );
+      await expect(queue.take(5)).resolves.toEqual([0]);
+    });
+
+    it("should validate the watermarks", () => {
+      expect(
+        () => new AsyncBufferQueue<number>(4, { highWaterMark: 5 })
+      ).toThrow(RangeError);
+      expect(
+        () =>
+          new AsyncBufferQueue<number>(4, { highWaterMark: 2, lowWaterMark: 2 })
+      ).toThrow(RangeError);
+      expect(
+        () => new AsyncBufferQueue<number>(4, { lowWaterMark: -1 })
+      ).toThrow(RangeError);
+    });
+  });
+});
@@ -0,0 +1,218 @@
+import { describe, it, expect } from "vitest";
+import { BufferManager } from "../src/core/BufferManager";
+import { Float64RingBuffer } from "../src/core/TypedRingBuffer";
+import { CursorStatus, Direction } from "../src/types";
+
+/** Deterministic pseudo-random generator (mulberry32). */
+function random(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+describe("BufferCursor", () => {
+  it("should read unread items without removing them", () => {
+    const buffer = new BufferManager<string>(5);
+    buffer.pushTail(["a", "b", "c"]);
+    const cursor = buffer.createCursor();
+
+    expect(cursor.lag()).toBe(3);
+    expect(cursor.next(2)).toEqual({
+      status: CursorStatus.OK,
+      items: ["a", "b"],
+      missed: 0,
+    });
+    expect(cursor.next()).toEqual({
+      status: CursorStatus.OK,
+      items: ["c"],
+      missed: 0,
+    });
+    expect(cursor.next().items).toEqual([]);
+    expect(cursor.hasNext()).toBe(false);
+    expect(buffer.getAll()).toEqual(["a", "b", "c"]);
+  });
+
+  it("should keep cursors independent", () => {
+    const buffer = new BufferManager<number>(10);
+    const ui = buffer.createCursor();
+    const uploader = buffer.createCursor();
+
+    buffer.pushTail([1, 2, 3]);
+    expect(ui.next().items).toEqual([1, 2, 3]);
+    expect(uploader.next(1).items).toEqual([1]);
+
+    buffer.pushTail(4);
+    expect(ui.lag()).toBe(1);
+    expect(uploader.lag()).toBe(3);
+    expect(uploader.next().items).toEqual([2, 3, 4]);
+  });
+
+  it("should start after the newest item from TAIL", () => {
+    const buffer = new BufferManager<number>(5);
+    buffer.pushTail([1, 2]);
+    const cursor = buffer.createCursor(Direction.TAIL);
+
+    expect(cursor.hasNext()).toBe(false);
+    buffer.pushTail(3);
+    expect(cursor.next().items).toEqual([3]);
+
+    cursor.seek(Direction.HEAD);
+    expect(cursor.next(2).items).toEqual([1, 2]);
+  });
+
+  it("should report an overrun with the number of missed items", () => {
+    const buffer = new BufferManager<number>(3);
+    const cursor = buffer.createCursor();
+    buffer.pushTail([1, 2]);
+    expect(cursor.next(1).items).toEqual([1]);
+
+    // Overwrites 1..3 (one push per item: a batch larger than the capacity
+    // never stores its first items)
+    for (const item of [3, 4, 5, 6]) buffer.pushTail(item);
+    expect(cursor.lag()).toBe(5);
+    expect(cursor.isOverrun()).toBe(true);
+    expect(cursor.next(2)).toEqual({
+      status: CursorStatus.OVERRUN,
+      items: [4, 5],
+      missed: 2,
+    });
+    expect(cursor.isOverrun()).toBe(false);
+    expect(cursor.next()).toEqual({
+      status: CursorStatus.OK,
+      items: [6],
+      missed: 0,
+    });
+  });
+
+  it("should count items removed by popHead, clear and resize as missed", () => {
+    const buffer = new BufferManager<number>(5);
+    const cursor = buffer.createCursor();
+    buffer.pushTail([1, 2, 3, 4, 5]);
+
+    buffer.popHead(2);
+    expect(cursor.next(1)).toMatchObject({ items: [3], missed: 2 });
+
+    buffer.resize(2); // drops 3
+    expect(cursor.next()).toMatchObject({ items: [4, 5], missed: 0 });
+
+    buffer.pushTail(6);
+    buffer.clear();
+    expect(cursor.next()).toMatchObject({
+      status: CursorStatus.OVERRUN,
+      items: [],
+      missed: 1,
+    });
+  });
+
+  it("should not skip items pushed after a popTail", () => {
+    const buffer = new BufferManager<number>(5);
+    const cursor = buffer.createCursor();
+    buffer.pushTail([1, 2]);
+    cursor.next();
+
+    buffer.popTail();
+    expect(cursor.lag()).toBe(0);
+    expect(cursor.next().items).toEqual([]);
+    buffer.pushTail(3);
+    expect(cursor.next().items).toEqual([3]);
+  });
+
+  it("should ignore items pushed at HEAD", () => {
+    const buffer = new BufferManager<number>(5);
+    buffer.pushTail([2, 3]);
+    const cursor = buffer.createCursor();
+    buffer.pushHead(1);
+
+    expect(cursor.next().items).toEqual([2, 3]);
+  });
+
+  it("should read typed ring buffers", () => {
+    const buffer = new Float64RingBuffer(4);
+    const cursor = buffer.createCursor();
+    buffer.pushTail([0.5, 1.5]);
+
+    expect(cursor.next().items).toEqual([0.5, 1.5]);
+    expect(cursor.next(0).items).toEqual([]);
+  });
+
+  it("should see every pushed item exactly once or count it as missed", () => {
+    const rand = random(5);
+    const buffer = new BufferManager<number>(16);
+    const cursor = buffer.createCursor();
+    let next = 0;
+    let seen = 0;
+    let lastSeen = -1;
+
+    for (let step = 0; step < 3000; step++) {
+      const op = rand();
+      if (op < 0.6) {
+        buffer.pushTail(next++);
+      } else if (op < 0.65) {
+        buffer.popHead();
+      } else {
+        const read = cursor.next(Math.floor(rand() * 8));
+        for (const item of read.items) {
+          expect(item).toBeGreaterThan(lastSeen);
+          lastSeen = item;
+        }
+        seen += read.items.length + read.missed;
+      }
+    }
+    const rest = cursor.next();
+    seen += rest.items.length + rest.missed;
+    expect(seen).toBe(next);
+  });
+
+  it("should read items pushed after a popTail without a read in between", () => {
+    const buffer = new BufferManager<number>(5);
+    const cursor = buffer.createCursor();
+    buffer.pushTail([1, 2, 3]);
+    expect(cursor.next().items).toEqual([1, 2, 3]);
+
+    buffer.popTail(2);
+    buffer.pushTail([7, 8]);
+    expect(cursor.lag()).toBe(2);
+    expect(cursor.next()).toEqual({
+      status: CursorStatus.OK,
+      items: [7, 8],
+      missed: 0,
+    });
+  });
+
+  it("should count replacements of popped items evicted before a read", () => {
+    const buffer = new BufferManager<number>(3);
+    const cursor = buffer.createCursor();
+    buffer.pushTail([1, 2, 3]);
+    cursor.next();
+
+    buffer.popTail(2);
+    for (const item of [7, 8, 9, 10]) buffer.pushTail(item);
+    expect(cursor.next()).toEqual({
+      status: CursorStatus.OVERRUN,
+      items: [8, 9, 10],
+      missed: 1,
+    });
+  });
+
+
+  it("should stop tracking the buffer once closed", () => {
+    const buffer = new BufferManager<number>(5);
+    const cursor = buffer.createCursor();
+    const other = buffer.createCursor();
+    buffer.pushTail([1, 2]);
+
+    cursor.close();
+    expect(cursor.isClosed()).toBe(true);
+    expect(() => cursor.next()).toThrow(/closed/);
+    expect(() => cursor.lag()).toThrow(/closed/);
+    cursor.close(); // idempotent
+
+    buffer.popTail();
+    buffer.pushTail(3);
+    expect(other.isClosed()).toBe(false);
+    expect(other.next().items).toEqual([1, 3]);
+  });
+});
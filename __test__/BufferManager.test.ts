@@ -1,5 +1,24 @@
-import { describe, it, expect, beforeEach } from "vitest";
+import { describe, it, expect, beforeEach, vi } from "vitest";
 import { BufferManager, createBuffer } from "../src/core/BufferManager";
+import { BufferOverflowError, InvalidSnapshotError } from "../src/core/errors";
+import {
+  BufferOperation,
+  Direction,
+  EvictReason,
+  OverflowPolicy,
+  PushResult,
+  type BufferChange,
+} from "../src/types";
+
+/** Deterministic pseudo-random generator (mulberry32). */
+function random(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
 
 describe("BufferManager", () => {
   describe("Constructor and Factory", () => {
@@ -404,4 +423,1086 @@ describe("BufferManager", () => {
       expect(buffer.getAll()).toEqual([2, 3, 4]);
     });
   });
+
+  describe("Overflow policies", () => {
+    it("should report push results with the default policy", () => {
+      const buffer = new BufferManager<number>(3);
+      expect(buffer.overflowPolicy()).toBe(OverflowPolicy.OVERWRITE);
+      expect(buffer.pushTail([1, 2])).toBe(PushResult.ADDED);
+      expect(buffer.pushTail([3, 4])).toBe(PushResult.OVERWRITTEN);
+      expect(buffer.pushTail([5, 6, 7, 8])).toBe(PushResult.OVERWRITTEN);
+      expect(buffer.getAll()).toEqual([6, 7, 8]);
+    });
+
+    it("should reject a batch that does not fit without storing any of it", () => {
+      const buffer = createBuffer<number>(3, {
+        overflow: OverflowPolicy.REJECT,
+      });
+      buffer.pushTail(1);
+
+      expect(buffer.pushTail([2, 3, 4])).toBe(PushResult.REJECTED);
+      expect(buffer.pushHead([2, 3, 4])).toBe(PushResult.REJECTED);
+      expect(buffer.getAll()).toEqual([1]);
+
+      expect(buffer.pushTail([2, 3])).toBe(PushResult.ADDED);
+      expect(buffer.pushTail(4)).toBe(PushResult.REJECTED);
+      expect(buffer.getAll()).toEqual([1, 2, 3]);
+    });
+
+    it("should throw for a batch that does not fit without storing any of it", () => {
+      const buffer = new BufferManager<number>(3, {
+        overflow: OverflowPolicy.THROW,
+      });
+      buffer.pushTail([1, 2]);
+
+      expect(() => buffer.pushTail([3, 4])).toThrow(BufferOverflowError);
+      expect(() => buffer.pushHead([3, 4])).toThrow(BufferOverflowError);
+      expect(buffer.getAll()).toEqual([1, 2]);
+    });
+
+    it("should drop tail pushes that do not fit, keeping the head end of the input", () => {
+      const buffer = new BufferManager<number>(3, {
+        overflow: OverflowPolicy.DROP,
+      });
+      buffer.pushTail(1);
+
+      expect(buffer.pushTail([2, 3, 4, 5])).toBe(PushResult.DROPPED);
+      expect(buffer.getAll()).toEqual([1, 2, 3]);
+    });
+
+    it("should drop head pushes that do not fit, keeping the tail end of the input", () => {
+      const buffer = new BufferManager<number>(3, {
+        overflow: OverflowPolicy.DROP,
+      });
+      buffer.pushTail(9);
+
+      expect(buffer.pushHead([1, 2, 3, 4])).toBe(PushResult.DROPPED);
+      expect(buffer.getAll()).toEqual([3, 4, 9]);
+    });
+
+    it("should leave contents untouched when replaceAll is refused", () => {
+      const rejecting = new BufferManager<number>(2, {
+        overflow: OverflowPolicy.REJECT,
+      });
+      rejecting.pushTail([1, 2]);
+      expect(rejecting.replaceAll([3, 4, 5])).toBe(PushResult.REJECTED);
+      expect(rejecting.getAll()).toEqual([1, 2]);
+
+      const throwing = new BufferManager<number>(2, {
+        overflow: OverflowPolicy.THROW,
+      });
+      throwing.pushTail([1, 2]);
+      expect(() => throwing.replaceAll([3, 4, 5])).toThrow(BufferOverflowError);
+      expect(throwing.getAll()).toEqual([1, 2]);
+    });
+
+    it("should keep the first items when replaceAll drops", () => {
+      const buffer = new BufferManager<number>(2, {
+        overflow: OverflowPolicy.DROP,
+      });
+      expect(buffer.replaceAll([1, 2, 3])).toBe(PushResult.DROPPED);
+      expect(buffer.getAll()).toEqual([1, 2]);
+    });
+  });
+
+  describe("Eviction callback", () => {
+    let evictions: Array<{ items: number[]; reason: EvictReason }>;
+    let buffer: BufferManager<number>;
+
+    beforeEach(() => {
+      evictions = [];
+      buffer = new BufferManager<number>(3, {
+        onEvict: (items, reason) => evictions.push({ items, reason }),
+      });
+    });
+
+    it("should report the oldest item overwritten by pushTail", () => {
+      buffer.pushTail([1, 2, 3]);
+      expect(evictions).toEqual([]);
+
+      buffer.pushTail(4);
+      expect(evictions).toEqual([{ items: [1], reason: EvictReason.OVERFLOW }]);
+    });
+
+    it("should report the newest item overwritten by pushHead", () => {
+      buffer.pushTail([1, 2, 3]);
+      buffer.pushHead(0);
+      expect(evictions).toEqual([{ items: [3], reason: EvictReason.OVERFLOW }]);
+    });
+
+    it("should report batch overwrites once, oldest -> newest", () => {
+      buffer.pushTail([1, 2]);
+      buffer.pushTail([3, 4, 5, 6, 7]);
+
+      expect(evictions).toEqual([
+        { items: [1, 2, 3, 4], reason: EvictReason.OVERFLOW },
+      ]);
+      expect(buffer.getAll()).toEqual([5, 6, 7]);
+    });
+
+    it("should report batch head overwrites once, oldest -> newest", () => {
+      buffer.pushTail([8, 9]);
+      buffer.pushHead([1, 2, 3, 4, 5]);
+
+      expect(evictions).toEqual([
+        { items: [4, 5, 8, 9], reason: EvictReason.OVERFLOW },
+      ]);
+      expect(buffer.getAll()).toEqual([1, 2, 3]);
+    });
+
+    it("should not report items refused by non-overwrite policies", () => {
+      const dropped: number[][] = [];
+      const dropping = new BufferManager<number>(2, {
+        overflow: OverflowPolicy.DROP,
+        onEvict: (items) => dropped.push(items),
+      });
+      dropping.pushTail([1, 2, 3]);
+      dropping.pushTail(4);
+
+      expect(dropped).toEqual([]);
+    });
+
+    it("should report oldest items discarded by a shrinking resize", () => {
+      buffer.pushTail([1, 2, 3]);
+      buffer.resize(1);
+
+      expect(evictions).toEqual([
+        { items: [1, 2], reason: EvictReason.RESIZE },
+      ]);
+      buffer.resize(5);
+      expect(evictions).toHaveLength(1);
+    });
+
+    it("should report all items on clear", () => {
+      buffer.clear();
+      expect(evictions).toEqual([]);
+
+      buffer.pushTail([1, 2]);
+      buffer.clear();
+      expect(evictions).toEqual([{ items: [1, 2], reason: EvictReason.CLEAR }]);
+    });
+
+    it("should report previous contents on replaceAll", () => {
+      buffer.pushTail([1, 2]);
+      buffer.replaceAll([3, 4, 5, 6]);
+
+      expect(evictions).toEqual([
+        { items: [1, 2], reason: EvictReason.REPLACE_ALL },
+        { items: [3], reason: EvictReason.OVERFLOW },
+      ]);
+    });
+  });
+
+  describe("Indexed access", () => {
+    it("should read and write by logical index", () => {
+      const buffer = new BufferManager<string>(4);
+      buffer.pushTail(["B", "C"]);
+      buffer.pushHead("A");
+
+      expect(buffer.at(0)).toBe("A");
+      expect(buffer.at(-1)).toBe("C");
+      expect(buffer.at(5)).toBeUndefined();
+
+      buffer.set(1, "b");
+      expect(buffer.getAll()).toEqual(["A", "b", "C"]);
+      expect(() => buffer.set(3, "D")).toThrow(RangeError);
+    });
+  });
+
+  describe("Arbitrary-position insert/remove", () => {
+    let buffer: BufferManager<string>;
+
+    beforeEach(() => {
+      buffer = new BufferManager<string>(5);
+      buffer.pushTail(["A", "B", "C", "D"]);
+    });
+
+    it("should insert and remove at a logical index", () => {
+      expect(buffer.insertAt(2, "X")).toBe(PushResult.ADDED);
+      expect(buffer.getAll()).toEqual(["A", "B", "X", "C", "D"]);
+
+      expect(buffer.removeAt(-1)).toBe("D");
+      expect(buffer.removeAt(0)).toBe("A");
+      expect(buffer.removeAt(9)).toBeUndefined();
+      expect(buffer.getAll()).toEqual(["B", "X", "C"]);
+    });
+
+    it("should splice like Array.prototype.splice", () => {
+      expect(buffer.splice(1, 2, "x", "y", "z")).toEqual(["B", "C"]);
+      expect(buffer.getAll()).toEqual(["A", "x", "y", "z", "D"]);
+
+      expect(buffer.splice(-2)).toEqual(["z", "D"]);
+      expect(buffer.getAll()).toEqual(["A", "x", "y"]);
+
+      expect(buffer.splice(0, 0, "0")).toEqual([]);
+      expect(buffer.getAll()).toEqual(["0", "A", "x", "y"]);
+    });
+
+    it("should apply the overflow policy to spliced-in items", () => {
+      const evicted: string[][] = [];
+      const overwriting = new BufferManager<string>(3, {
+        onEvict: (items) => evicted.push(items),
+      });
+      overwriting.pushTail(["A", "B", "C"]);
+      expect(overwriting.splice(2, 0, "x", "y")).toEqual([]);
+      expect(overwriting.getAll()).toEqual(["x", "y", "C"]);
+      expect(evicted).toEqual([["A", "B"]]);
+
+      const rejecting = new BufferManager<string>(3, {
+        overflow: OverflowPolicy.REJECT,
+      });
+      rejecting.pushTail(["A", "B", "C"]);
+      expect(rejecting.splice(1, 1, "x", "y")).toEqual([]);
+      expect(rejecting.getAll()).toEqual(["A", "B", "C"]);
+      expect(rejecting.splice(1, 2, "x", "y")).toEqual(["B", "C"]);
+      expect(rejecting.getAll()).toEqual(["A", "x", "y"]);
+      expect(rejecting.insertAt(0, "z")).toBe(PushResult.REJECTED);
+    });
+
+    it("should remove the first occurrence of an item", () => {
+      buffer.pushTail("B");
+      expect(buffer.remove("B")).toBe(true);
+      expect(buffer.getAll()).toEqual(["A", "C", "D", "B"]);
+      expect(buffer.remove("Z")).toBe(false);
+    });
+
+    it("should remove items matching a predicate", () => {
+      expect(buffer.removeWhere((x, i) => x === "A" || i === 2)).toEqual([
+        "A",
+        "C",
+      ]);
+      expect(buffer.getAll()).toEqual(["B", "D"]);
+      expect(buffer.available()).toBe(3);
+    });
+  });
+
+  describe("Storage compaction", () => {
+    it("should reclaim storage after a large shrink", () => {
+      const buffer = new BufferManager<number>(1000);
+      buffer.pushTail([1, 2, 3]);
+      buffer.resize(10);
+
+      expect(buffer.physicalCapacity()).toBe(10);
+      expect(buffer.getAll()).toEqual([1, 2, 3]);
+    });
+
+    it("should compact and trim on demand", () => {
+      const buffer = new BufferManager<number>(100, {
+        compactThreshold: Infinity,
+      });
+      buffer.pushTail([1, 2, 3]);
+      buffer.resize(50);
+      expect(buffer.physicalCapacity()).toBe(100);
+
+      expect(buffer.compact()).toBe(true);
+      expect(buffer.physicalCapacity()).toBe(50);
+
+      expect(buffer.trimToSize()).toBe(true);
+      expect(buffer.capacity()).toBe(3);
+      expect(buffer.isFull()).toBe(true);
+      expect(buffer.getAll()).toEqual([1, 2, 3]);
+    });
+  });
+
+
+  describe("JSON snapshot / restore", () => {
+    it("should round-trip through JSON.stringify", () => {
+      const buffer = new BufferManager<number>(4, {
+        overflow: OverflowPolicy.REJECT,
+      });
+      buffer.pushTail([1, 2, 3]);
+
+      const json = JSON.stringify(buffer);
+      expect(JSON.parse(json)).toEqual({
+        version: 1,
+        capacity: 4,
+        items: [1, 2, 3],
+        options: { overflow: OverflowPolicy.REJECT, compactThreshold: 2 },
+      });
+
+      const restored = BufferManager.fromJSON<number>(json);
+      expect(restored.getAll()).toEqual([1, 2, 3]);
+      expect(restored.capacity()).toBe(4);
+      expect(restored.overflowPolicy()).toBe(OverflowPolicy.REJECT);
+    });
+
+    it("should preserve logical order after wrap-around", () => {
+      const buffer = createBuffer<number>(3);
+      buffer.pushTail([1, 2, 3, 4, 5]);
+
+      const restored = BufferManager.fromJSON<number>(buffer.toJSON());
+      expect(restored.getAll()).toEqual([3, 4, 5]);
+      expect(restored.isFull()).toBe(true);
+    });
+
+    it("should encode an infinite compactThreshold as null", () => {
+      const buffer = createBuffer<number>(2, { compactThreshold: Infinity });
+      const snapshot = JSON.parse(JSON.stringify(buffer));
+      expect(snapshot.options.compactThreshold).toBeNull();
+
+      const restored = BufferManager.fromJSON<number>(snapshot);
+      restored.pushTail([1]);
+      restored.resize(1);
+      restored.resize(2);
+      expect(restored.physicalCapacity()).toBe(2);
+    });
+
+    it("should apply item replacers and revivers", () => {
+      const buffer = createBuffer<{ at: Date; tags: Map<string, number> }>(2);
+      buffer.pushTail({ at: new Date(0), tags: new Map([["a", 1]]) });
+
+      const json = JSON.stringify(
+        buffer.toSnapshot({
+          replacer: (e) => ({ at: e.at.toISOString(), tags: [...e.tags] }),
+        })
+      );
+      const restored = BufferManager.fromJSON<{
+        at: Date;
+        tags: Map<string, number>;
+      }>(json, {
+        reviver: (value) => {
+          const e = value as { at: string; tags: [string, number][] };
+          return { at: new Date(e.at), tags: new Map(e.tags) };
+        },
+      });
+
+      const item = restored.getHead()!;
+      expect(item.at).toBeInstanceOf(Date);
+      expect(item.at.getTime()).toBe(0);
+      expect(item.tags.get("a")).toBe(1);
+    });
+
+    it("should run schema migrations before reviving", () => {
+      const v1 = createBuffer<{ name: string }>(2);
+      v1.pushTail({ name: "a" });
+      const snapshot = v1.toSnapshot({ schemaVersion: 1 });
+
+      const restored = BufferManager.fromJSON<{ label: string }>(snapshot, {
+        migrate: (s) =>
+          s.schemaVersion === 1
+            ? {
+                ...s,
+                schemaVersion: 2,
+                items: (s.items as { name: string }[]).map((i) => ({
+                  label: i.name,
+                })),
+              }
+            : s,
+      });
+      expect(restored.getAll()).toEqual([{ label: "a" }]);
+    });
+
+    it("should reject malformed or newer snapshots", () => {
+      const valid = createBuffer<number>(2).toSnapshot();
+
+      expect(() => BufferManager.fromJSON("{")).toThrow(InvalidSnapshotError);
+      expect(() => BufferManager.fromJSON({ ...valid, version: 99 })).toThrow(
+        /unsupported format version/
+      );
+      expect(() =>
+        BufferManager.fromJSON({ ...valid, items: [1, 2, 3] })
+      ).toThrow(/more items than capacity/);
+      expect(() =>
+        BufferManager.fromJSON({
+          ...valid,
+          options: { ...valid.options, overflow: "bogus" as OverflowPolicy },
+        })
+      ).toThrow(/invalid overflow policy/);
+    });
+
+    it("should attach a fresh onEvict callback on restore", () => {
+      const evicted: number[][] = [];
+      const buffer = createBuffer<number>(2);
+      buffer.pushTail([1, 2]);
+
+      const restored = BufferManager.fromJSON<number>(buffer.toJSON(), {
+        onEvict: (items) => evicted.push(items),
+      });
+      restored.pushTail(3);
+      expect(evicted).toEqual([[1]]);
+    });
+  });
+
+
+  describe("Weight budget", () => {
+    const weigh = (s: string) => s.length;
+
+    it("should track total and available weight", () => {
+      const buffer = createBuffer<string>(10, { weigh, maxWeight: 10 });
+      buffer.pushTail(["abc", "de"]);
+
+      expect(buffer.totalWeight()).toBe(5);
+      expect(buffer.availableWeight()).toBe(5);
+      expect(buffer.maxWeight()).toBe(10);
+
+      buffer.popHead();
+      expect(buffer.totalWeight()).toBe(2);
+      buffer.clear();
+      expect(buffer.totalWeight()).toBe(0);
+    });
+
+    it("should count items without a weigher", () => {
+      const buffer = createBuffer<number>(3);
+      buffer.pushTail([1, 2]);
+      expect(buffer.totalWeight()).toBe(2);
+      expect(buffer.maxWeight()).toBe(Infinity);
+      expect(buffer.availableWeight()).toBe(Infinity);
+    });
+
+    it("should evict from the head until a push fits", () => {
+      const evicted: string[][] = [];
+      const buffer = createBuffer<string>(10, {
+        weigh,
+        maxWeight: 10,
+        onEvict: (items) => evicted.push(items),
+      });
+      buffer.pushTail(["aaaa", "bbb", "cc"]);
+
+      expect(buffer.pushTail("dddddd")).toBe(PushResult.OVERWRITTEN);
+      expect(buffer.getAll()).toEqual(["cc", "dddddd"]);
+      expect(buffer.totalWeight()).toBe(8);
+      expect(evicted).toEqual([["aaaa", "bbb"]]);
+    });
+
+    it("should evict from the tail for head pushes", () => {
+      const buffer = createBuffer<string>(10, { weigh, maxWeight: 6 });
+      buffer.pushTail(["aa", "bb", "cc"]);
+
+      buffer.pushHead("zzz");
+      expect(buffer.getAll()).toEqual(["zzz", "aa"]);
+      expect(buffer.totalWeight()).toBe(5);
+    });
+
+    it("should apply both the count and weight caps", () => {
+      const buffer = createBuffer<string>(2, { weigh, maxWeight: 100 });
+      buffer.pushTail(["a", "b", "c"]);
+      expect(buffer.getAll()).toEqual(["b", "c"]);
+      expect(buffer.totalWeight()).toBe(2);
+    });
+
+    it("should never store items heavier than the whole budget", () => {
+      const overwrite = createBuffer<string>(5, { weigh, maxWeight: 3 });
+      overwrite.pushTail("ab");
+      expect(overwrite.pushTail("abcd")).toBe(PushResult.DROPPED);
+      expect(overwrite.getAll()).toEqual(["ab"]);
+
+      const reject = createBuffer<string>(5, {
+        weigh,
+        maxWeight: 3,
+        overflow: OverflowPolicy.REJECT,
+      });
+      expect(reject.pushTail("abcd")).toBe(PushResult.REJECTED);
+
+      const strict = createBuffer<string>(5, {
+        weigh,
+        maxWeight: 3,
+        overflow: OverflowPolicy.THROW,
+      });
+      expect(() => strict.pushTail("abcd")).toThrow(BufferOverflowError);
+    });
+
+    it("should follow REJECT / DROP when the budget is exhausted", () => {
+      const reject = createBuffer<string>(5, {
+        weigh,
+        maxWeight: 5,
+        overflow: OverflowPolicy.REJECT,
+      });
+      reject.pushTail("abc");
+      expect(reject.pushTail(["d", "ef"])).toBe(PushResult.REJECTED);
+      expect(reject.getAll()).toEqual(["abc"]);
+
+      const drop = createBuffer<string>(5, {
+        weigh,
+        maxWeight: 5,
+        overflow: OverflowPolicy.DROP,
+      });
+      drop.pushTail("abc");
+      expect(drop.pushTail(["def", "g", "h"])).toBe(PushResult.DROPPED);
+      expect(drop.getAll()).toEqual(["abc", "g", "h"]);
+      expect(drop.totalWeight()).toBe(5);
+    });
+
+    it("should keep weights in sync across positional edits", () => {
+      const buffer = createBuffer<string>(10, { weigh, maxWeight: 20 });
+      buffer.pushTail(["a", "bb", "ccc", "dddd"]);
+
+      buffer.removeAt(1);
+      expect(buffer.totalWeight()).toBe(8);
+      buffer.remove("a");
+      expect(buffer.totalWeight()).toBe(7);
+      buffer.insertAt(0, "ee");
+      expect(buffer.totalWeight()).toBe(9);
+      buffer.removeWhere((s) => s.length === 3);
+      expect(buffer.totalWeight()).toBe(6);
+      expect(buffer.splice(0, 1, "x", "yy")).toEqual(["ee"]);
+      expect(buffer.getAll()).toEqual(["x", "yy", "dddd"]);
+      expect(buffer.totalWeight()).toBe(7);
+      buffer.set(0, "zzz");
+      expect(buffer.totalWeight()).toBe(9);
+      buffer.resize(1);
+      expect(buffer.totalWeight()).toBe(4);
+      buffer.replaceAll(["q"]);
+      expect(buffer.totalWeight()).toBe(1);
+    });
+
+    it("should evict by weight on insertAt", () => {
+      const buffer = createBuffer<string>(10, { weigh, maxWeight: 6 });
+      buffer.pushTail(["aa", "bb", "cc"]);
+
+      expect(buffer.insertAt(2, "x")).toBe(PushResult.OVERWRITTEN);
+      expect(buffer.getAll()).toEqual(["bb", "x", "cc"]);
+
+      expect(buffer.insertAt(0, "yyy")).toBe(PushResult.OVERWRITTEN);
+      expect(buffer.getAll()).toEqual(["yyy", "bb", "x"]);
+      expect(buffer.totalWeight()).toBe(6);
+    });
+
+    it("should refuse set() beyond the budget", () => {
+      const buffer = createBuffer<string>(10, { weigh, maxWeight: 4 });
+      buffer.pushTail(["ab", "c"]);
+      expect(() => buffer.set(0, "abcd")).toThrow(RangeError);
+      expect(buffer.getAll()).toEqual(["ab", "c"]);
+    });
+
+    it("should use unit weights with maxWeight alone and validate options", () => {
+      const buffer = createBuffer<number>(10, { maxWeight: 2 });
+      buffer.pushTail([1, 2, 3]);
+      expect(buffer.getAll()).toEqual([2, 3]);
+
+      expect(() => createBuffer<number>(2, { maxWeight: 0 })).toThrow(
+        "Max weight must be greater than 0"
+      );
+      const bad = createBuffer<number>(2, { weigh: () => NaN });
+      expect(() => bad.pushTail(1)).toThrow(/Invalid item weight/);
+    });
+  });
+
+  describe("Observers", () => {
+    function counter() {
+      const items = new Map<number, number>();
+      return {
+        added: (item: number) => items.set(item, (items.get(item) ?? 0) + 1),
+        removed: (item: number) => {
+          const n = (items.get(item) ?? 0) - 1;
+          if (n === 0) items.delete(item);
+          else items.set(item, n);
+        },
+        values: () => [...items.keys()].sort((a, b) => a - b),
+      };
+    }
+
+    it("should replay current items and follow later changes", () => {
+      const buffer = new BufferManager<number>(3);
+      buffer.pushTail([1, 2]);
+      const observer = counter();
+      buffer.observe(observer);
+      expect(observer.values()).toEqual([1, 2]);
+
+      buffer.pushTail([3, 4]);
+      buffer.splice(0, 1, 10);
+      buffer.popTail();
+      expect(observer.values()).toEqual(buffer.getAll().sort((a, b) => a - b));
+
+      buffer.replaceAll([7, 8, 9, 11]);
+      expect(observer.values()).toEqual([8, 9, 11]);
+    });
+
+    it("should notify several observers and detach them independently", () => {
+      const buffer = new BufferManager<number>(5);
+      const a = counter();
+      const b = counter();
+      const detachA = buffer.observe(a);
+      buffer.observe(b);
+
+      buffer.pushTail(1);
+      detachA();
+      buffer.pushTail(2);
+
+      expect(a.values()).toEqual([1]);
+      expect(b.values()).toEqual([1, 2]);
+    });
+
+    it("should report items evicted by the weight budget", () => {
+      const buffer = new BufferManager<number>(10, {
+        weigh: (n) => n,
+        maxWeight: 10,
+      });
+      const observer = counter();
+      buffer.observe(observer);
+
+      buffer.pushTail([4, 5, 6]);
+      expect(observer.values()).toEqual(buffer.getAll());
+      expect(buffer.getAll()).toEqual([6]);
+    });
+  });
+
+  describe("Change events", () => {
+    function record<T>(buffer: BufferManager<T>) {
+      const changes: BufferChange<T>[] = [];
+      const unsubscribe = buffer.subscribe((change) => changes.push(change));
+      return { changes, unsubscribe };
+    }
+
+    it("should describe pushes, overwrites and pops", () => {
+      const buffer = new BufferManager<number>(3);
+      const { changes } = record(buffer);
+
+      buffer.pushTail([1, 2, 3, 4]);
+      buffer.popHead();
+      buffer.pushHead(0);
+
+      expect(changes).toEqual([
+        {
+          operation: BufferOperation.PUSH_TAIL,
+          direction: Direction.TAIL,
+          added: [2, 3, 4],
+          removed: [],
+          version: 1,
+        },
+        {
+          operation: BufferOperation.POP_HEAD,
+          direction: Direction.HEAD,
+          added: [],
+          removed: [2],
+          version: 2,
+        },
+        {
+          operation: BufferOperation.PUSH_HEAD,
+          direction: Direction.HEAD,
+          added: [0],
+          removed: [],
+          version: 3,
+        },
+      ]);
+
+      buffer.pushTail(5); // overwrites 0
+      expect(changes[3]).toMatchObject({ added: [5], removed: [0] });
+    });
+
+    it("should cover every mutating method", () => {
+      const buffer = new BufferManager<number>(5);
+      buffer.pushTail([1, 2, 3]);
+      const { changes } = record(buffer);
+
+      buffer.set(0, 10);
+      buffer.insertAt(1, 20);
+      buffer.removeAt(0);
+      buffer.splice(0, 1, 30, 40);
+      buffer.remove(40);
+      buffer.removeWhere((n) => n === 2);
+      buffer.popTail(1);
+      buffer.resize(10);
+      buffer.trimToSize();
+      buffer.replaceAll([7, 8]);
+      buffer.clear();
+
+      expect(changes.map((c) => c.operation)).toEqual([
+        BufferOperation.SET,
+        BufferOperation.INSERT_AT,
+        BufferOperation.REMOVE_AT,
+        BufferOperation.SPLICE,
+        BufferOperation.REMOVE,
+        BufferOperation.REMOVE_WHERE,
+        BufferOperation.POP_TAIL,
+        BufferOperation.RESIZE,
+        BufferOperation.TRIM_TO_SIZE,
+        BufferOperation.REPLACE_ALL,
+        BufferOperation.CLEAR,
+      ]);
+      expect(changes.map((c) => c.version)).toEqual([
+        2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12,
+      ]);
+      expect(changes[0]).toMatchObject({ added: [10], removed: [1] });
+      expect(changes[3]).toMatchObject({ added: [30, 40], removed: [20] });
+      // replaceAll reports the previous contents and the stored items at once
+      // (capacity is 1 after trimToSize)
+      expect(changes[9]).toMatchObject({ added: [8], removed: [30] });
+      expect(changes[10]).toMatchObject({ added: [], removed: [8] });
+    });
+
+    it("should report items discarded by a shrinking resize", () => {
+      const buffer = new BufferManager<string>(4);
+      buffer.pushTail(["a", "b", "c"]);
+      const { changes } = record(buffer);
+
+      buffer.resize(1);
+      expect(changes[0]).toMatchObject({
+        operation: BufferOperation.RESIZE,
+        removed: ["a", "b"],
+      });
+      expect(changes[0].direction).toBeUndefined();
+    });
+
+    it("should skip calls that change nothing", () => {
+      const buffer = new BufferManager<number>(2, {
+        overflow: OverflowPolicy.REJECT,
+      });
+      const { changes } = record(buffer);
+
+      buffer.popHead();
+      buffer.clear();
+      buffer.resize(2);
+      buffer.compact();
+      buffer.pushTail([1, 2, 3]); // rejected
+      buffer.removeWhere(() => false);
+
+      expect(changes).toEqual([]);
+      expect(buffer.version()).toBe(0);
+    });
+
+    it("should count versions without listeners and stop after unsubscribe", () => {
+      const buffer = new BufferManager<number>(3);
+      buffer.pushTail(1);
+      buffer.pushTail([2, 3]);
+      expect(buffer.version()).toBe(2);
+
+      const { changes, unsubscribe } = record(buffer);
+      buffer.popHead();
+      unsubscribe();
+      buffer.popHead();
+
+      expect(changes).toHaveLength(1);
+      expect(changes[0].version).toBe(3);
+      expect(buffer.version()).toBe(4);
+    });
+
+    it("should notify after eviction callbacks, with the buffer updated", () => {
+      const calls: string[] = [];
+      const buffer = new BufferManager<number>(1, {
+        onEvict: () => calls.push("evict"),
+      });
+      buffer.pushTail(1);
+      buffer.subscribe(() => calls.push(`change:${buffer.getAll().join()}`));
+
+      buffer.pushTail(2);
+      expect(calls).toEqual(["evict", "change:2"]);
+    });
+  });
+
+  describe("Sequence numbers", () => {
+    it("should number TAIL pushes upwards and HEAD pushes downwards", () => {
+      const buffer = new BufferManager<string>(5);
+      expect(buffer.firstSeq()).toBeUndefined();
+      expect(buffer.lastSeq()).toBeUndefined();
+      expect(buffer.nextSeq()).toBe(0);
+
+      buffer.pushTail(["a", "b"]);
+      buffer.pushHead(["y", "z"]); // y becomes the oldest
+      buffer.pushTail("c");
+
+      expect(buffer.getAll()).toEqual(["y", "z", "a", "b", "c"]);
+      expect([0, 1, 2, 3, 4].map((i) => buffer.seqOf(i))).toEqual([
+        -2, -1, 0, 1, 2,
+      ]);
+      expect(buffer.firstSeq()).toBe(-2);
+      expect(buffer.lastSeq()).toBe(2);
+      expect(buffer.seqOf(-1)).toBe(2);
+      expect(buffer.seqOf(5)).toBeUndefined();
+      expect(buffer.nextSeq()).toBe(3);
+    });
+
+    it("should keep numbers stable across pops and overwrites", () => {
+      const buffer = new BufferManager<number>(3);
+      buffer.pushTail([10, 11, 12]);
+      buffer.popHead();
+      buffer.pushTail([13, 14]); // overwrites 11
+
+      expect(buffer.getAll()).toEqual([12, 13, 14]);
+      expect(buffer.firstSeq()).toBe(2);
+      expect(buffer.lastSeq()).toBe(4);
+
+      // Numbers are never reused, even after popTail
+      buffer.popTail();
+      buffer.pushTail(15);
+      expect(buffer.lastSeq()).toBe(5);
+    });
+
+    it("should return items after a sequence number", () => {
+      const buffer = new BufferManager<string>(10);
+      buffer.pushTail(["a", "b", "c"]);
+
+      expect(buffer.getSince(-Infinity)).toEqual({
+        items: ["a", "b", "c"],
+        lastSeq: 2,
+        missed: 0,
+      });
+      expect(buffer.getSince(0)).toEqual({
+        items: ["b", "c"],
+        lastSeq: 2,
+        missed: 0,
+      });
+      expect(buffer.getSince(2)).toEqual({ items: [], lastSeq: 2, missed: 0 });
+
+      buffer.pushTail("d");
+      expect(buffer.getSince(2).items).toEqual(["d"]);
+    });
+
+    it("should report items evicted before they were read", () => {
+      const buffer = new BufferManager<number>(3);
+      buffer.pushTail([0, 1]);
+      const { lastSeq } = buffer.getSince(-Infinity);
+
+      for (const item of [2, 3, 4, 5]) buffer.pushTail(item);
+      expect(buffer.getSince(lastSeq)).toEqual({
+        items: [3, 4, 5],
+        lastSeq: 5,
+        missed: 1,
+      });
+
+      buffer.clear();
+      expect(buffer.getSince(5)).toEqual({ items: [], lastSeq: 5, missed: 0 });
+      expect(buffer.getSince(3).missed).toBe(2);
+    });
+
+    it("should not return HEAD pushes to readers past them", () => {
+      const buffer = new BufferManager<string>(5);
+      buffer.pushTail("new");
+      const { lastSeq } = buffer.getSince(-Infinity);
+      buffer.pushHead("older");
+
+      expect(buffer.getSince(lastSeq).items).toEqual([]);
+      expect(buffer.getSince(-Infinity).items).toEqual(["older", "new"]);
+    });
+
+    it("should keep numbers with their items through inserts and removals", () => {
+      const buffer = new BufferManager<string>(10);
+      buffer.firstSeq(); // keep per-item numbers from here on
+      buffer.pushTail(["a", "b", "c", "d"]);
+      buffer.insertAt(2, "x");
+      buffer.insertAt(0, "w");
+      buffer.removeAt(4); // c
+
+      expect(buffer.getAll()).toEqual(["w", "a", "b", "x", "d"]);
+      expect(buffer.getAll().map((_, i) => buffer.seqOf(i))).toEqual([
+        -1, 0, 1, 4, 3,
+      ]);
+      // Out of order after the middle insert: still exact
+      expect(buffer.getSince(3)).toEqual({
+        items: ["x"],
+        lastSeq: 4,
+        missed: 0,
+      });
+      expect(buffer.getSince(1)).toMatchObject({ items: ["x", "d"], missed: 1 });
+    });
+
+    it("should track every item's number under random operations", () => {
+      const rand = random(13);
+      const buffer = new BufferManager<number>(12);
+      const seqOfItem = new Map<number, number>();
+      let nextItem = 0;
+
+      for (let step = 0; step < 3000; step++) {
+        const op = rand();
+        const item = nextItem++;
+        if (op < 0.35) {
+          buffer.pushTail(item);
+          seqOfItem.set(item, buffer.lastSeq() as number);
+        } else if (op < 0.45) {
+          buffer.pushHead(item);
+          seqOfItem.set(item, buffer.firstSeq() as number);
+        } else if (op < 0.55) {
+          const index = Math.floor(rand() * (buffer.size() + 1));
+          buffer.insertAt(index, item);
+          const at = buffer.getAll().indexOf(item);
+          if (at !== -1) seqOfItem.set(item, buffer.seqOf(at) as number);
+        } else if (op < 0.65) {
+          buffer.popHead();
+        } else if (op < 0.72) {
+          buffer.popTail();
+        } else if (op < 0.8) {
+          buffer.removeAt(Math.floor(rand() * buffer.size()));
+        } else if (op < 0.85) {
+          buffer.removeWhere((v) => v % 7 === 0);
+        } else if (op < 0.9) {
+          buffer.resize(4 + Math.floor(rand() * 16));
+        } else if (op < 0.93) {
+          buffer.trimToSize();
+          buffer.resize(12);
+        } else {
+          const since = Math.floor(rand() * nextItem) - nextItem / 2;
+          const expected = buffer
+            .getAll()
+            .filter((v) => (seqOfItem.get(v) as number) > since);
+          expect(buffer.getSince(since).items).toEqual(expected);
+        }
+
+        buffer.forEach((v, i) => {
+          expect(buffer.seqOf(i)).toBe(seqOfItem.get(v));
+        });
+      }
+    });
+  });
+
+
+  describe("Sorted-key search", () => {
+    interface Entry {
+      time: number;
+      msg: string;
+    }
+    const byTime = (entry: Entry) => entry.time;
+    const entry = (time: number): Entry => ({ time, msg: `m${time}` });
+
+    it("should find bounds and ranges by key", () => {
+      const buffer = new BufferManager<Entry>(10);
+      buffer.pushTail([10, 20, 20, 30, 40].map(entry));
+
+      expect(buffer.lowerBound(20, byTime)).toBe(1);
+      expect(buffer.upperBound(20, byTime)).toBe(3);
+      expect(buffer.lowerBound(5, byTime)).toBe(0);
+      expect(buffer.lowerBound(50, byTime)).toBe(5);
+      expect(buffer.range(15, 30, byTime).map(byTime)).toEqual([20, 20, 30]);
+      expect(buffer.range(20, 20, byTime)).toHaveLength(2);
+      expect(buffer.range(31, 39, byTime)).toEqual([]);
+      expect(buffer.range(40, 10, byTime)).toEqual([]);
+    });
+
+    it("should search the logical order after wrap-around", () => {
+      const buffer = new BufferManager<number>(4);
+      buffer.pushTail([1, 2, 3, 4, 5, 6]); // stores 3..6
+      const identity = (n: number) => n;
+
+      expect(buffer.lowerBound(5, identity)).toBe(2);
+      expect(buffer.range(0, 4, identity)).toEqual([3, 4]);
+    });
+
+    it("should compare string keys", () => {
+      const buffer = new BufferManager<string>(5);
+      buffer.pushTail(["10:01", "10:02", "10:04", "10:07"]);
+
+      expect(buffer.range("10:02", "10:05", (s) => s)).toEqual([
+        "10:02",
+        "10:04",
+      ]);
+    });
+
+    it("should reject unsorted keys outside production builds", () => {
+      const buffer = new BufferManager<number>(5);
+      buffer.pushTail([1, 3, 2]);
+      const identity = (n: number) => n;
+
+      expect(() => buffer.lowerBound(2, identity)).toThrow(/index 2/);
+
+      vi.stubEnv("NODE_ENV", "production");
+      try {
+        expect(() => buffer.range(0, 5, identity)).not.toThrow();
+      } finally {
+        vi.unstubAllEnvs();
+      }
+    });
+
+    it("should verify the order once per key function and change", () => {
+      const buffer = new BufferManager<number>(1024);
+      buffer.pushTail(Array.from({ length: 1024 }, (_, i) => i));
+      const keyFn = vi.fn((n: number) => n);
+
+      buffer.lowerBound(10, keyFn);
+      expect(keyFn.mock.calls.length).toBeGreaterThanOrEqual(1024);
+
+      keyFn.mockClear();
+      buffer.range(10, 20, keyFn);
+      buffer.upperBound(30, keyFn);
+      expect(keyFn.mock.calls.length).toBeLessThanOrEqual(3 * 11);
+
+      buffer.set(0, 5000);
+      expect(() => buffer.lowerBound(10, keyFn)).toThrow(/index 1/);
+    });
+
+    it("should match a linear filter", () => {
+      const rand = random(23);
+      const buffer = new BufferManager<Entry>(32);
+      let time = 0;
+
+      for (let step = 0; step < 300; step++) {
+        time += Math.floor(rand() * 3); // duplicates included
+        buffer.pushTail(entry(time));
+        const from = Math.floor(rand() * (time + 2)) - 1;
+        const to = from + Math.floor(rand() * 10);
+        expect(buffer.range(from, to, byTime)).toEqual(
+          buffer.filter((e) => e.time >= from && e.time <= to)
+        );
+      }
+    });
+  });
+
+
+  describe("Array-like reads", () => {
+    it("should reduce with and without an initial value", () => {
+      const buffer = new BufferManager<number>(3);
+      buffer.pushTail([1, 2, 3, 4]); // stores 2..4
+
+      expect(buffer.reduce((sum, n) => sum + n)).toBe(9);
+      expect(buffer.reduce((out, n, i) => `${out}${i}:${n} `, "")).toBe(
+        "0:2 1:3 2:4 "
+      );
+      expect(new BufferManager<number>(2).reduce((a, b) => a + b, 0)).toBe(0);
+      const empty = new BufferManager<number>(2);
+      expect(() => empty.reduce((a, b) => a + b)).toThrow(TypeError);
+    });
+
+    it("should search items like Array", () => {
+      const buffer = new BufferManager<number>(6);
+      buffer.pushTail([5, 1, NaN, 4, 1, 8]);
+
+      expect(buffer.find((n) => n > 3)).toBe(5);
+      expect(buffer.findLast((n) => n < 5)).toBe(1);
+      expect(buffer.findLast((_, i) => i === 3)).toBe(4);
+      expect(buffer.find((n) => n > 10)).toBeUndefined();
+      expect(buffer.some((n) => n === 8)).toBe(true);
+      expect(buffer.every((n) => n > 0)).toBe(false);
+      expect(new BufferManager<number>(1).every(() => false)).toBe(true);
+
+      expect(buffer.includes(NaN)).toBe(true);
+      expect(buffer.indexOf(NaN)).toBe(-1);
+      expect(buffer.indexOf(1)).toBe(1);
+      expect(buffer.indexOf(1, 2)).toBe(4);
+      expect(buffer.indexOf(1, -1)).toBe(-1);
+      expect(buffer.includes(5, -100)).toBe(true);
+    });
+
+    it("should join and iterate", () => {
+      const buffer = new BufferManager<string | null>(4);
+      buffer.pushTail(["a", null, "c"]);
+
+      expect(buffer.join()).toBe("a,,c");
+      expect(buffer.join(" | ")).toBe("a |  | c");
+      expect([...buffer.reverseIterator()]).toEqual(["c", null, "a"]);
+      expect([...buffer.entries()]).toEqual([
+        [0, "a"],
+        [1, null],
+        [2, "c"],
+      ]);
+      expect([...buffer.keys()]).toEqual([0, 1, 2]);
+      expect([...buffer.values()]).toEqual(["a", null, "c"]);
+    });
+
+    it("should match Array methods under random operations", () => {
+      const rand = random(25);
+      const buffer = new BufferManager<number>(10);
+
+      for (let step = 0; step < 300; step++) {
+        if (rand() < 0.7) buffer.pushTail(Math.floor(rand() * 8));
+        else buffer.popHead();
+
+        const all = buffer.getAll();
+        const value = Math.floor(rand() * 8);
+        const from = Math.floor(rand() * 24) - 12;
+        const isValue = (n: number) => n === value;
+        expect(buffer.reduce((a, n, i) => a + n * i, 0)).toBe(
+          all.reduce((a, n, i) => a + n * i, 0)
+        );
+        expect(buffer.find((n, i) => n + i > value)).toBe(
+          all.find((n, i) => n + i > value)
+        );
+        expect(buffer.findLast(isValue)).toBe(all.findLast(isValue));
+        expect(buffer.some(isValue)).toBe(all.some(isValue));
+        expect(buffer.every((n) => n !== value)).toBe(
+          all.every((n) => n !== value)
+        );
+        expect(buffer.includes(value, from)).toBe(all.includes(value, from));
+        expect(buffer.indexOf(value, from)).toBe(all.indexOf(value, from));
+        expect(buffer.join("-")).toBe(all.join("-"));
+        expect([...buffer.reverseIterator()]).toEqual([...all].reverse());
+      }
+    });
+  });
 });
@@ -0,0 +1,129 @@
+import { describe, it, expect } from "vitest";
+import { BufferManager } from "../src/core/BufferManager";
+import { StaleViewError } from "../src/core/errors";
+import { Float64RingBuffer } from "../src/core/TypedRingBuffer";
+
+/** Deterministic pseudo-random generator (mulberry32). */
+function random(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+describe("BufferView", () => {
+  it("should read a window of the buffer", () => {
+    const buffer = new BufferManager<string>(5);
+    buffer.pushTail(["a", "b", "c", "d"]);
+    const view = buffer.view(1, 3);
+
+    expect(view.length).toBe(2);
+    expect(view.at(0)).toBe("b");
+    expect(view.at(-1)).toBe("c");
+    expect(view.at(2)).toBeUndefined();
+    expect(view.at(0.5)).toBeUndefined();
+    expect([...view]).toEqual(["b", "c"]);
+    expect(view.map((item, i) => `${i}${item}`)).toEqual(["0b", "1c"]);
+    expect(view.toArray()).toEqual(["b", "c"]);
+  });
+
+  it("should follow Array.prototype.slice bounds", () => {
+    const buffer = new BufferManager<number>(10);
+    buffer.pushTail([0, 1, 2, 3, 4, 5]);
+    const all = buffer.getAll();
+
+    for (const [start, end] of [
+      [undefined, undefined],
+      [2, undefined],
+      [-2, undefined],
+      [1, -1],
+      [4, 2],
+      [-100, 100],
+      [7, 9],
+    ] as const) {
+      expect(buffer.view(start, end).toArray()).toEqual(all.slice(start, end));
+    }
+  });
+
+  it("should narrow with slice relative to the view", () => {
+    const buffer = new BufferManager<number>(4);
+    buffer.pushTail([1, 2, 3, 4, 5, 6]); // wraps: stores 3..6
+    const view = buffer.view(1);
+
+    expect(view.toArray()).toEqual([4, 5, 6]);
+    expect(view.slice(1).toArray()).toEqual([5, 6]);
+    expect(view.slice(-1, 5).toArray()).toEqual([6]);
+    expect(view.slice(2, 1).length).toBe(0);
+  });
+
+  it("should throw once the buffer is modified", () => {
+    const buffer = new BufferManager<number>(3);
+    buffer.pushTail([1, 2, 3]);
+    const view = buffer.view();
+    const iterator = view[Symbol.iterator]();
+    expect(iterator.next().value).toBe(1);
+
+    buffer.pushTail(4);
+    expect(view.isValid()).toBe(false);
+    expect(() => view.at(0)).toThrow(StaleViewError);
+    expect(() => view.toArray()).toThrow(StaleViewError);
+    expect(() => view.slice(1)).toThrow(StaleViewError);
+    expect(() => iterator.next()).toThrow(StaleViewError);
+    expect(buffer.view().toArray()).toEqual([2, 3, 4]);
+  });
+
+  it("should stay valid across reads and no-op changes", () => {
+    const buffer = new BufferManager<number>(3);
+    buffer.pushTail([1, 2]);
+    const view = buffer.view();
+
+    buffer.getAll();
+    buffer.popHead(0);
+    buffer.pushTail([]);
+    expect(view.isValid()).toBe(true);
+
+    buffer.set(0, 10);
+    expect(view.isValid()).toBe(false);
+  });
+
+  it("should view typed ring buffers", () => {
+    const buffer = new Float64RingBuffer(4);
+    buffer.pushTail([0.5, 1.5, 2.5]);
+    expect(buffer.view(-2).toArray()).toEqual([1.5, 2.5]);
+  });
+
+  it("should give zero-copy range queries with lowerBound / upperBound", () => {
+    const buffer = new BufferManager<number>(8);
+    buffer.pushTail([1, 3, 5, 7, 9]);
+    const key = (n: number) => n;
+    const view = buffer.view(
+      buffer.lowerBound(3, key),
+      buffer.upperBound(7, key)
+    );
+
+    expect(view.toArray()).toEqual(buffer.range(3, 7, key));
+  });
+
+  it("should match getAll().slice() under random operations", () => {
+    const rand = random(24);
+    const buffer = new BufferManager<number>(12);
+
+    for (let step = 0; step < 500; step++) {
+      if (rand() < 0.7) buffer.pushTail(step);
+      else buffer.popHead();
+
+      const all = buffer.getAll();
+      const start = Math.floor(rand() * 30) - 15;
+      const end = Math.floor(rand() * 30) - 15;
+      const view = buffer.view(start, end);
+      expect(view.toArray()).toEqual(all.slice(start, end));
+
+      const inner = Math.floor(rand() * 6) - 3;
+      expect(view.slice(inner).toArray()).toEqual(
+        all.slice(start, end).slice(inner)
+      );
+    }
+  });
+});
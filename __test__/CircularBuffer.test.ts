@@ -1,6 +1,12 @@
 import { describe, it, expect, beforeEach } from "vitest";
 import { CircularBuffer } from "../src/core/CircularBuffer";
-import { Direction } from "../src/types";
+import { BufferOverflowError } from "../src/core/errors";
+import {
+  Direction,
+  OverflowPolicy,
+  PushResult,
+  type BufferObserver,
+} from "../src/types";
 
 describe("CircularBuffer", () => {
   describe("Constructor", () => {
@@ -309,4 +315,560 @@ describe("CircularBuffer", () => {
       expect(buffer.getLogicalCapacity()).toBe(10);
     });
   });
+
+  describe("Overflow policies", () => {
+    it("should report ADDED and OVERWRITTEN with the default policy", () => {
+      const buffer = new CircularBuffer<number>(2);
+      expect(buffer.getOverflowPolicy()).toBe(OverflowPolicy.OVERWRITE);
+      expect(buffer.push(1, Direction.TAIL)).toBe(PushResult.ADDED);
+      expect(buffer.push(2, Direction.TAIL)).toBe(PushResult.ADDED);
+      expect(buffer.push(3, Direction.TAIL)).toBe(PushResult.OVERWRITTEN);
+      expect(buffer.push(0, Direction.HEAD)).toBe(PushResult.OVERWRITTEN);
+      expect(Array.from(buffer)).toEqual([0, 2]);
+    });
+
+    it("should reject pushes into a full buffer", () => {
+      const buffer = new CircularBuffer<number>(2, {
+        overflow: OverflowPolicy.REJECT,
+      });
+      buffer.push(1, Direction.TAIL);
+      buffer.push(2, Direction.TAIL);
+
+      expect(buffer.push(3, Direction.TAIL)).toBe(PushResult.REJECTED);
+      expect(buffer.push(0, Direction.HEAD)).toBe(PushResult.REJECTED);
+      expect(Array.from(buffer)).toEqual([1, 2]);
+    });
+
+    it("should drop incoming items when full", () => {
+      const buffer = new CircularBuffer<number>(2, {
+        overflow: OverflowPolicy.DROP,
+      });
+      buffer.push(1, Direction.TAIL);
+      buffer.push(2, Direction.TAIL);
+
+      expect(buffer.push(3, Direction.TAIL)).toBe(PushResult.DROPPED);
+      expect(Array.from(buffer)).toEqual([1, 2]);
+    });
+
+    it("should throw BufferOverflowError when full", () => {
+      const buffer = new CircularBuffer<number>(1, {
+        overflow: OverflowPolicy.THROW,
+      });
+      buffer.push(1, Direction.TAIL);
+
+      expect(() => buffer.push(2, Direction.TAIL)).toThrow(BufferOverflowError);
+      try {
+        buffer.push(2, Direction.HEAD);
+      } catch (e) {
+        expect(e).toBeInstanceOf(BufferOverflowError);
+        expect((e as BufferOverflowError).capacity).toBe(1);
+        expect((e as BufferOverflowError).direction).toBe(Direction.HEAD);
+      }
+      expect(Array.from(buffer)).toEqual([1]);
+    });
+
+    it("should accept pushes again after space is freed", () => {
+      const buffer = new CircularBuffer<number>(1, {
+        overflow: OverflowPolicy.REJECT,
+      });
+      buffer.push(1, Direction.TAIL);
+      buffer.pop(Direction.HEAD);
+
+      expect(buffer.push(2, Direction.TAIL)).toBe(PushResult.ADDED);
+    });
+
+    it("should throw error for invalid overflow policy", () => {
+      expect(
+        () =>
+          new CircularBuffer<number>(1, {
+            overflow: "invalid" as OverflowPolicy,
+          })
+      ).toThrow("Invalid overflow policy");
+    });
+  });
+
+  describe("Indexed access", () => {
+    let buffer: CircularBuffer<number>;
+
+    beforeEach(() => {
+      buffer = new CircularBuffer<number>(3);
+      // wrap around: physical layout differs from logical order
+      buffer.push(1, Direction.TAIL);
+      buffer.push(2, Direction.TAIL);
+      buffer.push(3, Direction.TAIL);
+      buffer.push(4, Direction.TAIL);
+    });
+
+    it("should read by logical index (0 = oldest)", () => {
+      expect(buffer.at(0)).toBe(2);
+      expect(buffer.at(1)).toBe(3);
+      expect(buffer.at(2)).toBe(4);
+    });
+
+    it("should read by negative index (-1 = newest)", () => {
+      expect(buffer.at(-1)).toBe(4);
+      expect(buffer.at(-3)).toBe(2);
+    });
+
+    it("should return undefined for out-of-range or non-integer indices", () => {
+      expect(buffer.at(3)).toBeUndefined();
+      expect(buffer.at(-4)).toBeUndefined();
+      expect(buffer.at(1.5)).toBeUndefined();
+      expect(new CircularBuffer<number>(3).at(0)).toBeUndefined();
+    });
+
+    it("should write by logical and negative index", () => {
+      buffer.set(0, 20);
+      buffer.set(-1, 40);
+      expect(Array.from(buffer)).toEqual([20, 3, 40]);
+    });
+
+    it("should throw RangeError when writing out of range", () => {
+      expect(() => buffer.set(3, 0)).toThrow(RangeError);
+      expect(() => buffer.set(-4, 0)).toThrow("Index out of range");
+      expect(() => buffer.set(0.5, 0)).toThrow(RangeError);
+      expect(Array.from(buffer)).toEqual([2, 3, 4]);
+    });
+  });
+
+  describe("Arbitrary-position insert/remove", () => {
+    const fill = (capacity: number, items: number[]) => {
+      const buffer = new CircularBuffer<number>(capacity);
+      // start mid-ring so shifts have to wrap
+      for (let i = 0; i < Math.floor(capacity / 2); i++) {
+        buffer.push(-1, Direction.TAIL);
+        buffer.pop(Direction.HEAD);
+      }
+      for (const item of items) buffer.push(item, Direction.TAIL);
+      return buffer;
+    };
+
+    it("should insert near the head and near the tail", () => {
+      const buffer = fill(8, [1, 2, 3, 4, 5]);
+
+      expect(buffer.insertAt(1, 10)).toBe(PushResult.ADDED);
+      expect(buffer.insertAt(5, 20)).toBe(PushResult.ADDED);
+      expect(buffer.insertAt(-1, 30)).toBe(PushResult.ADDED);
+      expect(Array.from(buffer)).toEqual([1, 10, 2, 3, 4, 20, 30, 5]);
+    });
+
+    it("should insert at both ends", () => {
+      const buffer = fill(5, [2, 3]);
+      buffer.insertAt(0, 1);
+      buffer.insertAt(3, 4);
+
+      expect(Array.from(buffer)).toEqual([1, 2, 3, 4]);
+      expect(buffer.get(Direction.HEAD)).toBe(1);
+      expect(buffer.get(Direction.TAIL)).toBe(4);
+    });
+
+    it("should throw RangeError for invalid insertion positions", () => {
+      const buffer = fill(5, [1, 2]);
+      expect(() => buffer.insertAt(3, 0)).toThrow(RangeError);
+      expect(() => buffer.insertAt(-3, 0)).toThrow(RangeError);
+      expect(() => buffer.insertAt(0.5, 0)).toThrow(RangeError);
+    });
+
+    it("should overwrite the oldest item when inserting into a full buffer", () => {
+      const buffer = fill(4, [1, 2, 3, 4]);
+      const evicted: number[] = [];
+
+      expect(buffer.insertAt(2, 9, evicted)).toBe(PushResult.OVERWRITTEN);
+      expect(Array.from(buffer)).toEqual([2, 9, 3, 4]);
+      expect(evicted).toEqual([1]);
+    });
+
+    it("should overwrite the newest item when inserting at 0 into a full buffer", () => {
+      const buffer = fill(4, [1, 2, 3, 4]);
+      const evicted: number[] = [];
+
+      expect(buffer.insertAt(0, 0, evicted)).toBe(PushResult.OVERWRITTEN);
+      expect(Array.from(buffer)).toEqual([0, 1, 2, 3]);
+      expect(evicted).toEqual([4]);
+    });
+
+    it("should trim inserted items once existing ones are exhausted", () => {
+      const middle = fill(4, [1, 2, 3]);
+      const evictedMiddle: number[] = [];
+      middle.insertRange(1, [10, 11, 12, 13], evictedMiddle);
+      expect(Array.from(middle)).toEqual([12, 13, 2, 3]);
+      expect(evictedMiddle).toEqual([1, 10, 11]);
+
+      const front = fill(4, [1, 2]);
+      const evictedFront: number[] = [];
+      front.insertRange(0, [10, 11, 12, 13, 14], evictedFront);
+      expect(Array.from(front)).toEqual([10, 11, 12, 13]);
+      expect(evictedFront).toEqual([14, 1, 2]);
+    });
+
+    it("should apply non-overwrite policies to inserts", () => {
+      const rejecting = new CircularBuffer<number>(2, {
+        overflow: OverflowPolicy.REJECT,
+      });
+      rejecting.insertRange(0, [1]);
+      expect(rejecting.insertRange(1, [2, 3])).toBe(PushResult.REJECTED);
+      expect(Array.from(rejecting)).toEqual([1]);
+
+      const dropping = new CircularBuffer<number>(2, {
+        overflow: OverflowPolicy.DROP,
+      });
+      dropping.insertRange(0, [1]);
+      expect(dropping.insertRange(0, [2, 3])).toBe(PushResult.DROPPED);
+      expect(Array.from(dropping)).toEqual([2, 1]);
+
+      const throwing = new CircularBuffer<number>(1, {
+        overflow: OverflowPolicy.THROW,
+      });
+      throwing.insertAt(0, 1);
+      expect(() => throwing.insertAt(1, 2)).toThrow(BufferOverflowError);
+    });
+
+    it("should remove by logical index from either side", () => {
+      const buffer = fill(8, [1, 2, 3, 4, 5, 6]);
+
+      expect(buffer.removeAt(1)).toBe(2);
+      expect(buffer.removeAt(-2)).toBe(5);
+      expect(buffer.removeAt(10)).toBeUndefined();
+      expect(Array.from(buffer)).toEqual([1, 3, 4, 6]);
+      expect(buffer.getSize()).toBe(4);
+    });
+
+    it("should remove ranges and keep pushing correctly afterwards", () => {
+      const buffer = fill(6, [1, 2, 3, 4, 5, 6]);
+
+      expect(buffer.removeRange(1, 2)).toEqual([2, 3]);
+      expect(buffer.removeRange(2, 10)).toEqual([5, 6]);
+      buffer.push(7, Direction.TAIL);
+      buffer.push(0, Direction.HEAD);
+      expect(Array.from(buffer)).toEqual([0, 1, 4, 7]);
+    });
+
+    it("should remove matching items in one pass", () => {
+      const buffer = fill(6, [1, 2, 3, 4, 5, 6]);
+
+      expect(buffer.removeWhere((x) => x % 2 === 0)).toEqual([2, 4, 6]);
+      expect(Array.from(buffer)).toEqual([1, 3, 5]);
+      expect(buffer.get(Direction.TAIL)).toBe(5);
+
+      expect(buffer.removeWhere(() => true)).toEqual([1, 3, 5]);
+      expect(buffer.getSize()).toBe(0);
+    });
+
+    it("should match an array model across mixed operations", () => {
+      let seed = 42;
+      const rand = (n: number) => {
+        seed = (seed * 1103515245 + 12345) % 2147483648;
+        return seed % n;
+      };
+
+      const buffer = new CircularBuffer<number>(16);
+      const model: number[] = [];
+
+      for (let step = 0; step < 2000; step++) {
+        const op = rand(4);
+        if (op === 0 && model.length < 16) {
+          const at = rand(model.length + 1);
+          buffer.insertAt(at, step);
+          model.splice(at, 0, step);
+        } else if (op === 1 && model.length > 0) {
+          const at = rand(model.length);
+          expect(buffer.removeAt(at)).toBe(model.splice(at, 1)[0]);
+        } else if (op === 2 && model.length < 16) {
+          buffer.push(step, Direction.TAIL);
+          model.push(step);
+        } else if (model.length > 0) {
+          expect(buffer.pop(Direction.HEAD)).toBe(model.shift());
+        }
+        expect(Array.from(buffer)).toEqual(model);
+      }
+    });
+  });
+
+  describe("Storage option", () => {
+    it("should store items in the provided storage", () => {
+      const buffer = new CircularBuffer<number>(3, {
+        storage: (n) => new Float64Array(n),
+      });
+      buffer.push(1, Direction.TAIL);
+      buffer.push(2, Direction.TAIL);
+      buffer.push(3, Direction.TAIL);
+      buffer.push(4, Direction.TAIL);
+      buffer.resize(5);
+      buffer.push(5, Direction.TAIL);
+
+      expect(Array.from(buffer)).toEqual([2, 3, 4, 5]);
+      expect(buffer.pop(Direction.HEAD)).toBe(2);
+      buffer.clear();
+      expect(buffer.getSize()).toBe(0);
+    });
+  });
+
+  describe("Storage compaction", () => {
+    const wrapped = (capacity: number, count: number) => {
+      const buffer = new CircularBuffer<number>(capacity);
+      for (let i = 1; i <= count; i++) buffer.push(i, Direction.TAIL);
+      return buffer;
+    };
+
+    it("should compact when physical exceeds twice the logical capacity", () => {
+      const buffer = wrapped(10, 13);
+
+      buffer.resize(6);
+      expect(buffer.getCapacity()).toBe(10);
+
+      buffer.resize(4);
+      expect(buffer.getCapacity()).toBe(4);
+      expect(buffer.getLogicalCapacity()).toBe(4);
+      expect(Array.from(buffer)).toEqual([10, 11, 12, 13]);
+
+      buffer.push(14, Direction.TAIL);
+      buffer.push(9, Direction.HEAD);
+      expect(Array.from(buffer)).toEqual([9, 11, 12, 13]);
+    });
+
+    it("should follow a custom threshold", () => {
+      const eager = new CircularBuffer<number>(10, { compactThreshold: 1 });
+      eager.resize(9);
+      expect(eager.getCapacity()).toBe(9);
+
+      const never = new CircularBuffer<number>(1000, {
+        compactThreshold: Infinity,
+      });
+      never.resize(1);
+      expect(never.getCapacity()).toBe(1000);
+      expect(never.getCompactThreshold()).toBe(Infinity);
+    });
+
+    it("should throw error for invalid threshold", () => {
+      expect(
+        () => new CircularBuffer<number>(3, { compactThreshold: 0.5 })
+      ).toThrow("Compact threshold must be at least 1");
+    });
+
+    it("should compact on demand without data loss", () => {
+      const buffer = new CircularBuffer<number>(10, {
+        compactThreshold: Infinity,
+      });
+      for (let i = 1; i <= 12; i++) buffer.push(i, Direction.TAIL);
+      buffer.resize(6);
+
+      expect(buffer.compact()).toBe(true);
+      expect(buffer.getCapacity()).toBe(6);
+      expect(Array.from(buffer)).toEqual([7, 8, 9, 10, 11, 12]);
+      expect(buffer.compact()).toBe(false);
+
+      buffer.push(13, Direction.TAIL);
+      expect(Array.from(buffer)).toEqual([8, 9, 10, 11, 12, 13]);
+    });
+
+    it("should trim capacity and storage to the current size", () => {
+      const buffer = wrapped(8, 11);
+      buffer.pop(Direction.HEAD);
+      buffer.pop(Direction.HEAD);
+
+      expect(buffer.trimToSize()).toBe(true);
+      expect(buffer.getCapacity()).toBe(6);
+      expect(buffer.getLogicalCapacity()).toBe(6);
+      expect(Array.from(buffer)).toEqual([6, 7, 8, 9, 10, 11]);
+
+      const empty = new CircularBuffer<number>(5);
+      empty.trimToSize();
+      expect(empty.getLogicalCapacity()).toBe(1);
+    });
+
+    it("should grow again after compaction", () => {
+      const buffer = wrapped(10, 3);
+      buffer.resize(2);
+      buffer.resize(5);
+      buffer.push(4, Direction.TAIL);
+
+      expect(buffer.getCapacity()).toBe(5);
+      expect(Array.from(buffer)).toEqual([2, 3, 4]);
+    });
+  });
+
+  describe("Observer", () => {
+    /** Multiset of observed values, kept as a sorted array. */
+    function tracker() {
+      const seen: number[] = [];
+      const observer: BufferObserver<number> = {
+        added: (item) => seen.push(item),
+        removed: (item) => {
+          const i = seen.indexOf(item);
+          expect(i).not.toBe(-1);
+          seen.splice(i, 1);
+        },
+      };
+      return { observer, sorted: () => [...seen].sort((a, b) => a - b) };
+    }
+
+    const sortedContents = (buffer: CircularBuffer<number>) =>
+      Array.from(buffer).sort((a, b) => a - b);
+
+    it("should report pushes, pops and overwrites in both directions", () => {
+      const { observer, sorted } = tracker();
+      const buffer = new CircularBuffer<number>(3, { observer });
+
+      for (let i = 1; i <= 5; i++) buffer.push(i, Direction.TAIL);
+      expect(sorted()).toEqual([3, 4, 5]);
+
+      buffer.push(0, Direction.HEAD);
+      expect(sorted()).toEqual([0, 3, 4]);
+
+      buffer.pop(Direction.TAIL);
+      buffer.pop(Direction.HEAD);
+      expect(sorted()).toEqual([3]);
+    });
+
+    it("should report set, inserts, removals, clear and resize", () => {
+      const { observer, sorted } = tracker();
+      const buffer = new CircularBuffer<number>(5, { observer });
+
+      buffer.insertRange(0, [1, 2, 3, 4]);
+      buffer.set(1, 20);
+      buffer.insertAt(2, 30);
+      buffer.insertRange(1, [40, 50]); // overwrites the two oldest
+      expect(sorted()).toEqual(sortedContents(buffer));
+
+      buffer.removeAt(0);
+      buffer.removeRange(1, 2);
+      buffer.removeWhere((item) => item === 4);
+      expect(sorted()).toEqual(sortedContents(buffer));
+
+      buffer.insertRange(0, [7, 8, 9]);
+      buffer.resize(2);
+      expect(sorted()).toEqual(sortedContents(buffer));
+
+      buffer.clear();
+      expect(sorted()).toEqual([]);
+    });
+
+    it("should report the values stored by typed-array storage", () => {
+      const { observer, sorted } = tracker();
+      const buffer = new CircularBuffer<number>(2, {
+        observer,
+        storage: (n) => new Int32Array(n),
+      });
+
+      buffer.push(1.5, Direction.TAIL);
+      buffer.push(2.7, Direction.TAIL);
+      buffer.push(3.2, Direction.TAIL);
+      expect(sorted()).toEqual([2, 3]);
+    });
+
+    it("should stop reporting after the observer is removed", () => {
+      const { observer, sorted } = tracker();
+      const buffer = new CircularBuffer<number>(3, { observer });
+      buffer.push(1, Direction.TAIL);
+      buffer.setObserver(undefined);
+      buffer.push(2, Direction.TAIL);
+      expect(sorted()).toEqual([1]);
+    });
+  });
+
+  describe("Modification count", () => {
+    it("should count changes to items and logical capacity only", () => {
+      const buffer = new CircularBuffer<number>(4);
+      buffer.push(1, Direction.TAIL);
+      buffer.set(0, 2);
+      buffer.pop(Direction.HEAD);
+      expect(buffer.getModCount()).toBe(3);
+
+      buffer.pop(Direction.HEAD);
+      buffer.clear();
+      buffer.removeRange(0, 0);
+      buffer.compact();
+      expect(buffer.getModCount()).toBe(3);
+
+      buffer.resize(8);
+      expect(buffer.getModCount()).toBe(4);
+    });
+  });
+
+  describe("Change tracking", () => {
+    it("should keep absolute positions across pushes and pops at both ends", () => {
+      const buffer = new CircularBuffer<number>(3);
+      buffer.push(1, Direction.TAIL);
+      buffer.push(2, Direction.TAIL);
+      expect(buffer.getHeadPosition()).toBe(0);
+
+      buffer.push(0, Direction.HEAD);
+      expect(buffer.getHeadPosition()).toBe(-1);
+
+      buffer.push(3, Direction.TAIL); // overwrites 0
+      buffer.pop(Direction.HEAD);
+      expect(buffer.getHeadPosition()).toBe(1);
+
+      buffer.clear();
+      expect(buffer.getHeadPosition()).toBe(3);
+    });
+
+    it("should shrink the untouched range to what survived", () => {
+      const buffer = new CircularBuffer<number>(5);
+      buffer.insertRange(0, [1, 2, 3, 4]);
+      buffer.trackChanges();
+      expect(buffer.getUntouchedRange()).toEqual([0, 4]);
+
+      buffer.pop(Direction.HEAD);
+      buffer.pop(Direction.TAIL);
+      buffer.push(9, Direction.TAIL);
+      buffer.push(8, Direction.HEAD);
+      expect(buffer.getUntouchedRange()).toEqual([1, 3]);
+
+      buffer.set(1, 7);
+      const [start, end] = buffer.getUntouchedRange();
+      expect(end).toBeLessThanOrEqual(start);
+    });
+  });
+
+  describe("Sequence numbers", () => {
+    it("should move sequence numbers with their items", () => {
+      const buffer = new CircularBuffer<string>(4);
+      buffer.seqAt(0); // keep per-item numbers from here on
+      buffer.push("a", Direction.TAIL);
+      buffer.push("b", Direction.TAIL);
+      buffer.push("z", Direction.HEAD);
+      buffer.insertRange(0, ["x", "y"]); // before the oldest: -3, -2
+
+      expect([...buffer]).toEqual(["x", "y", "z", "a"]); // b overwritten
+      expect([0, 1, 2, 3].map((i) => buffer.seqAt(i))).toEqual([-3, -2, -1, 0]);
+      expect(buffer.indicesAfterSeq(-2)).toEqual([2, 3]);
+
+      buffer.resize(8); // reallocates storage
+      buffer.removeAt(1);
+      expect([0, 1, 2].map((i) => buffer.seqAt(i))).toEqual([-3, -1, 0]);
+      expect(buffer.getNextSeq()).toBe(2);
+    });
+
+    it("should fall back to a scan after a middle insert", () => {
+      const buffer = new CircularBuffer<string>(5);
+      buffer.seqAt(0); // keep per-item numbers from here on
+      buffer.push("a", Direction.TAIL);
+      buffer.push("b", Direction.TAIL);
+      buffer.insertAt(1, "m");
+
+      expect(buffer.seqAt(1)).toBe(2);
+      expect(buffer.indicesAfterSeq(0)).toEqual([1, 2]);
+      expect(buffer.indicesAfterSeq(1)).toEqual([1]);
+
+      // Order is restored once the buffer empties
+      buffer.clear();
+      buffer.push("c", Direction.TAIL);
+      buffer.push("d", Direction.TAIL);
+      expect(buffer.indicesAfterSeq(3)).toEqual([1]);
+    });
+
+    it("should number items stored before the first read as TAIL pushes", () => {
+      const buffer = new CircularBuffer<number>(3);
+      for (let i = 0; i < 5; i++) buffer.push(i, Direction.TAIL); // keeps 2..4
+      buffer.pop(Direction.HEAD);
+
+      // Same numbers as if they had been kept all along
+      expect([0, 1].map((i) => buffer.seqAt(i))).toEqual([3, 4]);
+
+      buffer.push(9, Direction.HEAD);
+      expect(buffer.seqAt(0)).toBe(-1);
+      expect(buffer.indicesAfterSeq(3)).toEqual([2]);
+    });
+  });
 });
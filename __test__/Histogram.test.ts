@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import { BufferManager } from "../src/core/BufferManager";
+import {
+  Histogram,
+  exponentialBoundaries,
+  linearBoundaries,
+} from "../src/core/Histogram";
+import { OverflowPolicy } from "../src/types";
+
+describe("Histogram", () => {
+  it("should count values into upper-inclusive buckets", () => {
+    const histogram = new Histogram([10, 20, 50]);
+    [1, 10, 11, 20, 49, 50, 51, 1000].forEach((v) => histogram.added(v));
+
+    expect(histogram.counts()).toEqual([2, 2, 2, 2]);
+    expect(histogram.cumulativeCounts()).toEqual([2, 4, 6, 8]);
+    expect(histogram.count()).toBe(8);
+    expect(histogram.bucketOf(-5)).toBe(0);
+    expect(histogram.bucketOf(51)).toBe(3);
+    expect(histogram.buckets()[0]).toEqual({
+      lower: -Infinity,
+      upper: 10,
+      count: 2,
+    });
+    expect(histogram.buckets()[3]).toEqual({
+      lower: 50,
+      upper: Infinity,
+      count: 2,
+    });
+  });
+
+  it("should reject boundaries that are not strictly increasing", () => {
+    expect(() => new Histogram([1, 1])).toThrow(RangeError);
+    expect(() => new Histogram([2, 1])).toThrow(RangeError);
+    expect(() => new Histogram([NaN])).toThrow(RangeError);
+    expect(new Histogram([]).counts()).toEqual([0]);
+  });
+
+  it("should ignore NaN and removals of values it never counted", () => {
+    const histogram = new Histogram([1]);
+    histogram.added(NaN);
+    histogram.removed(5);
+    expect(histogram.count()).toBe(0);
+    expect(histogram.counts()).toEqual([0, 0]);
+  });
+
+  it("should stay in sync with push, pop, overwrite and resize", () => {
+    const buffer = new BufferManager<number>(4);
+    const histogram = new Histogram(linearBoundaries(10, 10, 3)); // 10, 20, 30
+    buffer.observe(histogram);
+
+    buffer.pushTail([5, 15, 25, 35]);
+    expect(histogram.counts()).toEqual([1, 1, 1, 1]);
+
+    buffer.pushTail(6); // overwrites 5
+    buffer.popTail(); // removes 6
+    expect(histogram.counts()).toEqual([0, 1, 1, 1]);
+
+    buffer.resize(1);
+    expect(histogram.counts()).toEqual([0, 0, 0, 1]);
+
+    buffer.clear();
+    expect(histogram.count()).toBe(0);
+  });
+
+  it("should not count pushes refused by the overflow policy", () => {
+    const buffer = new BufferManager<number>(2, {
+      overflow: OverflowPolicy.REJECT,
+    });
+    const histogram = new Histogram([0]);
+    buffer.observe(histogram);
+    buffer.pushTail([1, 2]);
+    buffer.pushTail(-1);
+    expect(histogram.counts()).toEqual([0, 2]);
+  });
+
+  it("should build boundary helpers", () => {
+    expect(linearBoundaries(0, 5, 3)).toEqual([0, 5, 10]);
+    expect(exponentialBoundaries(1, 2, 4)).toEqual([1, 2, 4, 8]);
+    expect(() => linearBoundaries(0, 0, 3)).toThrow(RangeError);
+    expect(() => exponentialBoundaries(0, 2, 3)).toThrow(RangeError);
+    expect(() => exponentialBoundaries(1, 1, 3)).toThrow(RangeError);
+  });
+});
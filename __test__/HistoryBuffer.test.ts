@@ -0,0 +1,145 @@
+import { describe, it, expect } from "vitest";
+import { HistoryBuffer } from "../src/core/HistoryBuffer";
+import type { Clock } from "../src/core/TimeWindowBuffer";
+
+/** Clock whose time only moves via `advance()` (no timers needed). */
+function createManualClock() {
+  let time = 0;
+  const clock: Clock & { advance(ms: number): void } = {
+    now: () => time,
+    setTimeout: () => undefined,
+    clearTimeout: () => {},
+    advance: (ms) => {
+      time += ms;
+    },
+  };
+  return clock;
+}
+
+describe("HistoryBuffer", () => {
+  it("should start empty", () => {
+    const history = new HistoryBuffer<number>(5);
+    expect(history.present()).toBeUndefined();
+    expect(history.canUndo()).toBe(false);
+    expect(history.canRedo()).toBe(false);
+    expect(history.undo()).toBeUndefined();
+    expect(history.redo()).toBeUndefined();
+    expect(history.position()).toBe(-1);
+  });
+
+  it("should undo and redo recorded states", () => {
+    const history = new HistoryBuffer<string>(10);
+    ["a", "b", "c"].forEach((s) => history.record(s));
+
+    expect(history.present()).toBe("c");
+    expect(history.undo()).toBe("b");
+    expect(history.undo()).toBe("a");
+    expect(history.canUndo()).toBe(false);
+    expect(history.undo()).toBeUndefined();
+    expect(history.present()).toBe("a");
+
+    expect(history.redoCount()).toBe(2);
+    expect(history.redo()).toBe("b");
+    expect(history.undoCount()).toBe(1);
+    expect(history.getAll()).toEqual(["a", "b", "c"]);
+    expect(history.position()).toBe(1);
+  });
+
+  it("should discard the redo branch on record", () => {
+    const history = new HistoryBuffer<string>(10);
+    ["a", "b", "c"].forEach((s) => history.record(s));
+    history.undo();
+    history.undo();
+
+    history.record("x");
+    expect(history.getAll()).toEqual(["a", "x"]);
+    expect(history.canRedo()).toBe(false);
+    expect(history.undo()).toBe("a");
+  });
+
+  it("should bound the depth by the capacity", () => {
+    const history = new HistoryBuffer<number>(3);
+    [1, 2, 3, 4, 5].forEach((n) => history.record(n));
+
+    expect(history.getAll()).toEqual([3, 4, 5]);
+    expect(history.capacity()).toBe(3);
+    expect(history.undoCount()).toBe(2);
+    history.undo();
+    history.undo();
+    expect(history.undo()).toBeUndefined();
+    expect(history.present()).toBe(3);
+  });
+
+  it("should coalesce records within the time window", () => {
+    const clock = createManualClock();
+    const history = new HistoryBuffer<string>(10, { coalesceMs: 500, clock });
+    history.record("");
+    clock.advance(1000);
+
+    history.record("h");
+    clock.advance(200);
+    history.record("he");
+    clock.advance(400); // still within 500 ms of the previous record
+    history.record("hel");
+    expect(history.getAll()).toEqual(["", "hel"]);
+
+    clock.advance(500);
+    history.record("hell");
+    expect(history.getAll()).toEqual(["", "hel", "hell"]);
+
+    history.record("hello", { coalesce: false });
+    expect(history.size()).toBe(4);
+
+    // An explicit step is not absorbed by the next burst either
+    history.record("hello!");
+    expect(history.getAll()).toEqual(["", "hel", "hell", "hello", "hello!"]);
+  });
+
+  it("should keep the state before a burst (documented example)", () => {
+    const history = new HistoryBuffer<string>(100, { coalesceMs: 500 });
+    history.record("");
+    history.record("h");
+    history.record("hi");
+
+    expect(history.getAll()).toEqual(["", "hi"]);
+    expect(history.undo()).toBe("");
+    expect(history.redo()).toBe("hi");
+  });
+
+  it("should end a coalescing burst on undo and redo", () => {
+    const clock = createManualClock();
+    const history = new HistoryBuffer<string>(10, { coalesceMs: 500, clock });
+    history.record("a");
+    clock.advance(1000);
+    history.record("b");
+    history.undo();
+
+    // Within the window, but "a" must not be overwritten
+    history.record("c");
+    expect(history.getAll()).toEqual(["a", "c"]);
+
+    history.undo();
+    history.redo();
+    history.record("d");
+    expect(history.getAll()).toEqual(["a", "c", "d"]);
+  });
+
+  it("should reset and clear", () => {
+    const history = new HistoryBuffer<number>(5, { coalesceMs: 1000 });
+    history.record(1);
+    history.record(2);
+
+    history.reset(10);
+    history.record(11); // not merged into the reset state
+    expect(history.getAll()).toEqual([10, 11]);
+
+    history.clear();
+    expect(history.size()).toBe(0);
+    expect(history.present()).toBeUndefined();
+  });
+
+  it("should validate its options", () => {
+    expect(() => new HistoryBuffer(0)).toThrow();
+    expect(() => new HistoryBuffer(5, { coalesceMs: -1 })).toThrow();
+  });
+});
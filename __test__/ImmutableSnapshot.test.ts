@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { BufferManager } from "../src/core/BufferManager";
+import { CircularBuffer } from "../src/core/CircularBuffer";
+import type { ImmutableSnapshot } from "../src/core/ImmutableSnapshot";
+import { Float64RingBuffer } from "../src/core/TypedRingBuffer";
+
+/** Deterministic pseudo-random generator (mulberry32). */
+function random(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+describe("ImmutableSnapshot", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should expose the items with at(), length and iteration", () => {
+    const buffer = new BufferManager<string>(5);
+    buffer.pushTail(["a", "b", "c"]);
+    const snapshot = buffer.snapshot();
+
+    expect(snapshot.length).toBe(3);
+    expect(snapshot.at(0)).toBe("a");
+    expect(snapshot.at(-1)).toBe("c");
+    expect(snapshot.at(3)).toBeUndefined();
+    expect(snapshot.at(1.5)).toBeUndefined();
+    expect([...snapshot]).toEqual(["a", "b", "c"]);
+    expect(snapshot.toArray()).toEqual(["a", "b", "c"]);
+    expect(snapshot.map((s, i) => s + i)).toEqual(["a0", "b1", "c2"]);
+
+    const seen: string[] = [];
+    snapshot.forEach((s) => seen.push(s));
+    expect(seen).toEqual(["a", "b", "c"]);
+    expect(Object.isFrozen(snapshot)).toBe(true);
+  });
+
+  it("should return the same instance until the buffer changes", () => {
+    const buffer = new BufferManager<number>(3);
+    const empty = buffer.snapshot();
+    expect(empty.length).toBe(0);
+    expect(buffer.snapshot()).toBe(empty);
+
+    buffer.popHead(); // no change
+    expect(buffer.snapshot()).toBe(empty);
+
+    buffer.pushTail(1);
+    const next = buffer.snapshot();
+    expect(next).not.toBe(empty);
+    expect(next.version).toBe(buffer.version());
+  });
+
+  it("should stay unchanged after later mutations", () => {
+    const buffer = new BufferManager<number>(300);
+    buffer.pushTail(Array.from({ length: 300 }, (_, i) => i));
+    const before = buffer.snapshot();
+
+    buffer.pushTail([1000, 1001]); // overwrites 0 and 1
+    buffer.popTail();
+    buffer.pushHead(-1);
+    buffer.set(150, 42);
+    buffer.splice(10, 5);
+    buffer.resize(100);
+
+    expect(before.toArray()).toEqual(Array.from({ length: 300 }, (_, i) => i));
+    expect(buffer.snapshot().toArray()).toEqual(buffer.getAll());
+  });
+
+  it("should only read newly pushed items after a small change", () => {
+    const buffer = new BufferManager<number>(10_000);
+    buffer.pushTail(Array.from({ length: 10_000 }, (_, i) => i));
+    buffer.snapshot();
+
+    const at = vi.spyOn(CircularBuffer.prototype, "at");
+    buffer.pushTail(10_000);
+    const snapshot = buffer.snapshot();
+
+    expect(at).toHaveBeenCalledTimes(1);
+    expect(snapshot.at(0)).toBe(1);
+    expect(snapshot.at(-1)).toBe(10_000);
+    expect(snapshot.length).toBe(10_000);
+  });
+
+  it("should work with typed-array storage", () => {
+    const buffer = new Float64RingBuffer(4);
+    buffer.pushTail([0.5, 1.5, 2.5, 3.5, 4.5]);
+    expect(buffer.snapshot().toArray()).toEqual([1.5, 2.5, 3.5, 4.5]);
+  });
+
+  it("should match getAll() under random operations", () => {
+    const rand = random(5);
+    const buffer = new BufferManager<number>(300);
+    const kept: { snapshot: ImmutableSnapshot<number>; items: number[] }[] = [];
+
+    for (let step = 0; step < 3000; step++) {
+      const op = rand();
+      const value = Math.floor(rand() * 1000);
+      if (op < 0.45) buffer.pushTail(value);
+      else if (op < 0.55) buffer.pushTail([value, value + 1, value + 2]);
+      else if (op < 0.7) buffer.pushHead(value);
+      else if (op < 0.8) buffer.popHead(Math.floor(rand() * 5));
+      else if (op < 0.9) buffer.popTail(Math.floor(rand() * 5));
+      else if (op < 0.93 && !buffer.isEmpty()) buffer.set(-1, value);
+      else if (op < 0.96) {
+        buffer.insertAt(Math.floor(rand() * buffer.size()), value);
+      } else if (op < 0.98) buffer.resize(50 + Math.floor(rand() * 300));
+      else buffer.clear();
+
+      if (rand() < 0.3) {
+        const snapshot = buffer.snapshot();
+        expect(snapshot.toArray()).toEqual(buffer.getAll());
+        expect(snapshot.at(-1)).toBe(buffer.at(-1));
+        if (kept.length < 50) {
+          kept.push({ snapshot, items: buffer.getAll() });
+        }
+      }
+    }
+
+    for (const { snapshot, items } of kept) {
+      expect(snapshot.toArray()).toEqual(items);
+    }
+  });
+
+
+  it("should offer Array-like reads that ignore later changes", () => {
+    const buffer = new BufferManager<number>(4);
+    buffer.pushTail([5, 1, NaN, 1]);
+    const snapshot = buffer.snapshot();
+    buffer.clear();
+
+    expect(snapshot.reduce((sum, n) => sum + (n || 0))).toBe(7);
+    expect(snapshot.reduce((out, n) => out + String(n)[0], "")).toBe("51N1");
+    expect(snapshot.find((n) => n < 5)).toBe(1);
+    expect(snapshot.findLast((_, i) => i < 2)).toBe(1);
+    expect(snapshot.some((n) => n === 5)).toBe(true);
+    expect(snapshot.every((n) => n > 0)).toBe(false);
+    expect(snapshot.includes(NaN)).toBe(true);
+    expect(snapshot.indexOf(1, 2)).toBe(3);
+    expect(snapshot.indexOf(1, -1)).toBe(3);
+    expect(snapshot.join("|")).toBe("5|1|NaN|1");
+    expect(() => buffer.snapshot().reduce((a, b) => a + b)).toThrow(
+      TypeError
+    );
+  });
+});
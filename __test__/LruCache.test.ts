@@ -0,0 +1,179 @@
+import { describe, it, expect, vi } from "vitest";
+import { LruCache } from "../src/core/LruCache";
+import type { Clock } from "../src/core/TimeWindowBuffer";
+import { EvictReason } from "../src/types";
+
+/** Clock whose time only moves via `advance()` (no timers needed). */
+function createManualClock() {
+  let time = 0;
+  const clock: Clock & { advance(ms: number): void } = {
+    now: () => time,
+    setTimeout: () => undefined,
+    clearTimeout: () => {},
+    advance: (ms) => {
+      time += ms;
+    },
+  };
+  return clock;
+}
+
+/** Deterministic pseudo-random generator (mulberry32). */
+function random(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+describe("LruCache", () => {
+  it("should store, read and delete entries", () => {
+    const cache = new LruCache<string, number>(3);
+    cache.set("a", 1).set("b", 2);
+
+    expect(cache.get("a")).toBe(1);
+    expect(cache.peek("b")).toBe(2);
+    expect(cache.has("c")).toBe(false);
+    expect(cache.size()).toBe(2);
+
+    expect(cache.delete("a")).toBe(true);
+    expect(cache.delete("a")).toBe(false);
+    expect(cache.get("a")).toBeUndefined();
+    expect([...cache]).toEqual([["b", 2]]);
+  });
+
+  it("should iterate from least to most recently used", () => {
+    const cache = new LruCache<string, number>(5);
+    cache.set("a", 1).set("b", 2).set("c", 3);
+    cache.get("a");
+    cache.peek("b"); // does not change recency
+    cache.set("b", 20); // moves b
+
+    expect([...cache.keys()]).toEqual(["c", "a", "b"]);
+    expect([...cache.values()]).toEqual([3, 1, 20]);
+    expect([...cache.entries()]).toEqual([
+      ["c", 3],
+      ["a", 1],
+      ["b", 20],
+    ]);
+  });
+
+  it("should evict the least recently used entry at capacity", () => {
+    const onEvict = vi.fn();
+    const cache = new LruCache<string, number>(2, { onEvict });
+    cache.set("a", 1).set("b", 2);
+    cache.get("a");
+    cache.set("c", 3);
+
+    expect([...cache.keys()]).toEqual(["a", "c"]);
+    expect(onEvict).toHaveBeenCalledWith([["b", 2]], EvictReason.OVERFLOW);
+
+    // Replacing a value is not an eviction
+    cache.set("a", 10);
+    expect(onEvict).toHaveBeenCalledTimes(1);
+  });
+
+  it("should expire entries after their TTL", () => {
+    const clock = createManualClock();
+    const onEvict = vi.fn();
+    const cache = new LruCache<string, number>(5, {
+      ttlMs: 100,
+      clock,
+      onEvict,
+    });
+    cache.set("a", 1);
+    cache.set("b", 2, { ttlMs: 1000 });
+
+    clock.advance(100);
+    expect([...cache.keys()]).toEqual(["b"]);
+    expect(cache.size()).toBe(2); // not dropped until accessed
+    expect(cache.get("a")).toBeUndefined();
+    expect(onEvict).toHaveBeenCalledWith([["a", 1]], EvictReason.EXPIRED);
+    expect(cache.size()).toBe(1);
+
+    // get does not refresh the TTL; set does
+    clock.advance(800);
+    expect(cache.get("b")).toBe(2);
+    cache.set("b", 3, { ttlMs: 1000 });
+    clock.advance(500);
+    expect(cache.has("b")).toBe(true);
+  });
+
+  it("should prune expired entries at once", () => {
+    const clock = createManualClock();
+    const onEvict = vi.fn();
+    const cache = new LruCache<number, number>(10, { clock, onEvict });
+    for (let i = 0; i < 5; i++) cache.set(i, i, { ttlMs: 10 * (i + 1) });
+
+    clock.advance(30);
+    expect(cache.prune()).toBe(3);
+    expect(onEvict).toHaveBeenCalledWith(
+      [
+        [0, 0],
+        [1, 1],
+        [2, 2],
+      ],
+      EvictReason.EXPIRED
+    );
+    expect([...cache.keys()]).toEqual([3, 4]);
+  });
+
+  it("should resize and clear", () => {
+    const onEvict = vi.fn();
+    const cache = new LruCache<string, number>(4, { onEvict });
+    cache.set("a", 1).set("b", 2).set("c", 3);
+
+    cache.resize(2);
+    expect(onEvict).toHaveBeenCalledWith([["a", 1]], EvictReason.RESIZE);
+    expect(cache.capacity()).toBe(2);
+
+    cache.clear();
+    expect(onEvict).toHaveBeenLastCalledWith(
+      [
+        ["b", 2],
+        ["c", 3],
+      ],
+      EvictReason.CLEAR
+    );
+    expect(cache.size()).toBe(0);
+  });
+
+  it("should validate its options", () => {
+    expect(() => new LruCache(0)).toThrow();
+    expect(() => new LruCache(5, { ttlMs: 0 })).toThrow();
+    expect(() => new LruCache(5).set("a", 1, { ttlMs: -1 })).toThrow();
+    expect(() => new LruCache(5).resize(0)).toThrow();
+  });
+
+  it("should match a Map-based model under random operations", () => {
+    const rand = random(21);
+    const cache = new LruCache<number, number>(8);
+    // Map iteration order doubles as recency order
+    const model = new Map<number, number>();
+
+    for (let step = 0; step < 5000; step++) {
+      const key = Math.floor(rand() * 16);
+      const op = rand();
+      if (op < 0.45) {
+        cache.set(key, step);
+        model.delete(key);
+        model.set(key, step);
+        if (model.size > 8) model.delete(model.keys().next().value as number);
+      } else if (op < 0.8) {
+        const value = model.get(key);
+        if (value !== undefined) {
+          model.delete(key);
+          model.set(key, value);
+        }
+        expect(cache.get(key)).toBe(value);
+      } else if (op < 0.9) {
+        expect(cache.peek(key)).toBe(model.get(key));
+      } else {
+        expect(cache.delete(key)).toBe(model.delete(key));
+      }
+      expect(cache.size()).toBe(model.size);
+    }
+    expect([...cache]).toEqual([...model]);
+  });
+});
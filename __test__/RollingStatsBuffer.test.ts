@@ -0,0 +1,197 @@
+import { describe, it, expect } from "vitest";
+import { RollingStatsBuffer } from "../src/core/RollingStatsBuffer";
+import { EvictReason, OverflowPolicy, PushResult } from "../src/types";
+
+/** Reference statistics computed from scratch. */
+function naive(values: number[]) {
+  const n = values.length;
+  const sum = values.reduce((s, x) => s + x, 0);
+  const mean = n ? sum / n : NaN;
+  const variance = n
+    ? values.reduce((s, x) => s + (x - mean) ** 2, 0) / n
+    : NaN;
+  return {
+    sum,
+    mean,
+    variance,
+    min: n ? Math.min(...values) : undefined,
+    max: n ? Math.max(...values) : undefined,
+  };
+}
+
+function expectMatchesWindow(buffer: RollingStatsBuffer) {
+  const expected = naive(buffer.getAll());
+  expect(buffer.sum()).toBeCloseTo(expected.sum, 6);
+  if (buffer.isEmpty()) {
+    expect(buffer.mean()).toBeNaN();
+    expect(buffer.variance()).toBeNaN();
+  } else {
+    expect(buffer.mean()).toBeCloseTo(expected.mean, 6);
+    expect(buffer.variance()).toBeCloseTo(expected.variance, 4);
+  }
+  expect(buffer.min()).toBe(expected.min);
+  expect(buffer.max()).toBe(expected.max);
+}
+
+/** Deterministic pseudo-random generator (mulberry32). */
+function random(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+describe("RollingStatsBuffer", () => {
+  describe("Basic statistics", () => {
+    it("should report empty statistics", () => {
+      const buffer = new RollingStatsBuffer(3);
+      expect(buffer.stats()).toEqual({
+        count: 0,
+        sum: 0,
+        mean: NaN,
+        variance: NaN,
+        stddev: NaN,
+        min: undefined,
+        max: undefined,
+      });
+      expect(buffer.sampleVariance()).toBeNaN();
+    });
+
+    it("should track a sliding window with overwrite", () => {
+      const buffer = new RollingStatsBuffer(3);
+      buffer.pushTail([2, 4, 6]);
+      expect(buffer.mean()).toBe(4);
+      expect(buffer.variance()).toBeCloseTo(8 / 3);
+      expect(buffer.sampleVariance()).toBeCloseTo(4);
+      expect(buffer.sampleStddev()).toBeCloseTo(2);
+
+      expect(buffer.pushTail(10)).toBe(PushResult.OVERWRITTEN);
+      expect(buffer.getAll()).toEqual([4, 6, 10]);
+      expect(buffer.sum()).toBe(20);
+      expect(buffer.min()).toBe(4);
+      expect(buffer.max()).toBe(10);
+    });
+
+    it("should update min/max when the extremum is evicted", () => {
+      const buffer = new RollingStatsBuffer(3);
+      buffer.pushTail([1, 9, 5]);
+      buffer.pushTail(3); // evicts 1
+      expect(buffer.min()).toBe(3);
+      buffer.pushTail(4); // evicts 9
+      expect(buffer.max()).toBe(5);
+    });
+  });
+
+  describe("Both directions", () => {
+    it("should follow head pushes and tail pops", () => {
+      const buffer = new RollingStatsBuffer(4);
+      buffer.pushTail([5, 1, 7]);
+      buffer.pushHead(0);
+      expect(buffer.min()).toBe(0);
+
+      expect(buffer.popTail()).toBe(7);
+      expect(buffer.max()).toBe(5);
+      expect(buffer.popTail(2)).toEqual([1, 5]);
+      expectMatchesWindow(buffer);
+    });
+
+    it("should drop the newest items on head overwrite", () => {
+      const buffer = new RollingStatsBuffer(3);
+      buffer.pushTail([1, 2, 100]);
+      expect(buffer.pushHead(0)).toBe(PushResult.OVERWRITTEN);
+      expect(buffer.getAll()).toEqual([0, 1, 2]);
+      expect(buffer.max()).toBe(2);
+      expectMatchesWindow(buffer);
+    });
+
+    it("should handle batches larger than the capacity", () => {
+      const buffer = new RollingStatsBuffer(3);
+      buffer.pushTail([9, 8]);
+      buffer.pushTail([1, 2, 3, 4, 5]);
+      expect(buffer.getAll()).toEqual([3, 4, 5]);
+      expectMatchesWindow(buffer);
+
+      buffer.pushHead([7, 6, 0, 1]);
+      expect(buffer.getAll()).toEqual([7, 6, 0]);
+      expectMatchesWindow(buffer);
+    });
+  });
+
+  describe("Overflow policies and resize", () => {
+    it("should ignore refused pushes", () => {
+      const buffer = new RollingStatsBuffer(2, {
+        overflow: OverflowPolicy.REJECT,
+      });
+      buffer.pushTail([1, 2]);
+      expect(buffer.pushTail(50)).toBe(PushResult.REJECTED);
+      expect(buffer.pushHead([3, 4])).toBe(PushResult.REJECTED);
+      expectMatchesWindow(buffer);
+
+      const drop = new RollingStatsBuffer(3, { overflow: OverflowPolicy.DROP });
+      drop.pushTail([1]);
+      drop.pushHead([7, 8, 9]);
+      expect(drop.getAll()).toEqual([8, 9, 1]);
+      expectMatchesWindow(drop);
+    });
+
+    it("should drop the oldest samples when shrinking", () => {
+      const evicted: [number[], string][] = [];
+      const buffer = new RollingStatsBuffer(5, {
+        onEvict: (items, reason) => evicted.push([items, reason]),
+      });
+      buffer.pushTail([10, 1, 2, 3, 4]);
+      buffer.resize(3);
+
+      expect(buffer.getAll()).toEqual([2, 3, 4]);
+      expect(evicted).toEqual([[[10, 1], EvictReason.RESIZE]]);
+      expectMatchesWindow(buffer);
+
+      buffer.resize(6);
+      buffer.pushTail([0, 11]);
+      expectMatchesWindow(buffer);
+    });
+
+    it("should reset on clear", () => {
+      const buffer = new RollingStatsBuffer(3);
+      buffer.pushTail([1, 2, 3]);
+      buffer.clear();
+      expect(buffer.count()).toBe(0);
+      buffer.pushTail(5);
+      expect(buffer.stats()).toMatchObject({ sum: 5, mean: 5, min: 5, max: 5 });
+    });
+  });
+
+  describe("Accuracy", () => {
+    it("should match a naive recomputation under random operations", () => {
+      const rand = random(42);
+      const buffer = new RollingStatsBuffer(16);
+      for (let step = 0; step < 2000; step++) {
+        const r = rand();
+        const value = Math.round(rand() * 200 - 100);
+        if (r < 0.45) buffer.pushTail(value);
+        else if (r < 0.6) buffer.pushHead(value);
+        else if (r < 0.7) buffer.popHead();
+        else if (r < 0.8) buffer.popTail();
+        else if (r < 0.85) buffer.pushTail([value, value + 1, -value]);
+        else if (r < 0.9) buffer.popTail(3);
+        else if (r < 0.95) buffer.pushHead([value, -value]);
+        else buffer.resize(8 + Math.floor(rand() * 16));
+        expectMatchesWindow(buffer);
+      }
+    });
+
+    it("should stay accurate for large offsets (compensated accumulation)", () => {
+      const buffer = new RollingStatsBuffer(100);
+      for (let i = 0; i < 100_000; i++) {
+        buffer.pushTail(1e9 + (i % 2 === 0 ? 0.1 : -0.1));
+      }
+      expect(buffer.mean()).toBeCloseTo(1e9, 6);
+      expect(buffer.variance()).toBeCloseTo(0.01, 6);
+
+      buffer.recompute();
+      expect(buffer.variance()).toBeCloseTo(0.01, 6);
+    });
+  });
+});
@@ -0,0 +1,226 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import { Worker } from "node:worker_threads";
+import { resolve } from "node:path";
+import { buildSync } from "esbuild";
+import { SharedRingBuffer } from "../src/core/SharedRingBuffer";
+import { BufferOverflowError } from "../src/core/errors";
+import { OverflowPolicy, PushResult } from "../src/types";
+
+/**
+ * Run `body` in a worker thread with the SharedRingBuffer module in scope as
+ * `SharedRingBuffer` and the shared memory as `buffer`.
+ */
+function runWorker(
+  moduleCode: string,
+  body: string,
+  buffer: SharedArrayBuffer
+): Promise<unknown> {
+  const source = `
+    const { parentPort, workerData } = require("node:worker_threads");
+    const module = { exports: {} };
+    new Function("module", "exports", "require", workerData.moduleCode)(
+      module, module.exports, require
+    );
+    const { SharedRingBuffer } = module.exports;
+    const buffer = workerData.buffer;
+    parentPort.postMessage((() => { ${body} })());
+  `;
+
+  return new Promise((resolvePromise, reject) => {
+    const worker = new Worker(source, {
+      eval: true,
+      workerData: { moduleCode, buffer },
+    });
+    worker.once("message", resolvePromise);
+    worker.once("error", reject);
+  });
+}
+
+describe("SharedRingBuffer", () => {
+  describe("Creation", () => {
+    it("should create a ring with valid capacity", () => {
+      const ring = SharedRingBuffer.create(4);
+      expect(ring.capacity()).toBe(4);
+      expect(ring.size()).toBe(0);
+      expect(ring.elementType()).toBe("float64");
+      expect(ring.buffer).toBeInstanceOf(SharedArrayBuffer);
+    });
+
+    it("should throw error for invalid capacity or type", () => {
+      expect(() => SharedRingBuffer.create(0)).toThrow(
+        "Capacity must be greater than 0"
+      );
+      expect(() =>
+        SharedRingBuffer.create(2, { type: "bigint" as "int32" })
+      ).toThrow("Invalid element type");
+    });
+
+    it("should attach to an existing buffer", () => {
+      const ring = SharedRingBuffer.create(3, { type: "int32" });
+      ring.producer().pushTail([1, 2]);
+
+      const attached = SharedRingBuffer.from(ring.buffer);
+      expect(attached.capacity()).toBe(3);
+      expect(attached.elementType()).toBe("int32");
+      expect(attached.consumer().popHead(5)).toEqual([1, 2]);
+    });
+
+    it("should reject a buffer that is not a shared ring", () => {
+      expect(() => SharedRingBuffer.from(new SharedArrayBuffer(8))).toThrow(
+        "Invalid shared ring"
+      );
+      expect(() => SharedRingBuffer.from(new SharedArrayBuffer(64))).toThrow(
+        "Invalid shared ring"
+      );
+    });
+
+    it("should not support overwrite", () => {
+      const ring = SharedRingBuffer.create(2);
+      expect(() =>
+        ring.producer({ overflow: OverflowPolicy.OVERWRITE })
+      ).toThrow("not supported");
+    });
+  });
+
+  describe("Single-thread semantics", () => {
+    it("should push to TAIL and pop from HEAD across the wrap point", () => {
+      const ring = SharedRingBuffer.create(3);
+      const producer = ring.producer();
+      const consumer = ring.consumer();
+
+      for (let i = 0; i < 10; i++) {
+        expect(producer.pushTail(i)).toBe(PushResult.ADDED);
+        expect(consumer.getHead()).toBe(i);
+        expect(consumer.popHead()).toBe(i);
+      }
+      expect(consumer.popHead()).toBeUndefined();
+      expect(consumer.isEmpty()).toBe(true);
+    });
+
+    it("should reject a batch that does not fit by default", () => {
+      const ring = SharedRingBuffer.create(3);
+      const producer = ring.producer();
+
+      producer.pushTail(1);
+      expect(producer.pushTail([2, 3, 4])).toBe(PushResult.REJECTED);
+      expect(producer.pushTail([2, 3])).toBe(PushResult.ADDED);
+      expect(producer.isFull()).toBe(true);
+      expect(producer.pushTail(4)).toBe(PushResult.REJECTED);
+      expect(ring.consumer().popHead(3)).toEqual([1, 2, 3]);
+    });
+
+    it("should drop or throw according to the producer policy", () => {
+      const dropping = SharedRingBuffer.create(2);
+      expect(
+        dropping.producer({ overflow: OverflowPolicy.DROP }).pushTail([1, 2, 3])
+      ).toBe(PushResult.DROPPED);
+      expect(dropping.consumer().popHead(3)).toEqual([1, 2]);
+
+      const throwing = SharedRingBuffer.create(1);
+      const producer = throwing.producer({ overflow: OverflowPolicy.THROW });
+      producer.pushTail(1);
+      expect(() => producer.pushTail(2)).toThrow(BufferOverflowError);
+    });
+
+    it("should pop into a caller-provided typed array", () => {
+      const ring = SharedRingBuffer.create(4, { type: "float32" });
+      ring.producer().pushTail(new Float32Array([1.5, 2.5, 3.5]));
+
+      const target = new Float32Array(4);
+      const consumer = ring.consumer();
+      expect(consumer.popHeadInto(target, 1)).toBe(3);
+      expect(Array.from(target)).toEqual([0, 1.5, 2.5, 3.5]);
+      expect(consumer.popHeadInto(target)).toBe(0);
+    });
+
+    it("should time out a blocking pop on an empty ring", () => {
+      const consumer = SharedRingBuffer.create(2).consumer();
+      expect(consumer.waitPopHead(10)).toBeUndefined();
+    });
+
+    it("should finish once closed and drained", () => {
+      const ring = SharedRingBuffer.create(2);
+      const producer = ring.producer();
+      const consumer = ring.consumer();
+
+      producer.pushTail(7);
+      producer.close();
+      expect(ring.isClosed()).toBe(true);
+      expect(consumer.isDone()).toBe(false);
+      expect(consumer.waitPopHead()).toBe(7);
+      expect(consumer.waitPopHead()).toBeUndefined();
+      expect(consumer.isDone()).toBe(true);
+    });
+  });
+
+  describe("Across worker_threads", () => {
+    let moduleCode: string;
+
+    beforeAll(() => {
+      moduleCode = buildSync({
+        entryPoints: [resolve(__dirname, "../src/core/SharedRingBuffer.ts")],
+        bundle: true,
+        format: "cjs",
+        platform: "node",
+        write: false,
+      }).outputFiles[0].text;
+    });
+
+    it("should deliver every value from a worker producer in order", async () => {
+      const ring = SharedRingBuffer.create(16);
+      const consumer = ring.consumer();
+
+      const done = runWorker(
+        moduleCode,
+        `
+          const producer = SharedRingBuffer.from(buffer).producer();
+          for (let i = 0; i < 5000; ) {
+            if (producer.pushTail(i) === "added") i++;
+          }
+          producer.close();
+          return "produced";
+        `,
+        ring.buffer
+      );
+
+      const received: number[] = [];
+      for (;;) {
+        const value = consumer.waitPopHead(5000);
+        if (value === undefined) break;
+        received.push(value);
+      }
+
+      expect(await done).toBe("produced");
+      expect(received).toHaveLength(5000);
+      expect(received.every((value, i) => value === i)).toBe(true);
+    });
+
+    it("should block a worker consumer until the main thread produces", async () => {
+      const ring = SharedRingBuffer.create(8, { type: "int32" });
+      const producer = ring.producer();
+
+      const done = runWorker(
+        moduleCode,
+        `
+          const consumer = SharedRingBuffer.from(buffer).consumer();
+          const values = [];
+          for (;;) {
+            const value = consumer.waitPopHead(5000);
+            if (value === undefined) break;
+            values.push(value);
+          }
+          return values;
+        `,
+        ring.buffer
+      );
+
+      for (let i = 1; i <= 3; i++) {
+        await new Promise((r) => setTimeout(r, 20));
+        producer.pushTail(i * 10);
+      }
+      producer.close();
+
+      expect(await done).toEqual([10, 20, 30]);
+    });
+  });
+});
@@ -0,0 +1,186 @@
+import { describe, it, expect } from "vitest";
+import { TimeWindowBuffer, type Clock } from "../src/core/TimeWindowBuffer";
+import { EvictReason, OverflowPolicy, PushResult } from "../src/types";
+
+/** Deterministic clock: time only moves via `advance()`, which fires due timers. */
+function createManualClock(start = 0) {
+  let time = start;
+  let nextId = 1;
+  const timers = new Map<number, { at: number; callback: () => void }>();
+
+  const clock: Clock & { advance(ms: number): void; pending(): number } = {
+    now: () => time,
+    setTimeout: (callback, delayMs) => {
+      const id = nextId++;
+      timers.set(id, { at: time + delayMs, callback });
+      return id;
+    },
+    clearTimeout: (handle) => {
+      timers.delete(handle as number);
+    },
+    advance: (ms) => {
+      const target = time + ms;
+      for (;;) {
+        let due: [number, { at: number; callback: () => void }] | undefined;
+        for (const entry of timers) {
+          if (entry[1].at <= target && (!due || entry[1].at < due[1].at)) {
+            due = entry;
+          }
+        }
+        if (!due) break;
+        timers.delete(due[0]);
+        time = due[1].at;
+        due[1].callback();
+      }
+      time = target;
+    },
+    pending: () => timers.size,
+  };
+  return clock;
+}
+
+interface Point {
+  t: number;
+  value: number;
+}
+
+function createWindow(
+  capacity: number,
+  maxAgeMs: number,
+  extra?: Partial<ConstructorParameters<typeof TimeWindowBuffer<Point>>[1]>
+) {
+  const clock = createManualClock();
+  const buffer = new TimeWindowBuffer<Point>(capacity, {
+    maxAgeMs,
+    timestamp: (p) => p.t,
+    clock,
+    ...extra,
+  });
+  return { clock, buffer };
+}
+
+describe("TimeWindowBuffer", () => {
+  describe("Constructor", () => {
+    it("should reject a non-positive max age", () => {
+      expect(
+        () =>
+          new TimeWindowBuffer<Point>(5, { maxAgeMs: 0, timestamp: (p) => p.t })
+      ).toThrow("Max age must be greater than 0");
+    });
+  });
+
+  describe("Lazy expiry", () => {
+    it("should expire items from HEAD on access", () => {
+      const { clock, buffer } = createWindow(10, 100);
+      buffer.pushTail({ t: 0, value: 1 });
+      clock.advance(50);
+      buffer.pushTail({ t: 50, value: 2 });
+
+      clock.advance(49);
+      expect(buffer.getAll().map((p) => p.value)).toEqual([1, 2]);
+
+      clock.advance(1); // first item is exactly 100ms old
+      expect(buffer.getAll().map((p) => p.value)).toEqual([2]);
+      expect(buffer.size()).toBe(1);
+      expect(buffer.getHead()?.value).toBe(2);
+    });
+
+    it("should report expired items via onEvict", () => {
+      const evicted: [number[], string][] = [];
+      const { clock, buffer } = createWindow(10, 100, {
+        onEvict: (items, reason) =>
+          evicted.push([items.map((p) => p.value), reason]),
+      });
+      buffer.pushTail([
+        { t: 0, value: 1 },
+        { t: 10, value: 2 },
+        { t: 200, value: 3 },
+      ]);
+
+      clock.advance(150);
+      expect(buffer.expire().map((p) => p.value)).toEqual([1, 2]);
+      expect(evicted).toEqual([[[1, 2], EvictReason.EXPIRED]]);
+    });
+
+    it("should drop already-expired pushes on the next access", () => {
+      const { clock, buffer } = createWindow(10, 100);
+      clock.advance(500);
+      buffer.pushTail({ t: 0, value: 1 });
+      expect(buffer.isEmpty()).toBe(true);
+    });
+  });
+
+  describe("Count cap", () => {
+    it("should combine age and count limits", () => {
+      const { buffer } = createWindow(2, 1000);
+      buffer.pushTail([
+        { t: 0, value: 1 },
+        { t: 1, value: 2 },
+      ]);
+      expect(buffer.pushTail({ t: 2, value: 3 })).toBe(PushResult.OVERWRITTEN);
+      expect(buffer.getAll().map((p) => p.value)).toEqual([2, 3]);
+      expect(buffer.isFull()).toBe(true);
+    });
+
+    it("should free room by expiring before applying the overflow policy", () => {
+      const { clock, buffer } = createWindow(1, 100, {
+        overflow: OverflowPolicy.REJECT,
+      });
+      buffer.pushTail({ t: 0, value: 1 });
+      expect(buffer.pushTail({ t: 50, value: 2 })).toBe(PushResult.REJECTED);
+
+      clock.advance(100);
+      expect(buffer.pushTail({ t: 100, value: 3 })).toBe(PushResult.ADDED);
+      expect(buffer.getAll().map((p) => p.value)).toEqual([3]);
+    });
+  });
+
+  describe("Auto expiry", () => {
+    it("should expire on a timer scheduled for the next deadline", () => {
+      const expired: number[] = [];
+      const { clock, buffer } = createWindow(10, 100, {
+        autoExpire: true,
+        onEvict: (items) => expired.push(...items.map((p) => p.value)),
+      });
+      buffer.pushTail({ t: 0, value: 1 });
+      buffer.pushTail({ t: 30, value: 2 });
+      expect(buffer.nextExpiry()).toBe(100);
+
+      clock.advance(100);
+      expect(expired).toEqual([1]);
+      clock.advance(30);
+      expect(expired).toEqual([1, 2]);
+      expect(clock.pending()).toBe(0);
+    });
+
+    it("should stop the timer on dispose", () => {
+      const expired: number[] = [];
+      const { clock, buffer } = createWindow(10, 100, {
+        autoExpire: true,
+        onEvict: (items) => expired.push(...items.map((p) => p.value)),
+      });
+      buffer.pushTail({ t: 0, value: 1 });
+      buffer.dispose();
+      expect(buffer.isAutoExpiring()).toBe(false);
+      expect(clock.pending()).toBe(0);
+
+      clock.advance(200);
+      expect(expired).toEqual([]);
+      expect(buffer.getAll()).toEqual([]);
+      expect(expired).toEqual([1]);
+    });
+
+    it("should expire immediately when the max age shrinks", () => {
+      const { clock, buffer } = createWindow(10, 1000);
+      buffer.pushTail([
+        { t: 0, value: 1 },
+        { t: 80, value: 2 },
+      ]);
+      clock.advance(100);
+
+      expect(buffer.setMaxAge(50).map((p) => p.value)).toEqual([1]);
+      expect(buffer.maxAge()).toBe(50);
+      expect(buffer.getAll().map((p) => p.value)).toEqual([2]);
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect } from "vitest";
+import {
+  Float32RingBuffer,
+  Float64RingBuffer,
+  Int32RingBuffer,
+  TypedRingBuffer,
+  Uint8RingBuffer,
+} from "../src/core/TypedRingBuffer";
+import { BufferManager } from "../src/core/BufferManager";
+import { EvictReason, OverflowPolicy, PushResult } from "../src/types";
+
+describe("TypedRingBuffer", () => {
+  describe("Constructor", () => {
+    it("should create typed buffers with valid capacity", () => {
+      const buffer = new Float64RingBuffer(4);
+      expect(buffer.capacity()).toBe(4);
+      expect(buffer.size()).toBe(0);
+      expect(buffer).toBeInstanceOf(BufferManager);
+    });
+
+    it("should throw error for invalid capacity", () => {
+      expect(() => new Int32RingBuffer(0)).toThrow(
+        "Capacity must be greater than 0"
+      );
+    });
+
+    it("should accept any numeric typed array constructor", () => {
+      const buffer = new TypedRingBuffer(Uint16Array, 2);
+      buffer.pushTail([1, 2]);
+      expect(buffer.toTypedArray()).toEqual(new Uint16Array([1, 2]));
+    });
+  });
+
+  describe("Push / pop / peek", () => {
+    it("should follow CircularBuffer semantics in both directions", () => {
+      const buffer = new Float64RingBuffer(3);
+      buffer.pushTail([1.5, 2.5, 3.5]);
+      expect(buffer.pushTail(4.5)).toBe(PushResult.OVERWRITTEN);
+      expect(buffer.getAll()).toEqual([2.5, 3.5, 4.5]);
+
+      buffer.pushHead(0.5);
+      expect(buffer.getAll()).toEqual([0.5, 2.5, 3.5]);
+
+      expect(buffer.popHead()).toBe(0.5);
+      expect(buffer.popTail()).toBe(3.5);
+      expect(buffer.getHead()).toBe(2.5);
+      expect(buffer.getTail(2)).toEqual([2.5]);
+    });
+
+    it("should return undefined when popping from empty buffer", () => {
+      const buffer = new Int32RingBuffer(2);
+      expect(buffer.popHead()).toBeUndefined();
+      expect(buffer.popTail()).toBeUndefined();
+      expect(buffer.getHead()).toBeUndefined();
+    });
+
+    it("should coerce values like the backing typed array", () => {
+      const ints = new Int32RingBuffer(2);
+      ints.pushTail([1.9, -2.7]);
+      expect(ints.getAll()).toEqual([1, -2]);
+
+      const bytes = new Uint8RingBuffer(1);
+      bytes.pushTail(257);
+      expect(bytes.getTail()).toBe(1);
+
+      const floats = new Float32RingBuffer(1);
+      floats.pushTail(0.1);
+      expect(floats.getTail()).toBeCloseTo(0.1, 6);
+    });
+
+    it("should support overflow policies and eviction callbacks", () => {
+      const evicted: number[][] = [];
+      const buffer = new Float64RingBuffer(2, {
+        overflow: OverflowPolicy.REJECT,
+        onEvict: (items, reason) => {
+          expect(reason).toBe(EvictReason.CLEAR);
+          evicted.push(items);
+        },
+      });
+      buffer.pushTail([1, 2]);
+      expect(buffer.pushTail(3)).toBe(PushResult.REJECTED);
+
+      buffer.clear();
+      expect(evicted).toEqual([[1, 2]]);
+    });
+  });
+
+  describe("Resize", () => {
+    it("should grow and keep items", () => {
+      const buffer = new Float64RingBuffer(3);
+      buffer.pushTail([1, 2, 3, 4]);
+      buffer.resize(5);
+      buffer.pushTail(5);
+
+      expect(buffer.getAll()).toEqual([2, 3, 4, 5]);
+      expect(buffer.available()).toBe(1);
+    });
+
+    it("should shrink and discard oldest", () => {
+      const buffer = new Int32RingBuffer(5);
+      buffer.pushTail([1, 2, 3, 4, 5]);
+      buffer.resize(2);
+
+      expect(buffer.getAll()).toEqual([4, 5]);
+    });
+  });
+
+  describe("getAll into a typed array", () => {
+    it("should copy into a caller-provided typed array", () => {
+      const buffer = new Float64RingBuffer(3);
+      buffer.pushTail([1, 2, 3, 4]);
+
+      const target = new Float64Array(5);
+      expect(buffer.getAll(target)).toBe(target);
+      expect(Array.from(target)).toEqual([2, 3, 4, 0, 0]);
+    });
+
+    it("should copy into a different typed array type", () => {
+      const buffer = new Float64RingBuffer(2);
+      buffer.pushTail([1.5, 2.5]);
+
+      expect(Array.from(buffer.getAll(new Int32Array(2)))).toEqual([1, 2]);
+    });
+
+    it("should throw RangeError when the target is too small", () => {
+      const buffer = new Float64RingBuffer(3);
+      buffer.pushTail([1, 2, 3]);
+
+      expect(() => buffer.getAll(new Float64Array(2))).toThrow(RangeError);
+    });
+
+    it("should create a typed array copy", () => {
+      const buffer = new Int32RingBuffer(3);
+      buffer.pushTail([1, 2]);
+
+      const copy = buffer.toTypedArray();
+      expect(copy).toBeInstanceOf(Int32Array);
+      expect(Array.from(copy)).toEqual([1, 2]);
+    });
+  });
+
+  describe("IBuffer helpers", () => {
+    it("should support indexed access, iteration and editing", () => {
+      const buffer = new Float64RingBuffer(5);
+      buffer.pushTail([1, 2, 3, 4]);
+      buffer.set(-1, 40);
+      buffer.insertAt(1, 1.5);
+      buffer.removeWhere((x) => x === 3);
+
+      expect(buffer.at(0)).toBe(1);
+      expect(Array.from(buffer)).toEqual([1, 1.5, 2, 40]);
+      expect(buffer.map((x) => x * 2)).toEqual([2, 3, 4, 80]);
+      expect(buffer.getInfo()).toEqual({ data: [1, 1.5, 2, 40], totalCount: 4 });
+    });
+  });
+});
@@ -0,0 +1,213 @@
+import { describe, it, expect } from "vitest";
+import {
+  ByteReader,
+  ByteWriter,
+  decodeBuffer,
+  encodeBuffer,
+  float64Codec,
+  int32Codec,
+  recordCodec,
+  utf8Codec,
+  varintCodec,
+  type Codec,
+} from "../src/core/codec";
+import { createBuffer } from "../src/core/BufferManager";
+import { Float64RingBuffer } from "../src/core/TypedRingBuffer";
+import { BufferDecodeError } from "../src/core/errors";
+import { OverflowPolicy } from "../src/types";
+
+function roundTrip<T>(codec: Codec<T>, value: T): T {
+  const writer = new ByteWriter();
+  codec.encode(value, writer);
+  const reader = new ByteReader(writer.finish());
+  const decoded = codec.decode(reader);
+  expect(reader.remaining()).toBe(0);
+  return decoded;
+}
+
+describe("codec", () => {
+  describe("Built-in codecs", () => {
+    it("should round-trip float64 values exactly", () => {
+      for (const v of [0, -0.5, Math.PI, 1e300, -Infinity]) {
+        expect(roundTrip(float64Codec, v)).toBe(v);
+      }
+      expect(roundTrip(float64Codec, NaN)).toBeNaN();
+    });
+
+    it("should round-trip int32 values and reject others", () => {
+      expect(roundTrip(int32Codec, -2147483648)).toBe(-2147483648);
+      expect(roundTrip(int32Codec, 2147483647)).toBe(2147483647);
+      expect(() => roundTrip(int32Codec, 1.5)).toThrow(RangeError);
+      expect(() => roundTrip(int32Codec, 2 ** 31)).toThrow(RangeError);
+    });
+
+    it("should encode small varints in one byte", () => {
+      const writer = new ByteWriter();
+      varintCodec.encode(-64, writer);
+      varintCodec.encode(63, writer);
+      expect(writer.finish().length).toBe(2);
+    });
+
+    it("should round-trip safe integers as varints", () => {
+      const values = [
+        0,
+        1,
+        -1,
+        300,
+        -300,
+        Number.MAX_SAFE_INTEGER,
+        Number.MIN_SAFE_INTEGER,
+      ];
+      for (const v of values) {
+        expect(roundTrip(varintCodec, v)).toBe(v);
+      }
+      expect(() => roundTrip(varintCodec, 0.5)).toThrow(RangeError);
+    });
+
+    it("should round-trip UTF-8 strings", () => {
+      for (const v of ["", "hello", "héllo wörld", "日本語 🚀"]) {
+        expect(roundTrip(utf8Codec, v)).toBe(v);
+      }
+    });
+
+    it("should compose record codecs from field codecs", () => {
+      const codec = recordCodec<{ t: number; v: number; tag: string }>({
+        t: varintCodec,
+        v: float64Codec,
+        tag: utf8Codec,
+      });
+      expect(roundTrip(codec, { t: 42, v: 0.25, tag: "cpu" })).toEqual({
+        t: 42,
+        v: 0.25,
+        tag: "cpu",
+      });
+    });
+  });
+
+  describe("encodeBuffer / decodeBuffer", () => {
+    it("should round-trip contents, capacity and overflow policy", () => {
+      const buffer = createBuffer<number>(4, { overflow: OverflowPolicy.DROP });
+      buffer.pushTail([1, 2, 3]);
+
+      const bytes = encodeBuffer(buffer, varintCodec);
+      const restored = decodeBuffer(bytes, varintCodec);
+      expect(restored.getAll()).toEqual([1, 2, 3]);
+      expect(restored.capacity()).toBe(4);
+      expect(restored.overflowPolicy()).toBe(OverflowPolicy.DROP);
+    });
+
+    it("should preserve logical order after wrap-around", () => {
+      const buffer = createBuffer<string>(3);
+      buffer.pushTail(["a", "b", "c", "d", "e"]);
+
+      const bytes = encodeBuffer(buffer, utf8Codec);
+      const restored = decodeBuffer(bytes, utf8Codec);
+      expect(restored.getAll()).toEqual(["c", "d", "e"]);
+    });
+
+    it("should be much smaller than JSON for numeric telemetry", () => {
+      const codec = recordCodec<{ t: number; v: number }>({
+        t: varintCodec,
+        v: float64Codec,
+      });
+      const buffer = createBuffer<{ t: number; v: number }>(1000);
+      for (let i = 0; i < 1000; i++) buffer.pushTail({ t: i, v: i / 3 });
+
+      const bytes = encodeBuffer(buffer, codec);
+      expect(bytes.length).toBeLessThan(JSON.stringify(buffer).length / 2);
+      expect(decodeBuffer(bytes, codec).getAll()).toEqual(buffer.getAll());
+    });
+
+    it("should decode into custom storage", () => {
+      const buffer = createBuffer<number>(2);
+      buffer.pushTail([0.5, 1.5]);
+
+      const bytes = encodeBuffer(buffer, float64Codec);
+      const restored = decodeBuffer(bytes, float64Codec, {
+        storage: (n) => new Float64Array(n),
+      });
+      expect(restored.getAll()).toEqual([0.5, 1.5]);
+    });
+
+    it("should accept typed ring buffers", () => {
+      const ring = new Float64RingBuffer(3);
+      ring.pushTail([1, 2, 3, 4]);
+      const bytes = encodeBuffer(ring, float64Codec);
+      expect(decodeBuffer(bytes, float64Codec).getAll()).toEqual([2, 3, 4]);
+    });
+  });
+
+  describe("Corrupt input", () => {
+    const buffer = createBuffer<string>(4);
+    buffer.pushTail(["alpha", "beta"]);
+    const bytes = encodeBuffer(buffer, utf8Codec);
+
+    it("should report truncated input with its offset", () => {
+      for (let cut = 0; cut < bytes.length; cut++) {
+        expect(() => decodeBuffer(bytes.slice(0, cut), utf8Codec)).toThrow(
+          BufferDecodeError
+        );
+      }
+      try {
+        decodeBuffer(bytes.slice(0, bytes.length - 1), utf8Codec);
+      } catch (e) {
+        expect((e as BufferDecodeError).message).toMatch(
+          /unexpected end of input/
+        );
+        expect((e as BufferDecodeError).offset).toBeGreaterThan(0);
+      }
+    });
+
+    it("should reject bad magic, versions and trailing bytes", () => {
+      const badMagic = bytes.slice();
+      badMagic[0] = 0;
+      expect(() => decodeBuffer(badMagic, utf8Codec)).toThrow(/bad magic/);
+
+      const newer = bytes.slice();
+      newer[4] = 99;
+      expect(() => decodeBuffer(newer, utf8Codec)).toThrow(
+        /unsupported format version/
+      );
+
+      const trailing = new Uint8Array(bytes.length + 1);
+      trailing.set(bytes);
+      expect(() => decodeBuffer(trailing, utf8Codec)).toThrow(/trailing/);
+    });
+
+    it("should reject counts above capacity and invalid UTF-8", () => {
+      const overCount = bytes.slice();
+      overCount[7] = 5; // capacity is 4
+      expect(() => decodeBuffer(overCount, utf8Codec)).toThrow(
+        /exceeds capacity/
+      );
+
+      const badUtf8 = bytes.slice();
+      badUtf8[9] = 0xff;
+      expect(() => decodeBuffer(badUtf8, utf8Codec)).toThrow(/invalid UTF-8/);
+    });
+
+    it("should reject a corrupt capacity before allocating", () => {
+      // Capacity varint 4 (offset 6) replaced by 2 ** 32 - 1
+      const huge = new Uint8Array([
+        ...bytes.slice(0, 6),
+        0xff,
+        0xff,
+        0xff,
+        0xff,
+        0x0f,
+        ...bytes.slice(7),
+      ]);
+      expect(() =>
+        decodeBuffer(huge, utf8Codec, { storage: (n) => new Float64Array(n) })
+      ).toThrow(BufferDecodeError);
+      expect(() => decodeBuffer(huge, utf8Codec)).toThrow(
+        /exceeds maxCapacity/
+      );
+
+      expect(() => decodeBuffer(bytes, utf8Codec, { maxCapacity: 3 })).toThrow(
+        BufferDecodeError
+      );
+      expect(decodeBuffer(bytes, utf8Codec, { maxCapacity: 4 }).size()).toBe(2);
+    });
+  });
+});
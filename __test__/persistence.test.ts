@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  createIndexedDBAdapter,
+  createMemoryStorageAdapter,
+  isQuotaExceededError,
+  localStorageAdapter,
+  sessionStorageAdapter,
+  type IDBFactoryLike,
+} from "../src/core/persistence";
+
+/** Minimal in-memory IndexedDB: one database with string-keyed stores. */
+function createFakeIndexedDB(): IDBFactoryLike {
+  const stores = new Map<string, Map<string, unknown>>();
+  const request = <R>(run: () => R) => {
+    const req = {
+      result: undefined as R,
+      error: null as unknown,
+      onsuccess: null as (() => void) | null,
+      onerror: null as (() => void) | null,
+    };
+    setTimeout(() => {
+      req.result = run();
+      req.onsuccess?.();
+    });
+    return req;
+  };
+  const database = {
+    objectStoreNames: { contains: (name: string) => stores.has(name) },
+    createObjectStore: (name: string) => stores.set(name, new Map()),
+    transaction: (name: string) => {
+      const store = stores.get(name)!;
+      const transaction = {
+        error: null,
+        oncomplete: null as (() => void) | null,
+        onerror: null,
+        onabort: null,
+        objectStore: () => ({
+          get: (key: string) => request(() => store.get(key)),
+          put: (value: unknown, key: string) =>
+            request(() => {
+              store.set(key, value);
+              setTimeout(() => transaction.oncomplete?.());
+            }),
+          delete: (key: string) =>
+            request(() => {
+              store.delete(key);
+              setTimeout(() => transaction.oncomplete?.());
+            }),
+        }),
+      };
+      return transaction;
+    },
+  };
+  return {
+    open: () => {
+      const req = {
+        result: database,
+        error: null,
+        onsuccess: null as (() => void) | null,
+        onerror: null,
+        onupgradeneeded: null as (() => void) | null,
+      };
+      setTimeout(() => {
+        req.onupgradeneeded?.();
+        req.onsuccess?.();
+      });
+      return req;
+    },
+  };
+}
+
+describe("persistence", () => {
+  describe("Memory adapter", () => {
+    it("should store, read and remove values", () => {
+      const adapter = createMemoryStorageAdapter();
+      expect(adapter.getItem("a")).toBeNull();
+
+      adapter.setItem("a", "1");
+      expect(adapter.getItem("a")).toBe("1");
+
+      adapter.removeItem("a");
+      expect(adapter.getItem("a")).toBeNull();
+    });
+
+    it("should throw a quota error beyond its quota", () => {
+      const adapter = createMemoryStorageAdapter({ quota: 10 });
+      adapter.setItem("k", "123456789");
+      adapter.setItem("k", "987654321"); // replacing does not double-count
+
+      let error: unknown;
+      try {
+        adapter.setItem("k2", "x");
+      } catch (e) {
+        error = e;
+      }
+      expect(isQuotaExceededError(error)).toBe(true);
+      expect(adapter.getItem("k2")).toBeNull();
+    });
+  });
+
+  describe("Web Storage adapters", () => {
+    beforeEach(() => {
+      localStorage.clear();
+      sessionStorage.clear();
+    });
+
+    it("should delegate to localStorage and sessionStorage", () => {
+      localStorageAdapter.setItem("k", "local");
+      sessionStorageAdapter.setItem("k", "session");
+
+      expect(localStorage.getItem("k")).toBe("local");
+      expect(sessionStorageAdapter.getItem("k")).toBe("session");
+
+      localStorageAdapter.removeItem("k");
+      expect(localStorageAdapter.getItem("k")).toBeNull();
+    });
+  });
+
+  describe("IndexedDB adapter", () => {
+    it("should store, read and remove values", async () => {
+      const adapter = createIndexedDBAdapter({
+        indexedDB: createFakeIndexedDB(),
+      });
+      expect(await adapter.getItem("a")).toBeNull();
+
+      await adapter.setItem("a", "1");
+      expect(await adapter.getItem("a")).toBe("1");
+
+      await adapter.removeItem("a");
+      expect(await adapter.getItem("a")).toBeNull();
+    });
+
+    it("should reject when IndexedDB is unavailable", async () => {
+      const adapter = createIndexedDBAdapter({
+        indexedDB: undefined,
+      });
+      await expect(adapter.getItem("a")).rejects.toThrow(/not available/);
+    });
+  });
+
+  describe("isQuotaExceededError", () => {
+    it("should recognize quota errors by name or legacy code", () => {
+      expect(isQuotaExceededError({ name: "QuotaExceededError" })).toBe(true);
+      expect(isQuotaExceededError({ code: 22 })).toBe(true);
+      expect(isQuotaExceededError(new Error("boom"))).toBe(false);
+      expect(isQuotaExceededError(null)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,228 @@
+import { describe, it, expect } from "vitest";
+import { BufferManager } from "../src/core/BufferManager";
+import { ApproximateQuantiles, ExactQuantiles } from "../src/core/quantiles";
+import { Float64RingBuffer } from "../src/core/TypedRingBuffer";
+
+/** Reference quantile with linear interpolation between closest ranks. */
+function naiveQuantile(values: number[], q: number) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = q * (sorted.length - 1);
+  const lower = Math.floor(position);
+  if (lower === position) return sorted[lower];
+  return sorted[lower] + (sorted[lower + 1] - sorted[lower]) * (position - lower);
+}
+
+/** Reference value of rank floor(q * (n - 1)). */
+function naiveRankValue(values: number[], q: number) {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(q * (sorted.length - 1))];
+}
+
+/** Deterministic pseudo-random generator (mulberry32). */
+function random(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const QS = [0, 0.1, 0.5, 0.9, 0.95, 0.99, 1];
+
+describe("ExactQuantiles", () => {
+  it("should return undefined when empty", () => {
+    const quantiles = new ExactQuantiles();
+    expect(quantiles.count()).toBe(0);
+    expect(quantiles.quantile(0.5)).toBeUndefined();
+    expect(quantiles.min()).toBeUndefined();
+    expect(quantiles.max()).toBeUndefined();
+  });
+
+  it("should interpolate between the closest ranks", () => {
+    const quantiles = new ExactQuantiles();
+    [12, 15, 230, 14].forEach((v) => quantiles.added(v));
+
+    expect(quantiles.quantile(0.5)).toBe(14.5);
+    expect(quantiles.quantile(0)).toBe(12);
+    expect(quantiles.quantile(1)).toBe(230);
+    expect(quantiles.quantiles([0.25, 0.75])).toEqual([13.5, 68.75]);
+    expect(quantiles.rank(15)).toBe(2);
+  });
+
+  it("should handle duplicates and removals", () => {
+    const quantiles = new ExactQuantiles();
+    [5, 5, 5, 1, 9].forEach((v) => quantiles.added(v));
+    quantiles.removed(5);
+    quantiles.removed(42); // unknown values are ignored
+
+    expect(quantiles.count()).toBe(4);
+    expect(quantiles.quantile(0.5)).toBe(5);
+    quantiles.removed(1);
+    expect(quantiles.min()).toBe(5);
+    expect(quantiles.max()).toBe(9);
+  });
+
+  it("should ignore NaN and reject quantiles outside [0, 1]", () => {
+    const quantiles = new ExactQuantiles();
+    quantiles.added(NaN);
+    quantiles.added(3);
+    expect(quantiles.count()).toBe(1);
+
+    expect(() => quantiles.quantile(1.5)).toThrow(RangeError);
+    expect(() => quantiles.quantile(NaN)).toThrow(RangeError);
+  });
+
+  it("should follow a buffer window through observe()", () => {
+    const buffer = new Float64RingBuffer(4);
+    const quantiles = new ExactQuantiles();
+    buffer.pushTail([100, 1]);
+    buffer.observe(quantiles);
+
+    buffer.pushTail([2, 3, 4]); // overwrites 100
+    expect(quantiles.max()).toBe(4);
+    expect(quantiles.quantile(0.5)).toBe(2.5);
+
+    buffer.popHead();
+    buffer.resize(2);
+    expect(quantiles.count()).toBe(2);
+    expect(quantiles.quantile(0.5)).toBe(3.5);
+
+    buffer.clear();
+    expect(quantiles.count()).toBe(0);
+  });
+
+  it("should match a naive computation under random operations", () => {
+    const rand = random(7);
+    const buffer = new BufferManager<number>(50);
+    const quantiles = new ExactQuantiles();
+    buffer.observe(quantiles);
+
+    for (let step = 0; step < 2000; step++) {
+      const op = rand();
+      const value = Math.round(rand() * 100);
+      if (op < 0.6) buffer.pushTail(value);
+      else if (op < 0.7) buffer.pushHead(value);
+      else if (op < 0.8) buffer.popHead();
+      else if (op < 0.85) buffer.popTail();
+      else if (op < 0.9 && !buffer.isEmpty()) buffer.set(0, value);
+      else if (op < 0.95) buffer.removeWhere((v) => v === value);
+      else buffer.resize(10 + Math.floor(rand() * 60));
+
+      if (step % 50 === 0 && !buffer.isEmpty()) {
+        for (const q of QS) {
+          expect(quantiles.quantile(q)).toBeCloseTo(
+            naiveQuantile(buffer.getAll(), q),
+            9
+          );
+        }
+      }
+    }
+    expect(quantiles.count()).toBe(buffer.size());
+  });
+});
+
+describe("ApproximateQuantiles", () => {
+  it("should validate its options", () => {
+    expect(() => new ApproximateQuantiles({ relativeAccuracy: 0 })).toThrow(
+      RangeError
+    );
+    expect(() => new ApproximateQuantiles({ relativeAccuracy: 1 })).toThrow(
+      RangeError
+    );
+    expect(() => new ApproximateQuantiles({ maxBuckets: 0 })).toThrow(
+      RangeError
+    );
+  });
+
+  it("should stay within the relative accuracy", () => {
+    const rand = random(3);
+    const quantiles = new ApproximateQuantiles({ relativeAccuracy: 0.02 });
+    const values: number[] = [];
+    for (let i = 0; i < 5000; i++) {
+      const v = Math.exp(rand() * 10) * (rand() < 0.2 ? -1 : 1);
+      values.push(v);
+      quantiles.added(v);
+    }
+    values.push(0);
+    quantiles.added(0);
+
+    for (const q of QS) {
+      const expected = naiveRankValue(values, q);
+      const actual = quantiles.quantile(q) as number;
+      expect(Math.abs(actual - expected)).toBeLessThanOrEqual(
+        Math.abs(expected) * 0.02 + 1e-12
+      );
+    }
+  });
+
+  it("should follow removals from a sliding window", () => {
+    const rand = random(11);
+    const buffer = new BufferManager<number>(200);
+    const quantiles = new ApproximateQuantiles();
+    buffer.observe(quantiles);
+
+    for (let step = 0; step < 3000; step++) {
+      // Drifting distribution: old values must leave the sketch
+      buffer.pushTail(1 + step + rand() * 50);
+      if (rand() < 0.1) buffer.popHead();
+
+      if (step % 100 === 99) {
+        const window = buffer.getAll();
+        expect(quantiles.count()).toBe(window.length);
+        for (const q of QS) {
+          const expected = naiveRankValue(window, q);
+          expect(
+            Math.abs((quantiles.quantile(q) as number) - expected)
+          ).toBeLessThanOrEqual(expected * 0.01);
+        }
+      }
+    }
+  });
+
+  it("should bound memory by merging the buckets closest to zero", () => {
+    const quantiles = new ApproximateQuantiles({
+      relativeAccuracy: 0.01,
+      maxBuckets: 64,
+    });
+    for (let i = 0; i < 1000; i++) quantiles.added(Math.pow(1.1, i - 500));
+
+    expect(quantiles.bucketCount()).toBeLessThanOrEqual(64);
+    expect(quantiles.count()).toBe(1000);
+    // The high end keeps its accuracy
+    const max = Math.pow(1.1, 499);
+    expect(Math.abs((quantiles.max() as number) - max)).toBeLessThanOrEqual(
+      max * 0.01
+    );
+
+    // Removing every value empties the sketch
+    for (let i = 0; i < 1000; i++) quantiles.removed(Math.pow(1.1, i - 500));
+    expect(quantiles.count()).toBe(0);
+    expect(quantiles.bucketCount()).toBe(0);
+  });
+
+  it("should ignore non-finite values and reset on clear", () => {
+    const quantiles = new ApproximateQuantiles();
+    quantiles.added(Infinity);
+    quantiles.added(NaN);
+    quantiles.added(-5);
+    expect(quantiles.count()).toBe(1);
+    expect(quantiles.min()).toBeCloseTo(-5, 0);
+
+    quantiles.clear();
+    expect(quantiles.quantile(0.5)).toBeUndefined();
+  });
+
+  it("should track HEAD-side overwrites", () => {
+    const buffer = new BufferManager<number>(3);
+    const quantiles = new ApproximateQuantiles();
+    buffer.observe(quantiles);
+    buffer.pushTail([10, 20, 30, 40]);
+    buffer.pushHead(5); // overwrites the newest (40)
+
+    expect(quantiles.count()).toBe(3);
+    expect(quantiles.max()).toBeCloseTo(30, -1);
+    expect(buffer.getHead()).toBe(5);
+    expect(buffer.getTail(1)).toEqual([30]);
+  });
+});
@@ -1,6 +1,9 @@
 import { describe, it, expect } from "vitest";
 import { renderHook, act } from "@testing-library/react";
 import { useCircularBuffer } from "../src/hooks/useCircularBuffer";
+import { Float64RingBuffer } from "../src/core/TypedRingBuffer";
+import { createBuffer } from "../src/core/BufferManager";
+import { EvictReason, OverflowPolicy, PushResult } from "../src/types";
 
 describe("useCircularBuffer", () => {
   describe("Initialization", () => {
@@ -394,4 +397,281 @@ describe("useCircularBuffer", () => {
       expect(result.current.data).toEqual([15, 16, 17, 18, 19]);
     });
   });
+
+  describe("Overflow policy option", () => {
+    it("should refuse pushes into a full buffer with REJECT", () => {
+      const { result } = renderHook(() =>
+        useCircularBuffer<string>(2, {
+          initialItems: ["A", "B"],
+          overflow: OverflowPolicy.REJECT,
+        })
+      );
+
+      let pushed: PushResult | undefined;
+      act(() => {
+        pushed = result.current.pushTail("C");
+      });
+
+      expect(pushed).toBe(PushResult.REJECTED);
+      expect(result.current.data).toEqual(["A", "B"]);
+      expect(result.current.manager.overflowPolicy()).toBe(
+        OverflowPolicy.REJECT
+      );
+    });
+
+    it("should report overwrites with the default policy", () => {
+      const { result } = renderHook(() =>
+        useCircularBuffer<string>(2, { initialItems: ["A", "B"] })
+      );
+
+      let pushed: PushResult | undefined;
+      act(() => {
+        pushed = result.current.pushTail("C");
+      });
+
+      expect(pushed).toBe(PushResult.OVERWRITTEN);
+      expect(result.current.data).toEqual(["B", "C"]);
+    });
+  });
+
+  describe("onEvict option", () => {
+    it("should call the latest onEvict callback", () => {
+      const first: string[][] = [];
+      const second: string[][] = [];
+
+      const { result, rerender } = renderHook(
+        ({ sink }) =>
+          useCircularBuffer<string>(2, {
+            initialItems: ["A", "B"],
+            onEvict: (items) => sink.push(items),
+          }),
+        { initialProps: { sink: first } }
+      );
+
+      rerender({ sink: second });
+
+      act(() => {
+        result.current.pushTail("C");
+      });
+
+      expect(first).toEqual([]);
+      expect(second).toEqual([["A"]]);
+    });
+
+    it("should report items removed by clear", () => {
+      const evictions: Array<[number[], EvictReason]> = [];
+      const { result } = renderHook(() =>
+        useCircularBuffer<number>(3, {
+          initialItems: [1, 2],
+          onEvict: (items, reason) => evictions.push([items, reason]),
+        })
+      );
+
+      act(() => {
+        result.current.clear();
+      });
+
+      expect(evictions).toEqual([[[1, 2], EvictReason.CLEAR]]);
+    });
+  });
+
+  describe("Arbitrary-position insert/remove", () => {
+    it("should re-render after insertAt, removeAt and splice", () => {
+      const { result } = renderHook(() =>
+        useCircularBuffer<string>(5, { initialItems: ["A", "B", "C"] })
+      );
+
+      act(() => {
+        result.current.insertAt(1, "X");
+      });
+      expect(result.current.data).toEqual(["A", "X", "B", "C"]);
+
+      act(() => {
+        result.current.removeAt(0);
+      });
+      expect(result.current.data).toEqual(["X", "B", "C"]);
+
+      let removed!: string[];
+      act(() => {
+        removed = result.current.splice(1, 1, "Y", "Z");
+      });
+      expect(removed).toEqual(["B"]);
+      expect(result.current.data).toEqual(["X", "Y", "Z", "C"]);
+    });
+
+    it("should re-render after remove and removeWhere", () => {
+      const { result } = renderHook(() =>
+        useCircularBuffer<number>(5, { initialItems: [1, 2, 3, 4] })
+      );
+
+      act(() => {
+        result.current.remove(3);
+      });
+      expect(result.current.data).toEqual([1, 2, 4]);
+
+      act(() => {
+        result.current.removeWhere((x) => x % 2 === 0);
+      });
+      expect(result.current.data).toEqual([1]);
+      expect(result.current.size).toBe(1);
+    });
+  });
+
+  describe("factory option", () => {
+    it("should use a typed ring buffer as the manager", () => {
+      const { result } = renderHook(() =>
+        useCircularBuffer<number>(3, {
+          initialItems: [1, 2],
+          overflow: OverflowPolicy.DROP,
+          factory: (capacity, options) =>
+            new Float64RingBuffer(capacity, options),
+        })
+      );
+
+      expect(result.current.manager).toBeInstanceOf(Float64RingBuffer);
+
+      act(() => {
+        result.current.pushTail([3, 4]);
+      });
+
+      expect(result.current.data).toEqual([1, 2, 3]);
+      expect(result.current.manager.overflowPolicy()).toBe(OverflowPolicy.DROP);
+    });
+  });
+
+
+  describe("initialSnapshot option", () => {
+    it("should restore items and policy from a snapshot", () => {
+      const source = createBuffer<number>(3, { overflow: OverflowPolicy.REJECT });
+      source.pushTail([1, 2, 3]);
+
+      const { result } = renderHook(() =>
+        useCircularBuffer<number>(3, {
+          initialItems: [9],
+          initialSnapshot: JSON.stringify(source),
+        })
+      );
+
+      expect(result.current.data).toEqual([1, 2, 3]);
+      expect(result.current.manager.overflowPolicy()).toBe(
+        OverflowPolicy.REJECT
+      );
+    });
+
+    it("should apply the capacity argument and reviver", () => {
+      const source = createBuffer<Date>(4);
+      source.pushTail([new Date(1), new Date(2), new Date(3)]);
+
+      const { result } = renderHook(() =>
+        useCircularBuffer<Date>(2, {
+          initialSnapshot: JSON.stringify(source),
+          snapshotOptions: { reviver: (v) => new Date(v as string) },
+        })
+      );
+
+      expect(result.current.capacity).toBe(2);
+      expect(result.current.data.map((d) => d.getTime())).toEqual([2, 3]);
+    });
+  });
+
+
+  describe("weight budget options", () => {
+    it("should evict by weight", () => {
+      const { result } = renderHook(() =>
+        useCircularBuffer<string>(10, {
+          weigh: (s) => s.length,
+          maxWeight: 5,
+        })
+      );
+
+      act(() => {
+        result.current.pushTail(["abc", "de", "f"]);
+      });
+
+      expect(result.current.data).toEqual(["de", "f"]);
+      expect(result.current.manager.totalWeight()).toBe(3);
+    });
+  });
+
+  describe("snapshot", () => {
+    it("should expose an immutable snapshot that changes with the data", () => {
+      const { result } = renderHook(() =>
+        useCircularBuffer<number>(3, { initialItems: [1, 2] })
+      );
+      const first = result.current.snapshot;
+      expect(first.toArray()).toEqual([1, 2]);
+
+      act(() => {
+        result.current.pushTail(3);
+      });
+
+      expect(result.current.snapshot).not.toBe(first);
+      expect(result.current.snapshot.toArray()).toEqual([1, 2, 3]);
+      expect(first.toArray()).toEqual([1, 2]);
+    });
+
+    it("should keep snapshot and data identities when nothing changed", () => {
+      const { result } = renderHook(() =>
+        useCircularBuffer<number>(3, { initialItems: [1] })
+      );
+      const { snapshot, data } = result.current;
+
+      act(() => {
+        result.current.popTail(0);
+      });
+
+      expect(result.current.snapshot).toBe(snapshot);
+      expect(result.current.data).toBe(data);
+    });
+  });
+
+
+  describe("Array-like reads", () => {
+    it("should read the current items", () => {
+      const { result } = renderHook(() =>
+        useCircularBuffer<number>(5, { initialItems: [3, 1, 4] })
+      );
+
+      expect(result.current.reduce((sum, n) => sum + n, 0)).toBe(8);
+      expect(result.current.reduce((max, n) => Math.max(max, n))).toBe(4);
+      expect(result.current.find((n) => n < 3)).toBe(1);
+      expect(result.current.findLast((n) => n > 1)).toBe(4);
+      expect(result.current.some((n) => n === 4)).toBe(true);
+      expect(result.current.every((n) => n > 1)).toBe(false);
+      expect(result.current.includes(1)).toBe(true);
+      expect(result.current.indexOf(4)).toBe(2);
+      expect(result.current.join("/")).toBe("3/1/4");
+    });
+
+    it("should change identity only when the items change", () => {
+      const { result, rerender } = renderHook(() =>
+        useCircularBuffer<number>(5, { initialItems: [1] })
+      );
+      const { find, join } = result.current;
+
+      rerender();
+      expect(result.current.find).toBe(find);
+      expect(result.current.join).toBe(join);
+
+      act(() => {
+        result.current.pushTail(2);
+      });
+      expect(result.current.find).not.toBe(find);
+      expect(result.current.join()).toBe("1,2");
+    });
+
+    it("should keep answering for the snapshot they were created with", () => {
+      const { result } = renderHook(() =>
+        useCircularBuffer<number>(5, { initialItems: [1, 2] })
+      );
+      const { join, some } = result.current;
+
+      act(() => {
+        result.current.pushTail(3);
+      });
+      expect(join()).toBe("1,2");
+      expect(some((n) => n === 3)).toBe(false);
+      expect(result.current.some((n) => n === 3)).toBe(true);
+    });
+  });
 });
@@ -0,0 +1,210 @@
+import { describe, it, expect, vi } from "vitest";
+import { renderHook, act, waitFor } from "@testing-library/react";
+import { usePersistentCircularBuffer } from "../src/hooks/usePersistentCircularBuffer";
+import { createBuffer } from "../src/core/BufferManager";
+import {
+  createMemoryStorageAdapter,
+  isQuotaExceededError,
+  type AsyncStorageAdapter,
+  type StorageAdapter,
+} from "../src/core/persistence";
+
+function stored(adapter: StorageAdapter, key: string): unknown[] | undefined {
+  const value = adapter.getItem(key);
+  return value === null ? undefined : JSON.parse(value).items;
+}
+
+/** Async wrapper whose reads resolve only when `release()` is called. */
+function deferredAdapter(inner: StorageAdapter) {
+  let release!: () => void;
+  const gate = new Promise<void>((resolve) => (release = resolve));
+  const adapter: AsyncStorageAdapter = {
+    getItem: async (key) => {
+      await gate;
+      return inner.getItem(key);
+    },
+    setItem: async (key, value) => inner.setItem(key, value),
+    removeItem: async (key) => inner.removeItem(key),
+  };
+  return { adapter, release };
+}
+
+describe("usePersistentCircularBuffer", () => {
+  describe("Sync adapters", () => {
+    it("should restore items on mount", () => {
+      const adapter = createMemoryStorageAdapter();
+      const source = createBuffer<number>(5);
+      source.pushTail([1, 2, 3]);
+      adapter.setItem("log", JSON.stringify(source));
+
+      const { result } = renderHook(() =>
+        usePersistentCircularBuffer<number>("log", 5, {
+          adapter,
+          initialItems: [9],
+        })
+      );
+
+      expect(result.current.isRestored).toBe(true);
+      expect(result.current.data).toEqual([1, 2, 3]);
+    });
+
+    it("should use initialItems when nothing is stored", () => {
+      const adapter = createMemoryStorageAdapter();
+      const { result } = renderHook(() =>
+        usePersistentCircularBuffer<number>("log", 3, {
+          adapter,
+          initialItems: [7],
+        })
+      );
+      expect(result.current.data).toEqual([7]);
+    });
+
+    it("should write behind after the debounce", () => {
+      vi.useFakeTimers();
+      try {
+        const adapter = createMemoryStorageAdapter();
+        const { result } = renderHook(() =>
+          usePersistentCircularBuffer<number>("log", 3, {
+            adapter,
+            debounceMs: 100,
+          })
+        );
+
+        act(() => {
+          result.current.pushTail(1);
+          result.current.pushTail([2, 3, 4]);
+        });
+        expect(stored(adapter, "log")).toBeUndefined();
+
+        act(() => {
+          vi.advanceTimersByTime(100);
+        });
+        expect(stored(adapter, "log")).toEqual([2, 3, 4]);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("should flush pending writes on unmount", () => {
+      const adapter = createMemoryStorageAdapter();
+      const { result, unmount } = renderHook(() =>
+        usePersistentCircularBuffer<number>("log", 3, {
+          adapter,
+          debounceMs: 10_000,
+        })
+      );
+
+      act(() => {
+        result.current.pushTail([1, 2]);
+      });
+      unmount();
+
+      expect(stored(adapter, "log")).toEqual([1, 2]);
+    });
+
+    it("should survive a remount (reload)", async () => {
+      const adapter = createMemoryStorageAdapter();
+      const first = renderHook(() =>
+        usePersistentCircularBuffer<string>("log", 2, { adapter })
+      );
+      act(() => {
+        first.result.current.pushTail(["a", "b", "c"]);
+      });
+      await act(() => first.result.current.flush());
+      first.unmount();
+
+      const second = renderHook(() =>
+        usePersistentCircularBuffer<string>("log", 2, { adapter })
+      );
+      expect(second.result.current.data).toEqual(["b", "c"]);
+    });
+
+    it("should revive items", () => {
+      const adapter = createMemoryStorageAdapter();
+      const source = createBuffer<Date>(2);
+      source.pushTail(new Date(5));
+      adapter.setItem("dates", JSON.stringify(source));
+
+      const { result } = renderHook(() =>
+        usePersistentCircularBuffer<Date>("dates", 2, {
+          adapter,
+          snapshotOptions: { reviver: (v) => new Date(v as string) },
+        })
+      );
+      expect(result.current.data[0].getTime()).toBe(5);
+    });
+  });
+
+  describe("Errors", () => {
+    it("should report quota errors and keep working", async () => {
+      const adapter = createMemoryStorageAdapter({ quota: 100 });
+      const onError = vi.fn();
+      const { result } = renderHook(() =>
+        usePersistentCircularBuffer<string>("log", 10, { adapter, onError })
+      );
+
+      act(() => {
+        result.current.pushTail("x".repeat(200));
+      });
+      await act(() => result.current.flush());
+
+      expect(onError).toHaveBeenCalledWith(expect.anything(), "write");
+      expect(isQuotaExceededError(result.current.persistError)).toBe(true);
+      expect(result.current.data).toEqual(["x".repeat(200)]);
+
+      act(() => {
+        result.current.clear();
+      });
+      await act(() => result.current.flush());
+      expect(result.current.persistError).toBeNull();
+    });
+
+    it("should report corrupt stored data and start fresh", () => {
+      const adapter = createMemoryStorageAdapter();
+      adapter.setItem("log", "{not json");
+      const onError = vi.fn();
+
+      const { result } = renderHook(() =>
+        usePersistentCircularBuffer<number>("log", 3, {
+          adapter,
+          onError,
+          initialItems: [1],
+        })
+      );
+
+      expect(result.current.data).toEqual([1]);
+      expect(onError).toHaveBeenCalledWith(expect.anything(), "restore");
+    });
+  });
+
+  describe("Async adapters", () => {
+    it("should restore after mount and keep items pushed meanwhile", async () => {
+      const inner = createMemoryStorageAdapter();
+      const source = createBuffer<number>(4);
+      source.pushTail([1, 2, 3]);
+      inner.setItem("log", JSON.stringify(source));
+      const { adapter, release } = deferredAdapter(inner);
+
+      const { result } = renderHook(() =>
+        usePersistentCircularBuffer<number>("log", 4, {
+          adapter,
+          debounceMs: 0,
+        })
+      );
+      expect(result.current.isRestored).toBe(false);
+
+      act(() => {
+        result.current.pushTail([10, 11]);
+      });
+      // Nothing is written before the restore completes
+      expect(stored(inner, "log")).toEqual([1, 2, 3]);
+
+      await act(async () => release());
+      await waitFor(() => expect(result.current.isRestored).toBe(true));
+
+      // Oldest restored item does not fit
+      expect(result.current.data).toEqual([2, 3, 10, 11]);
+      await waitFor(() => expect(stored(inner, "log")).toEqual([2, 3, 10, 11]));
+    });
+  });
+});
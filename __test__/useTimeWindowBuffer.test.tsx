@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+import { useTimeWindowBuffer } from "../src/hooks/useTimeWindowBuffer";
+import { EvictReason } from "../src/types";
+
+interface Point {
+  t: number;
+  value: number;
+}
+
+const timestamp = (p: Point) => p.t;
+
+describe("useTimeWindowBuffer", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should initialize with unexpired initial items", () => {
+    vi.setSystemTime(1000);
+    const { result } = renderHook(() =>
+      useTimeWindowBuffer<Point>(10, {
+        maxAgeMs: 500,
+        timestamp,
+        initialItems: [
+          { t: 0, value: 1 },
+          { t: 900, value: 2 },
+        ],
+      })
+    );
+
+    expect(result.current.data.map((p) => p.value)).toEqual([2]);
+    expect(result.current.size).toBe(1);
+  });
+
+  it("should re-render when items expire", () => {
+    const onEvict = vi.fn();
+    const { result } = renderHook(() =>
+      useTimeWindowBuffer<Point>(10, { maxAgeMs: 100, timestamp, onEvict })
+    );
+
+    act(() => {
+      result.current.pushTail({ t: 0, value: 1 });
+    });
+    act(() => {
+      vi.advanceTimersByTime(50);
+      result.current.pushTail({ t: 50, value: 2 });
+    });
+    expect(result.current.data.map((p) => p.value)).toEqual([1, 2]);
+
+    act(() => {
+      vi.advanceTimersByTime(50);
+    });
+    expect(result.current.data.map((p) => p.value)).toEqual([2]);
+    expect(onEvict).toHaveBeenCalledWith(
+      [{ t: 0, value: 1 }],
+      EvictReason.EXPIRED
+    );
+
+    act(() => {
+      vi.advanceTimersByTime(50);
+    });
+    expect(result.current.isEmpty).toBe(true);
+  });
+
+  it("should apply capacity and maxAgeMs changes", () => {
+    const { result, rerender } = renderHook(
+      ({ capacity, maxAgeMs }) =>
+        useTimeWindowBuffer<Point>(capacity, { maxAgeMs, timestamp }),
+      { initialProps: { capacity: 3, maxAgeMs: 1000 } }
+    );
+
+    act(() => {
+      result.current.pushTail([
+        { t: 0, value: 1 },
+        { t: 0, value: 2 },
+        { t: 60, value: 3 },
+      ]);
+      vi.advanceTimersByTime(100);
+    });
+    expect(result.current.isFull).toBe(true);
+
+    rerender({ capacity: 2, maxAgeMs: 1000 });
+    expect(result.current.data.map((p) => p.value)).toEqual([2, 3]);
+
+    rerender({ capacity: 2, maxAgeMs: 50 });
+    expect(result.current.data.map((p) => p.value)).toEqual([3]);
+  });
+
+  it("should stop the expiry timer on unmount", () => {
+    const onEvict = vi.fn();
+    const { result, unmount } = renderHook(() =>
+      useTimeWindowBuffer<Point>(10, { maxAgeMs: 100, timestamp, onEvict })
+    );
+    act(() => {
+      result.current.pushTail({ t: 0, value: 1 });
+    });
+
+    unmount();
+    vi.advanceTimersByTime(1000);
+    expect(onEvict).not.toHaveBeenCalled();
+  });
+
+  it("should copy the items once when a call also expires items", () => {
+    const { result } = renderHook(() =>
+      useTimeWindowBuffer<Point>(10, { maxAgeMs: 100, timestamp })
+    );
+    act(() => {
+      result.current.pushTail({ t: 0, value: 1 });
+    });
+
+    // Move the clock without firing the expiry timer
+    vi.setSystemTime(150);
+    const getAll = vi.spyOn(result.current.buffer, "getAll");
+    act(() => {
+      result.current.pushTail({ t: 150, value: 2 });
+    });
+
+    expect(result.current.data.map((p) => p.value)).toEqual([2]);
+    expect(getAll).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { renderHook, act } from "@testing-library/react";
+import { useUndoableState } from "../src/hooks/useUndoableState";
+
+describe("useUndoableState", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(0);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should start with the initial state", () => {
+    const { result } = renderHook(() => useUndoableState(() => 1));
+
+    expect(result.current.state).toBe(1);
+    expect(result.current.canUndo).toBe(false);
+    expect(result.current.canRedo).toBe(false);
+    expect(result.current.history.capacity()).toBe(100);
+  });
+
+  it("should undo and redo state changes", () => {
+    const { result } = renderHook(() => useUndoableState("a"));
+
+    act(() => result.current.setState("b"));
+    act(() => result.current.setState((s) => s + "c"));
+    expect(result.current.state).toBe("bc");
+    expect(result.current.canUndo).toBe(true);
+
+    act(() => result.current.undo());
+    expect(result.current.state).toBe("b");
+    expect(result.current.canRedo).toBe(true);
+
+    act(() => result.current.redo());
+    expect(result.current.state).toBe("bc");
+    expect(result.current.canRedo).toBe(false);
+  });
+
+  it("should limit the history depth", () => {
+    const { result } = renderHook(() => useUndoableState(0, { limit: 2 }));
+
+    act(() => result.current.setState(1));
+    act(() => result.current.setState(2));
+    act(() => result.current.undo());
+    expect(result.current.state).toBe(1);
+    expect(result.current.canUndo).toBe(false);
+  });
+
+  it("should coalesce rapid changes into one undo step", () => {
+    const { result } = renderHook(() =>
+      useUndoableState("", { coalesceMs: 300 })
+    );
+
+    act(() => {
+      vi.advanceTimersByTime(1000);
+      result.current.setState("h");
+    });
+    act(() => {
+      vi.advanceTimersByTime(100);
+      result.current.setState("hi");
+    });
+    act(() => result.current.undo());
+    expect(result.current.state).toBe("");
+  });
+
+  it("should reset the history and keep callbacks stable", () => {
+    const { result } = renderHook(() => useUndoableState(0));
+    const { setState, undo } = result.current;
+
+    act(() => setState(5));
+    act(() => result.current.reset(9));
+    expect(result.current.state).toBe(9);
+    expect(result.current.canUndo).toBe(false);
+
+    expect(result.current.setState).toBe(setState);
+    expect(result.current.undo).toBe(undo);
+  });
+
+  it("should re-render when undoing to an equal state", () => {
+    const { result } = renderHook(() => useUndoableState(1));
+
+    act(() => result.current.setState(1));
+    act(() => result.current.undo());
+    expect(result.current.canUndo).toBe(false);
+    expect(result.current.canRedo).toBe(true);
+  });
+});
@@ -0,0 +1,414 @@
+import { BufferManager, type BufferManagerOptions } from "./BufferManager";
+import { QueueClosedError, QueueTimeoutError } from "./errors";
+import { systemClock, type Clock } from "./TimeWindowBuffer";
+import type { PushResult } from "../types";
+
+/**
+ * Options for {@link AsyncBufferQueue}.
+ *
+ * @template T - Element type stored in the queue
+ */
+export interface AsyncBufferQueueOptions<T>
+  extends Pick<
+    BufferManagerOptions<T>,
+    "overflow" | "onEvict" | "storage" | "weigh" | "maxWeight"
+  > {
+  /**
+   * `pushTailAsync()` producers are held back once the queue holds this
+   * many items...
+   * @default capacity
+   */
+  highWaterMark?: number;
+
+  /**
+   * ...and resume once it has drained to this many items.
+   * @default highWaterMark - 1 (resume as soon as a slot is free)
+   */
+  lowWaterMark?: number;
+
+  /**
+   * Timers used for wait timeouts.
+   * @default systemClock
+   */
+  clock?: Clock;
+}
+
+/**
+ * Options for a single wait (`take()`, `pushTailAsync()`).
+ */
+export interface WaitOptions {
+  /** Reject with `QueueTimeoutError` after this many ms (default: no limit) */
+  timeout?: number;
+  /** Reject with `signal.reason` when aborted */
+  signal?: AbortSignal;
+}
+
+/** A parked wait, settled by the queue, its timeout or its abort signal. */
+interface Waiter<R, D> {
+  /** Request details (batch size, item to push) */
+  readonly request: D;
+  resolve(value: R): void;
+  reject(reason: unknown): void;
+}
+
+/**
+ * FIFO work queue with awaitable consumers, backed by a {@link BufferManager}.
+ *
+ * - `take()` / `take(n)` resolve as soon as an item is available; waiting
+ *   consumers are served in call order
+ * - Waits can time out (`QueueTimeoutError`) or be aborted (`signal.reason`)
+ * - `close()` stops new pushes; remaining items can still be taken, after
+ *   which pending and later takes reject with `QueueClosedError` and
+ *   `for await` loops end
+ * - Items pushed while a consumer is waiting go straight to it, so they are
+ *   never overwritten
+ * - `pushTailAsync()` applies backpressure instead of overwriting: waiting
+ *   producers are admitted in call order once the queue has drained to the
+ *   low watermark
+ *
+ * @example
+ * ```ts
+ * const queue = new AsyncBufferQueue<Message>(1000);
+ * socket.onmessage = (event) => queue.pushTail(JSON.parse(event.data));
+ * socket.onclose = () => queue.close();
+ *
+ * for await (const message of queue) process(message);
+ * ```
+ *
+ * @template T - Element type stored in the queue
+ */
+export class AsyncBufferQueue<T> implements AsyncIterable<T> {
+  private readonly buffer: BufferManager<T>;
+  private readonly clock: Clock;
+  private readonly takers: Waiter<T | T[], number | undefined>[] = [];
+  private readonly producers: Waiter<PushResult, T>[] = [];
+  private readonly highWaterMark: number;
+  private readonly lowWaterMark: number;
+  private paused = false;
+  private closed = false;
+
+  /**
+   * @param capacity - Maximum number of items to store
+   * @param options - Optional buffer, watermark and timer configuration
+   * @throws RangeError if the watermarks are not `0 <= low < high <= capacity`
+   */
+  constructor(capacity: number, options: AsyncBufferQueueOptions<T> = {}) {
+    const { clock, highWaterMark, lowWaterMark, ...bufferOptions } = options;
+    this.buffer = new BufferManager<T>(capacity, bufferOptions);
+    this.clock = clock ?? systemClock;
+
+    this.highWaterMark = highWaterMark ?? this.buffer.capacity();
+    this.lowWaterMark = lowWaterMark ?? this.highWaterMark - 1;
+    if (
+      !Number.isInteger(this.highWaterMark) ||
+      !Number.isInteger(this.lowWaterMark) ||
+      this.lowWaterMark < 0 ||
+      this.lowWaterMark >= this.highWaterMark ||
+      this.highWaterMark > this.buffer.capacity()
+    ) {
+      throw new RangeError(
+        "Watermarks must be integers with 0 <= low < high <= capacity"
+      );
+    }
+  }
+
+  // ============================================================================
+  // Produce
+  // ============================================================================
+
+  /**
+   * Append item(s) at TAIL and hand them to waiting consumers.
+   *
+   * Does not wait: ignores the watermarks and producers waiting in
+   * `pushTailAsync()`, and follows the overflow policy when full.
+   *
+   * @returns Outcome of the push (see {@link BufferManager.pushTail})
+   * @throws QueueClosedError if the queue is closed
+   * @throws BufferOverflowError if full and the overflow policy is THROW
+   */
+  pushTail(input: T | readonly T[]): PushResult {
+    if (this.closed) throw new QueueClosedError();
+    const result = Array.isArray(input)
+      ? this.buffer.pushTail(input as readonly T[])
+      : this.buffer.pushTail(input as T);
+    this.pump();
+    return result;
+  }
+
+  /**
+   * Append an item at TAIL, waiting while the queue is above its watermarks.
+   *
+   * - Resolves once the item is queued (with the push outcome); the item is
+   *   admitted when `available() > 0` and the queue is not paused by the
+   *   high watermark (after pausing it resumes at the low watermark)
+   * - Waiting producers are admitted in call order, and later calls queue
+   *   behind them even if space is free
+   * - A rejected wait (timeout, abort, close) never queues the item
+   *
+   * @throws QueueClosedError (rejection) if the queue is or gets closed
+   * @throws QueueTimeoutError (rejection) if `timeout` elapses first
+   * @throws RangeError (rejection) on a negative or NaN `timeout`
+   */
+  pushTailAsync(item: T, options?: WaitOptions): Promise<PushResult> {
+    if (this.closed) return Promise.reject(new QueueClosedError());
+    if (this.producers.length === 0 && this.admits()) {
+      try {
+        return Promise.resolve(this.pushTail(item));
+      } catch (error) {
+        return Promise.reject(error);
+      }
+    }
+    return this.park(this.producers, item, options);
+  }
+
+  /**
+   * Stop accepting items. Waiting producers reject with `QueueClosedError`;
+   * items already queued can still be taken, and once the queue is empty,
+   * pending and later takes reject with `QueueClosedError`.
+   * Calling it again has no effect.
+   */
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    // Takers only wait while the queue is empty and producers while it is
+    // paused or full, so none of them can be served
+    const waiters = [...this.takers.splice(0), ...this.producers.splice(0)];
+    for (const waiter of waiters) waiter.reject(new QueueClosedError());
+  }
+
+  // ============================================================================
+  // Consume
+  // ============================================================================
+
+  /**
+   * Remove and return the oldest item, waiting until one is available.
+   *
+   * - `take()` resolves with a single item
+   * - `take(n)` resolves with 1 to `n` items (oldest -> newest) as soon as
+   *   at least one is available; `n < 1` resolves with `[]`
+   *
+   * @throws QueueClosedError (rejection) if the queue is closed and empty
+   * @throws QueueTimeoutError (rejection) if `timeout` elapses first
+   * @throws RangeError (rejection) on a negative or NaN `timeout`
+   */
+  take(options?: WaitOptions): Promise<T>;
+  take(count: number, options?: WaitOptions): Promise<T[]>;
+  take(
+    countOrOptions?: number | WaitOptions,
+    maybeOptions?: WaitOptions
+  ): Promise<T | T[]> {
+    const count = typeof countOrOptions === "number" ? countOrOptions : undefined;
+    const options =
+      typeof countOrOptions === "number" ? maybeOptions : countOrOptions;
+
+    if (count !== undefined && !(count >= 1)) return Promise.resolve([]);
+    if (!this.buffer.isEmpty()) {
+      const items = this.dequeue(count);
+      this.pump();
+      return Promise.resolve(items);
+    }
+    if (this.closed) return Promise.reject(new QueueClosedError());
+    return this.park(this.takers, count, options);
+  }
+
+  /**
+   * Remove and return item(s) from HEAD without waiting.
+   */
+  popHead(): T | undefined;
+  popHead(count: number): T[];
+  popHead(count?: number): T | undefined | T[] {
+    const result =
+      count === undefined ? this.buffer.popHead() : this.buffer.popHead(count);
+    this.pump();
+    return result;
+  }
+
+  /**
+   * Take items until the queue is closed and drained.
+   *
+   * Breaking out of the loop leaves remaining items in the queue.
+   */
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    for (;;) {
+      let item: T;
+      try {
+        item = await this.take();
+      } catch (error) {
+        if (error instanceof QueueClosedError) return;
+        throw error;
+      }
+      yield item;
+    }
+  }
+
+  // ============================================================================
+  // Waiting
+  // ============================================================================
+
+  private dequeue(count: number | undefined): T | T[] {
+    return count === undefined
+      ? (this.buffer.popHead() as T)
+      : this.buffer.popHead(count);
+  }
+
+  /**
+   * Update the watermark state.
+   *
+   * @returns True if a producer may push now
+   */
+  private admits(): boolean {
+    const size = this.buffer.size();
+    if (size >= this.highWaterMark) this.paused = true;
+    else if (size <= this.lowWaterMark) this.paused = false;
+    return !this.paused && this.buffer.available() > 0;
+  }
+
+  /**
+   * Hand queued items to waiting consumers and admit waiting producers, in
+   * call order, until neither side can make progress.
+   */
+  private pump(): void {
+    for (;;) {
+      while (this.takers.length > 0 && !this.buffer.isEmpty()) {
+        const taker = this.takers.shift() as Waiter<
+          T | T[],
+          number | undefined
+        >;
+        taker.resolve(this.dequeue(taker.request));
+      }
+      if (this.producers.length === 0 || !this.admits()) return;
+
+      const producer = this.producers.shift() as Waiter<PushResult, T>;
+      let result: PushResult;
+      try {
+        result = this.buffer.pushTail(producer.request);
+      } catch (error) {
+        producer.reject(error);
+        continue;
+      }
+      producer.resolve(result);
+    }
+  }
+
+  /**
+   * Park a waiter at the end of `waiters` until the queue settles it, its
+   * timeout expires or its signal aborts.
+   */
+  private park<R, D>(
+    waiters: Waiter<R, D>[],
+    request: D,
+    options: WaitOptions = {}
+  ): Promise<R> {
+    const { timeout, signal } = options;
+    if (signal?.aborted) return Promise.reject(signal.reason);
+    if (timeout !== undefined && !(timeout >= 0)) {
+      return Promise.reject(
+        new RangeError("Timeout must be a non-negative number")
+      );
+    }
+
+    return new Promise<R>((resolve, reject) => {
+      let timer: unknown = undefined;
+      const cleanup = () => {
+        if (timer !== undefined) this.clock.clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+      };
+      const fail = (reason: unknown) => {
+        const index = waiters.indexOf(waiter);
+        if (index !== -1) waiters.splice(index, 1);
+        cleanup();
+        reject(reason);
+      };
+      const onAbort = () => fail(signal?.reason);
+      const waiter: Waiter<R, D> = {
+        request,
+        resolve: (value) => {
+          cleanup();
+          resolve(value);
+        },
+        reject: (reason) => {
+          cleanup();
+          reject(reason);
+        },
+      };
+
+      waiters.push(waiter);
+      signal?.addEventListener("abort", onAbort, { once: true });
+      if (timeout !== undefined && timeout !== Infinity) {
+        timer = this.clock.setTimeout(
+          () => fail(new QueueTimeoutError(timeout)),
+          timeout
+        );
+      }
+    });
+  }
+
+  // ============================================================================
+  // Info
+  // ============================================================================
+
+  /**
+   * @returns Number of queued items.
+   */
+  size(): number {
+    return this.buffer.size();
+  }
+
+  /**
+   * @returns Maximum number of items.
+   */
+  capacity(): number {
+    return this.buffer.capacity();
+  }
+
+  /**
+   * @returns Number of free slots.
+   */
+  available(): number {
+    return this.buffer.available();
+  }
+
+  /**
+   * @returns True if no items are queued.
+   */
+  isEmpty(): boolean {
+    return this.buffer.isEmpty();
+  }
+
+  /**
+   * @returns True if the queue is full.
+   */
+  isFull(): boolean {
+    return this.buffer.isFull();
+  }
+
+  /**
+   * @returns True once `close()` has been called.
+   */
+  isClosed(): boolean {
+    return this.closed;
+  }
+
+  /**
+   * @returns Number of consumers waiting in `take()`.
+   */
+  pendingTakes(): number {
+    return this.takers.length;
+  }
+
+  /**
+   * @returns Number of producers waiting in `pushTailAsync()`.
+   */
+  pendingPushes(): number {
+    return this.producers.length;
+  }
+
+  /**
+   * @returns True while `pushTailAsync()` producers are held back (the queue
+   * reached the high watermark and has not drained to the low watermark).
+   */
+  isPaused(): boolean {
+    this.admits();
+    return this.paused;
+  }
+}
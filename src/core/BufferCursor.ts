@@ -0,0 +1,138 @@
+import type { CircularBuffer } from "./CircularBuffer";
+import { CursorStatus, Direction, type CursorRead } from "../types";
+
+/**
+ * Independent, non-destructive reader over a {@link BufferManager}, created
+ * with `BufferManager.createCursor()`.
+ *
+ * - Each cursor keeps its own read position; reading never removes items,
+ *   so any number of consumers can follow the same buffer at their own pace
+ * - When items leave the HEAD side (overwrite, `popHead`, `clear`, shrinking
+ *   `resize`) before the cursor read them, the next read reports an overrun
+ *   with the number of missed items (as in a Disruptor ring)
+ *   (items skipped by a batch push larger than the capacity were never
+ *   stored, so they are not counted)
+ * - Positions follow items appended at TAIL and removed from either end:
+ *   after a `popTail` the cursor moves back, so items pushed in place of
+ *   the popped ones are read even without a read in between; items pushed
+ *   at HEAD are older than any cursor and never returned, and edits away
+ *   from the ends (insert / remove in the middle) may make a cursor skip
+ *   or repeat an item
+ * - The buffer tracks each cursor until `close()` is called; close cursors
+ *   that are no longer read
+ *
+ * @example
+ * ```ts
+ * const uploader = logs.createCursor();
+ * const read = uploader.next(100);
+ * if (read.status === CursorStatus.OVERRUN) warn(`${read.missed} lines lost`);
+ * upload(read.items);
+ * uploader.close(); // when done
+ * ```
+ *
+ * @template T - Element type stored in the buffer
+ */
+export class BufferCursor<T> {
+  private readonly ring: CircularBuffer<T>;
+  /** Absolute position of the next item to read */
+  private position = 0;
+  /** Stops following the ring's end; undefined once closed */
+  private unwatch: (() => void) | undefined;
+
+  /**
+   * @param ring - Ring to read (positions from `getHeadPosition()`)
+   * @param from - Start before the oldest item (HEAD) or after the newest (TAIL)
+   */
+  constructor(ring: CircularBuffer<T>, from: Direction = Direction.HEAD) {
+    this.ring = ring;
+    this.seek(from);
+    // Items read may be popped from TAIL and replaced by new ones: move back
+    // to the lowest end so the replacements are read too
+    this.unwatch = ring.watchEnd((end) => {
+      if (this.position > end) this.position = end;
+    });
+  }
+
+  /**
+   * Read up to `count` unread items (oldest -> newest) and move past them.
+   *
+   * @param count - Max number of items to read (default: all unread items)
+   * @returns The items, with `CursorStatus.OVERRUN` and the number of missed
+   * items if some were removed before this cursor read them
+   */
+  next(count = Infinity): CursorRead<T> {
+    this.assertOpen();
+    const head = this.ring.getHeadPosition();
+    const end = this.end();
+    const missed = Math.max(0, head - this.position);
+    if (missed > 0) this.position = head;
+
+    const n = count > 0 ? Math.min(Math.floor(count), end - this.position) : 0;
+    const items = new Array<T>(n);
+    const offset = this.position - head;
+    for (let i = 0; i < n; i++) items[i] = this.ring.at(offset + i) as T;
+    this.position += n;
+
+    return missed > 0
+      ? { status: CursorStatus.OVERRUN, items, missed }
+      : { status: CursorStatus.OK, items, missed: 0 };
+  }
+
+  /**
+   * @returns Number of items pushed since the cursor's position, including
+   * items that were removed before it read them (`lag() > size()` means the
+   * next read reports an overrun).
+   */
+  lag(): number {
+    this.assertOpen();
+    return this.end() - this.position;
+  }
+
+  /**
+   * @returns True if unread items are available.
+   */
+  hasNext(): boolean {
+    return this.lag() > 0;
+  }
+
+  /**
+   * @returns True if items were removed before this cursor read them.
+   */
+  isOverrun(): boolean {
+    this.assertOpen();
+    return this.position < this.ring.getHeadPosition();
+  }
+
+  /**
+   * Move before the oldest item (HEAD: re-read everything retained) or after
+   * the newest (TAIL: only read items pushed from now on).
+   */
+  seek(to: Direction): void {
+    this.position =
+      to === Direction.HEAD ? this.ring.getHeadPosition() : this.end();
+  }
+
+  /**
+   * Stop tracking the buffer. Reading a closed cursor throws.
+   */
+  close(): void {
+    this.unwatch?.();
+    this.unwatch = undefined;
+  }
+
+  /**
+   * @returns True once `close()` was called.
+   */
+  isClosed(): boolean {
+    return this.unwatch === undefined;
+  }
+
+  private assertOpen(): void {
+    if (this.unwatch === undefined) throw new Error("Cursor is closed");
+  }
+
+  /** Absolute position after the newest item. */
+  private end(): number {
+    return this.ring.getHeadPosition() + this.ring.getSize();
+  }
+}
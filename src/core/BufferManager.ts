@@ -1,5 +1,122 @@
 import { CircularBuffer } from "./CircularBuffer";
-import { Direction, type IBuffer } from "../types";
+import { BufferCursor } from "./BufferCursor";
+import { BufferView } from "./BufferView";
+import { BufferOverflowError } from "./errors";
+import { SnapshotBuilder, type ImmutableSnapshot } from "./ImmutableSnapshot";
+import {
+  everyItem,
+  findIndex,
+  findItem,
+  findLastItem,
+  indexOfItem,
+  joinItems,
+  reduceItems,
+  type IndexedItems,
+} from "./indexedReads";
+import {
+  SNAPSHOT_VERSION,
+  parseSnapshot,
+  snapshotCompactThreshold,
+  type RestoreOptions,
+  type SnapshotOptions,
+} from "./snapshot";
+import {
+  Direction,
+  EvictReason,
+  OverflowPolicy,
+  PushResult,
+  BufferOperation,
+  type BufferChange,
+  type BufferChangeListener,
+  type BufferObserver,
+  type BufferSnapshot,
+  type EvictCallback,
+  type IBuffer,
+  type KeySelector,
+  type SinceRead,
+  type StorageFactory,
+} from "../types";
+
+/**
+ * Options for {@link BufferManager} and {@link createBuffer}.
+ *
+ * @template T - Element type stored in the buffer
+ */
+export interface BufferManagerOptions<T = unknown> {
+  /**
+   * What to do when pushing into a full buffer.
+   * @default OverflowPolicy.OVERWRITE
+   */
+  overflow?: OverflowPolicy;
+
+  /**
+   * Called with items lost to overwrite, resize, clear or replaceAll
+   * (oldest -> newest), once per operation.
+   */
+  onEvict?: EvictCallback<T>;
+
+  /**
+   * Allocates the backing storage (e.g. `(n) => new Float64Array(n)`).
+   * @default A plain array
+   */
+  storage?: StorageFactory<T>;
+
+  /**
+   * Hysteresis for reclaiming storage: a shrinking `resize()` compacts the
+   * physical storage once it is more than `compactThreshold` times the new
+   * capacity (`Infinity` disables automatic compaction).
+   * @default 2
+   */
+  compactThreshold?: number;
+
+  /**
+   * Item weight (e.g. bytes) counted against `maxWeight`. Must return a
+   * finite, non-negative number that stays the same while the item is stored.
+   * @default () => 1
+   */
+  weigh?: (item: T) => number;
+
+  /**
+   * Total weight budget, enforced alongside the item capacity. Inserts that
+   * exceed it evict from the opposite side (OVERWRITE) or follow the overflow
+   * policy; an item heavier than the whole budget is never stored.
+   * @default Infinity
+   */
+  maxWeight?: number;
+}
+
+/**
+ * Options for {@link BufferManager.fromJSON}.
+ *
+ * @template T - Element type stored in the buffer
+ */
+export interface BufferRestoreOptions<T = unknown>
+  extends RestoreOptions<T>,
+    Pick<
+      BufferManagerOptions<T>,
+      "onEvict" | "storage" | "weigh" | "maxWeight"
+    > {}
+
+/** Ranking used to report the most significant outcome of a batch push. */
+const PUSH_RESULT_RANK: Record<PushResult, number> = {
+  [PushResult.ADDED]: 0,
+  [PushResult.OVERWRITTEN]: 1,
+  [PushResult.DROPPED]: 2,
+  [PushResult.REJECTED]: 3,
+};
+
+function worse(a: PushResult, b: PushResult): PushResult {
+  return PUSH_RESULT_RANK[b] > PUSH_RESULT_RANK[a] ? b : a;
+}
+
+const unitWeight = (): number => 1;
+
+/** True when `process` exists and `NODE_ENV` is not `"production"`. */
+function isDevelopment(): boolean {
+  return (
+    typeof process !== "undefined" && process.env.NODE_ENV !== "production"
+  );
+}
 
 /**
  * A high-level buffer manager built on top of {@link CircularBuffer}.
@@ -7,7 +124,18 @@ import { Direction, type IBuffer } from "../types";
  * Provides:
  * - Convenient APIs for pushing/popping single items or arrays
  * - Direction-specific helpers (head/HEAD vs tail/TAIL)
- * - Iterable utilities (forEach/map/filter)
+ * - O(1) indexed access and arbitrary-position insert/remove
+ * - Array-like reads without copying (forEach/map/filter/reduce/find/...)
+ * - Configurable overflow policy (overwrite / reject / throw / drop)
+ * - Eviction callback for items lost without being popped
+ * - Optional weight budget (`weigh` / `maxWeight`) alongside the item capacity
+ * - Observers kept in sync with every stored / removed item (`observe()`)
+ * - Change events with a monotonically increasing version (`subscribe()`)
+ * - Cheap immutable snapshots with structural sharing (`snapshot()`)
+ * - Zero-copy read-only windows, invalidated by mutations (`view()`)
+ * - Independent non-destructive readers with overrun detection (`createCursor()`)
+ * - Stable per-item sequence numbers for incremental sync (`getSince()`)
+ * - O(log n) range queries over sorted keys (`range()`, `lowerBound()`)
  *
  * Great for:
  * - Logs, streaming feeds, rolling windows, data tables, undo/redo stacks
@@ -16,16 +144,280 @@ import { Direction, type IBuffer } from "../types";
  */
 export class BufferManager<T> implements IBuffer<T> {
   private readonly buffer: CircularBuffer<T>;
+  /** `buffer` as read by the shared Array-like helpers */
+  private readonly items: IndexedItems<T>;
+  private readonly onEvict?: EvictCallback<T>;
+  /** Set only when a weight budget or weigher is configured */
+  private readonly weigh?: (item: T) => number;
+  private readonly weightBudget: number;
+  private weight = 0;
+  private observers: BufferObserver<T>[] = [];
+  /** `observers`, plus `collector` while there are change listeners */
+  private attached: BufferObserver<T>[] = [];
+  private readonly fanOut: BufferObserver<T> = {
+    added: (item) => {
+      for (const observer of this.attached) observer.added(item);
+    },
+    removed: (item) => {
+      for (const observer of this.attached) observer.removed(item);
+    },
+  };
+  private listeners: BufferChangeListener<T>[] = [];
+  private changeVersion = 0;
+  /** Nesting of mutating calls (e.g. replaceAll -> pushTail) */
+  private changeDepth = 0;
+  private changeStart = 0;
+  /** Items stored / removed by the running operation (only while subscribed) */
+  private pending: { added: T[]; removed: T[] } | null = null;
+  /** Created by the first `snapshot()` call */
+  private snapshots?: SnapshotBuilder<T>;
+  /** Key function and ring modification count last found sorted */
+  private sortedFor?: { keyFn: KeySelector<T>; modCount: number };
+  private readonly collector: BufferObserver<T> = {
+    added: (item) => {
+      this.pending?.added.push(item);
+    },
+    removed: (item) => {
+      this.pending?.removed.push(item);
+    },
+  };
 
   private isMany(input: T | readonly T[]): input is readonly T[] {
     return Array.isArray(input);
   }
 
+  /**
+   * Apply the all-or-nothing overflow policies (REJECT / THROW) to a batch.
+   *
+   * @returns True if the batch must be refused (nothing is stored)
+   */
+  private refuseBatch(
+    count: number,
+    room: number,
+    direction: Direction,
+    weight = 0,
+    weightRoom = this.availableWeight()
+  ): boolean {
+    if (count <= room && weight <= weightRoom) return false;
+
+    const policy = this.buffer.getOverflowPolicy();
+    if (policy === OverflowPolicy.THROW) {
+      throw new BufferOverflowError(this.capacity(), direction, count);
+    }
+    return policy === OverflowPolicy.REJECT;
+  }
+
+  private emitEvict(items: T[], reason: EvictReason): void {
+    if (items.length > 0) this.onEvict?.(items, reason);
+  }
+
+  /**
+   * Start a mutating call. Only the outermost call of a nested sequence
+   * produces a change record.
+   */
+  private beginChange(): void {
+    if (this.changeDepth++ > 0) return;
+    this.changeStart = this.buffer.getModCount();
+    if (this.listeners.length > 0) this.pending = { added: [], removed: [] };
+  }
+
+  /**
+   * Finish a mutating call: bump the version and notify listeners if the
+   * items or the capacity changed.
+   */
+  private endChange(operation: BufferOperation, direction?: Direction): void {
+    if (--this.changeDepth > 0) return;
+    const pending = this.pending;
+    this.pending = null;
+    if (this.buffer.getModCount() === this.changeStart) return;
+
+    this.changeVersion++;
+    if (!pending) return;
+    const change: BufferChange<T> = {
+      operation,
+      direction,
+      added: pending.added,
+      removed: pending.removed,
+      version: this.changeVersion,
+    };
+    for (const listener of this.listeners) listener(change);
+  }
+
+  // ============================================================================
+  // Weight accounting
+  // ============================================================================
+
+  private weightOf(item: T): number {
+    const weight = this.weigh!(item);
+    if (!(weight >= 0 && weight < Infinity)) {
+      throw new RangeError(`Invalid item weight: ${String(weight)}`);
+    }
+    return weight;
+  }
+
+  private weightOfAll(items: Iterable<T>): number {
+    if (!this.weigh) return 0;
+    let total = 0;
+    for (const item of items) total += this.weightOf(item);
+    return total;
+  }
+
+  /** Account for items that left the buffer. */
+  private untrack(items: readonly T[]): void {
+    if (!this.weigh) return;
+    for (const item of items) this.weight -= this.weigh(item);
+    // Avoid drift from floating-point weights
+    if (this.size() === 0) this.weight = 0;
+  }
+
+  /**
+   * Apply the overflow policy to an item that does not fit the weight budget.
+   *
+   * @returns The refusal, or undefined if room should be made (OVERWRITE)
+   */
+  private refuseWeight(
+    weight: number,
+    direction: Direction
+  ): PushResult | undefined {
+    const policy = this.buffer.getOverflowPolicy();
+    if (policy === OverflowPolicy.THROW) {
+      throw new BufferOverflowError(this.capacity(), direction);
+    }
+    if (policy === OverflowPolicy.REJECT) return PushResult.REJECTED;
+    if (policy === OverflowPolicy.DROP || weight > this.weightBudget) {
+      return PushResult.DROPPED;
+    }
+    return undefined;
+  }
+
+  /**
+   * Evict items from one side until `weight` more fits the budget.
+   *
+   * @returns Number of evicted items
+   */
+  private makeWeightRoom(
+    weight: number,
+    side: Direction,
+    evicted?: T[]
+  ): number {
+    let count = 0;
+    while (this.weight + weight > this.weightBudget && !this.isEmpty()) {
+      const victim = this.buffer.pop(side) as T;
+      this.untrack([victim]);
+      evicted?.push(victim);
+      count++;
+    }
+    return count;
+  }
+
+  /**
+   * Push a single item, recording the items it overwrites into `evicted`.
+   *
+   * `evicted` receives items in eviction order (oldest-first for TAIL pushes,
+   * newest-first for HEAD pushes).
+   */
+  private pushOne(item: T, direction: Direction, evicted?: T[]): PushResult {
+    const opposite =
+      direction === Direction.HEAD ? Direction.TAIL : Direction.HEAD;
+
+    let result: PushResult = PushResult.ADDED;
+    let weight = 0;
+    if (this.weigh) {
+      weight = this.weightOf(item);
+      if (this.weight + weight > this.weightBudget) {
+        const refused = this.refuseWeight(weight, direction);
+        if (refused) return refused;
+        this.makeWeightRoom(weight, opposite, evicted);
+        result = PushResult.OVERWRITTEN;
+      }
+    }
+
+    if ((!evicted && !this.weigh) || !this.isFull()) {
+      const pushed = this.buffer.push(item, direction);
+      if (pushed !== PushResult.REJECTED && pushed !== PushResult.DROPPED) {
+        this.weight += weight;
+      }
+      return worse(result, pushed);
+    }
+
+    // Overwrite replaces the item on the opposite side
+    const victim = this.buffer.get(opposite) as T;
+    const pushed = this.buffer.push(item, direction);
+    if (pushed === PushResult.OVERWRITTEN) {
+      evicted?.push(victim);
+      this.untrack([victim]);
+      this.weight += weight;
+    }
+    return worse(result, pushed);
+  }
+
+  /**
+   * Insert a single item into a weighted buffer at a resolved position.
+   *
+   * @returns What happened to the item, and the position after it
+   */
+  private insertWeighted(
+    position: number,
+    item: T,
+    evicted?: T[]
+  ): [PushResult, number] {
+    // Matches CircularBuffer.insertAt: position 0 trims the newest side
+    const side = position === 0 ? Direction.TAIL : Direction.HEAD;
+    const weight = this.weightOf(item);
+
+    let result: PushResult = PushResult.ADDED;
+    if (this.weight + weight > this.weightBudget) {
+      const direction = position === 0 ? Direction.HEAD : Direction.TAIL;
+      const refused = this.refuseWeight(weight, direction);
+      if (refused) return [refused, position];
+      const victims: T[] = [];
+      const count = this.makeWeightRoom(weight, side, victims);
+      // Report oldest -> newest
+      if (side === Direction.TAIL) victims.reverse();
+      evicted?.push(...victims);
+      if (side === Direction.HEAD) position = Math.max(0, position - count);
+      result = PushResult.OVERWRITTEN;
+    }
+
+    const victims: T[] = [];
+    const inserted = this.buffer.insertAt(position, item, victims);
+    if (inserted === PushResult.REJECTED || inserted === PushResult.DROPPED) {
+      return [worse(result, inserted), position];
+    }
+    this.untrack(victims);
+    evicted?.push(...victims);
+    this.weight += weight;
+    if (side === Direction.HEAD) position -= victims.length;
+    return [worse(result, inserted), position + 1];
+  }
+
   /**
    * @param capacity - Maximum number of items to store (logical capacity)
+   * @param options - Optional configuration (overflow policy, eviction callback, storage)
    */
-  constructor(capacity: number) {
-    this.buffer = new CircularBuffer<T>(capacity);
+  constructor(capacity: number, options?: BufferManagerOptions<T>) {
+    this.buffer = new CircularBuffer<T>(capacity, {
+      overflow: options?.overflow,
+      storage: options?.storage,
+      compactThreshold: options?.compactThreshold,
+    });
+    const ring = this.buffer;
+    this.items = {
+      get length() {
+        return ring.getSize();
+      },
+      at: (index) => ring.at(index),
+    };
+    this.onEvict = options?.onEvict;
+
+    const maxWeight = options?.maxWeight ?? Infinity;
+    if (!(maxWeight > 0)) {
+      throw new Error("Max weight must be greater than 0");
+    }
+    this.weightBudget = maxWeight;
+    if (options?.weigh || options?.maxWeight !== undefined) {
+      this.weigh = options?.weigh ?? unitWeight;
+    }
   }
 
   // ============================================================================
@@ -38,45 +430,145 @@ export class BufferManager<T> implements IBuffer<T> {
    * When pushing an array, the original order is preserved:
    * `pushHead([a,b,c])` results in `a` being the oldest among the inserted items.
    *
+   * Overflow:
+   * - OVERWRITE: newest items are overwritten
+   * - REJECT / THROW: an array is accepted only if it fits entirely
+   * - DROP: items that do not fit are discarded (the tail end of the input is kept)
+   *
    * Optimization:
    * - If input array length exceeds logical capacity, only the first `capacity` items are processed.
+   *
+   * @returns What happened to the item(s)
    */
-  pushHead(input: T): void;
-  pushHead(input: readonly T[]): void;
-  pushHead(input: T | readonly T[]): void {
-    if (!this.isMany(input)) {
-      this.buffer.push(input, Direction.HEAD);
-      return;
-    }
+  pushHead(input: T): PushResult;
+  pushHead(input: readonly T[]): PushResult;
+  pushHead(input: T | readonly T[]): PushResult {
+    this.beginChange();
+    try {
+      const evicted: T[] | undefined = this.onEvict ? [] : undefined;
+
+      if (!this.isMany(input)) {
+        const single = this.pushOne(input, Direction.HEAD, evicted);
+        if (evicted) this.emitEvict(evicted, EvictReason.OVERFLOW);
+        return single;
+      }
+
+      if (
+        this.refuseBatch(
+          input.length,
+          this.available(),
+          Direction.HEAD,
+          this.weightOfAll(input)
+        )
+      ) {
+        return PushResult.REJECTED;
+      }
 
-    const capacity = this.buffer.getLogicalCapacity();
-    const itemsToAdd =
-      input.length > capacity ? input.slice(0, capacity) : input;
+      let result: PushResult = PushResult.ADDED;
+      let itemsToAdd = input;
+      if (this.buffer.getOverflowPolicy() === OverflowPolicy.OVERWRITE) {
+        const capacity = this.buffer.getLogicalCapacity();
+        if (input.length > capacity) {
+          itemsToAdd = input.slice(0, capacity);
+          result = PushResult.OVERWRITTEN;
+        }
+      } else if (input.length > this.available()) {
+        // DROP: items nearest the current head are stored first
+        itemsToAdd = input.slice(input.length - this.available());
+        result = PushResult.DROPPED;
+      }
 
-    for (let i = itemsToAdd.length - 1; i >= 0; i--) {
-      this.buffer.push(itemsToAdd[i], Direction.HEAD);
+      for (let i = itemsToAdd.length - 1; i >= 0; i--) {
+        result = worse(
+          result,
+          this.pushOne(itemsToAdd[i], Direction.HEAD, evicted)
+        );
+      }
+
+      if (evicted) {
+        // Skipped input items sit between the stored ones and the evicted ones
+        const skipped = input.slice(itemsToAdd.length);
+        this.emitEvict(
+          this.overflowPolicy() === OverflowPolicy.OVERWRITE
+            ? [...skipped, ...evicted.reverse()]
+            : evicted.reverse(),
+          EvictReason.OVERFLOW
+        );
+      }
+      return result;
+    } finally {
+      this.endChange(BufferOperation.PUSH_HEAD, Direction.HEAD);
     }
   }
 
   /**
    * Push item(s) to the tail (TAIL / newest side).
    *
+   * Overflow:
+   * - OVERWRITE: oldest items are overwritten
+   * - REJECT / THROW: an array is accepted only if it fits entirely
+   * - DROP: items that do not fit are discarded (the head end of the input is kept)
+   *
    * Optimization:
    * - If input array length exceeds logical capacity, only the last `capacity` items are processed.
+   *
+   * @returns What happened to the item(s)
    */
-  pushTail(input: T): void;
-  pushTail(input: readonly T[]): void;
-  pushTail(input: T | readonly T[]): void {
-    if (!this.isMany(input)) {
-      this.buffer.push(input, Direction.TAIL);
-      return;
-    }
+  pushTail(input: T): PushResult;
+  pushTail(input: readonly T[]): PushResult;
+  pushTail(input: T | readonly T[]): PushResult {
+    this.beginChange();
+    try {
+      const evicted: T[] | undefined = this.onEvict ? [] : undefined;
+
+      if (!this.isMany(input)) {
+        const single = this.pushOne(input, Direction.TAIL, evicted);
+        if (evicted) this.emitEvict(evicted, EvictReason.OVERFLOW);
+        return single;
+      }
+
+      if (
+        this.refuseBatch(
+          input.length,
+          this.available(),
+          Direction.TAIL,
+          this.weightOfAll(input)
+        )
+      ) {
+        return PushResult.REJECTED;
+      }
 
-    const capacity = this.buffer.getLogicalCapacity();
-    const itemsToAdd = input.length > capacity ? input.slice(-capacity) : input;
+      let result: PushResult = PushResult.ADDED;
+      let itemsToAdd = input;
+      if (this.buffer.getOverflowPolicy() === OverflowPolicy.OVERWRITE) {
+        const capacity = this.buffer.getLogicalCapacity();
+        if (input.length > capacity) {
+          itemsToAdd = input.slice(-capacity);
+          result = PushResult.OVERWRITTEN;
+        }
+      } else if (input.length > this.available()) {
+        // DROP: items nearest the current tail are stored first
+        itemsToAdd = input.slice(0, this.available());
+        result = PushResult.DROPPED;
+      }
 
-    for (const item of itemsToAdd) {
-      this.buffer.push(item, Direction.TAIL);
+      for (const item of itemsToAdd) {
+        result = worse(result, this.pushOne(item, Direction.TAIL, evicted));
+      }
+
+      if (evicted) {
+        // Skipped input items are newer than every evicted item
+        const skipped = input.slice(0, input.length - itemsToAdd.length);
+        this.emitEvict(
+          this.overflowPolicy() === OverflowPolicy.OVERWRITE
+            ? [...evicted, ...skipped]
+            : evicted,
+          EvictReason.OVERFLOW
+        );
+      }
+      return result;
+    } finally {
+      this.endChange(BufferOperation.PUSH_TAIL, Direction.TAIL);
     }
   }
 
@@ -93,19 +585,28 @@ export class BufferManager<T> implements IBuffer<T> {
   popHead(): T | undefined;
   popHead(count: number): T[];
   popHead(count?: number): T | undefined | T[] {
-    if (count === undefined) {
-      return this.buffer.pop(Direction.HEAD);
-    }
+    this.beginChange();
+    try {
+      if (count === undefined) {
+        if (this.isEmpty()) return undefined;
+        const item = this.buffer.pop(Direction.HEAD) as T;
+        this.untrack([item]);
+        return item;
+      }
 
-    const n = Math.min(Math.max(0, Math.floor(count)), this.size());
-    if (n === 0) return [];
+      const n = Math.min(Math.max(0, Math.floor(count)), this.size());
+      if (n === 0) return [];
 
-    const result = new Array<T>(n);
-    for (let i = 0; i < n; i++) {
-      // safe because n <= size()
-      result[i] = this.buffer.pop(Direction.HEAD) as T;
+      const result = new Array<T>(n);
+      for (let i = 0; i < n; i++) {
+        // safe because n <= size()
+        result[i] = this.buffer.pop(Direction.HEAD) as T;
+      }
+      this.untrack(result);
+      return result;
+    } finally {
+      this.endChange(BufferOperation.POP_HEAD, Direction.HEAD);
     }
-    return result;
   }
 
   /**
@@ -117,18 +618,27 @@ export class BufferManager<T> implements IBuffer<T> {
   popTail(): T | undefined;
   popTail(count: number): T[];
   popTail(count?: number): T | undefined | T[] {
-    if (count === undefined) {
-      return this.buffer.pop(Direction.TAIL);
-    }
+    this.beginChange();
+    try {
+      if (count === undefined) {
+        if (this.isEmpty()) return undefined;
+        const item = this.buffer.pop(Direction.TAIL) as T;
+        this.untrack([item]);
+        return item;
+      }
 
-    const n = Math.min(Math.max(0, Math.floor(count)), this.size());
-    if (n === 0) return [];
+      const n = Math.min(Math.max(0, Math.floor(count)), this.size());
+      if (n === 0) return [];
 
-    const result = new Array<T>(n);
-    for (let i = 0; i < n; i++) {
-      result[i] = this.buffer.pop(Direction.TAIL) as T;
+      const result = new Array<T>(n);
+      for (let i = 0; i < n; i++) {
+        result[i] = this.buffer.pop(Direction.TAIL) as T;
+      }
+      this.untrack(result);
+      return result;
+    } finally {
+      this.endChange(BufferOperation.POP_TAIL, Direction.TAIL);
     }
-    return result;
   }
 
   // ============================================================================
@@ -170,6 +680,220 @@ export class BufferManager<T> implements IBuffer<T> {
     return Array.from(this.buffer);
   }
 
+  /**
+   * Read-only window over the items in `[start, end)` without copying
+   * (same bounds as `Array.prototype.slice`: negative counts from the newest,
+   * out-of-range bounds are clamped).
+   *
+   * The view throws {@link StaleViewError} on reads once the buffer is
+   * modified; combine it with {@link lowerBound} / {@link upperBound} for a
+   * zero-copy range query.
+   *
+   * @param start - First index (default 0 = oldest)
+   * @param end - Index after the last item (default `size()`)
+   */
+  view(start?: number, end?: number): BufferView<T> {
+    return new BufferView(this.buffer, start, end);
+  }
+
+  /**
+   * Read the item at a logical index in O(1).
+   *
+   * - `at(0)` is the oldest item, `at(-1)` the newest
+   *
+   * @returns The item, or undefined if the index is out of range
+   */
+  at(index: number): T | undefined {
+    return this.buffer.at(index);
+  }
+
+  /**
+   * Replace the item at a logical index in O(1) (same indexing as {@link at}).
+   *
+   * Never evicts: a replacement that would exceed the weight budget throws.
+   *
+   * @throws RangeError if the index is out of range or the budget would be exceeded
+   */
+  set(index: number, value: T): void {
+    this.beginChange();
+    try {
+      const size = this.size();
+      const inRange = Number.isInteger(index) && index >= -size && index < size;
+      if (!this.weigh || !inRange) {
+        this.buffer.set(index, value);
+        return;
+      }
+
+      const delta =
+        this.weightOf(value) - this.weigh(this.buffer.at(index) as T);
+      if (this.weight + delta > this.weightBudget) {
+        throw new RangeError(
+          `Weight budget exceeded: ${this.weight + delta} > ${this.weightBudget}`
+        );
+      }
+      this.buffer.set(index, value);
+      this.weight += delta;
+    } finally {
+      this.endChange(BufferOperation.SET);
+    }
+  }
+
+  // ============================================================================
+  // Arbitrary-position insert / remove
+  // ============================================================================
+
+  /**
+   * Insert an item at a logical position (0 = before the oldest, `size()` =
+   * after the newest, negative counts from the newest).
+   *
+   * Shifts whichever side of the ring is shorter. When full, OVERWRITE drops the
+   * oldest item (or the newest when inserting at 0); other policies behave as
+   * for pushes.
+   *
+   * @returns What happened to the item
+   * @throws RangeError if the position is out of range
+   */
+  insertAt(index: number, item: T): PushResult {
+    this.beginChange();
+    try {
+      const evicted: T[] | undefined = this.onEvict ? [] : undefined;
+      let result: PushResult;
+      if (this.weigh) {
+        const size = this.size();
+        const position =
+          Number.isInteger(index) && index < 0 ? size + index : index;
+        if (!Number.isInteger(position) || position < 0 || position > size) {
+          throw new RangeError(
+            `Index out of range: ${String(index)} (size ${size})`
+          );
+        }
+        [result] = this.insertWeighted(position, item, evicted);
+      } else {
+        result = this.buffer.insertAt(index, item, evicted);
+      }
+      if (evicted) this.emitEvict(evicted, EvictReason.OVERFLOW);
+      return result;
+    } finally {
+      this.endChange(BufferOperation.INSERT_AT);
+    }
+  }
+
+  /**
+   * Remove the item at a logical index (0 = oldest, -1 = newest).
+   *
+   * @returns The removed item, or undefined if the index is out of range
+   */
+  removeAt(index: number): T | undefined {
+    this.beginChange();
+    try {
+      const size = this.size();
+      const item = this.buffer.removeAt(index);
+      if (this.size() < size) this.untrack([item as T]);
+      return item;
+    } finally {
+      this.endChange(BufferOperation.REMOVE_AT);
+    }
+  }
+
+  /**
+   * Remove and/or insert items like `Array.prototype.splice`, over the logical
+   * order (oldest -> newest).
+   *
+   * - `start` is clamped to `[0, size()]` (negative counts from the newest)
+   * - `deleteCount` defaults to all items after `start`
+   * - inserted items that overflow follow the overflow policy; with REJECT the
+   *   whole splice is refused and an empty array is returned
+   *
+   * @returns Removed items (oldest -> newest)
+   */
+  splice(start: number, deleteCount?: number, ...items: T[]): T[] {
+    this.beginChange();
+    try {
+      const size = this.size();
+      const relative = Math.trunc(start) || 0;
+      const from =
+        relative < 0 ? Math.max(size + relative, 0) : Math.min(relative, size);
+      const count =
+        deleteCount === undefined
+          ? size - from
+          : Math.min(Math.max(Math.trunc(deleteCount) || 0, 0), size - from);
+
+      const room = this.capacity() - (size - count);
+      const direction = from === 0 ? Direction.HEAD : Direction.TAIL;
+      if (this.weigh) {
+        const removedWeight = this.weightOfAll(
+          this.getHead(from + count).slice(from)
+        );
+        const weight = this.weightOfAll(items);
+        const weightRoom = this.availableWeight() + removedWeight;
+        if (
+          this.refuseBatch(items.length, room, direction, weight, weightRoom)
+        ) {
+          return [];
+        }
+      } else if (this.refuseBatch(items.length, room, direction)) {
+        return [];
+      }
+
+      const removed = this.buffer.removeRange(from, count);
+      this.untrack(removed);
+      if (items.length > 0) {
+        const evicted: T[] | undefined = this.onEvict ? [] : undefined;
+        if (this.weigh) {
+          let position = from;
+          for (const item of items) {
+            [, position] = this.insertWeighted(position, item, evicted);
+          }
+        } else {
+          this.buffer.insertRange(from, items, evicted);
+        }
+        if (evicted) this.emitEvict(evicted, EvictReason.OVERFLOW);
+      }
+      return removed;
+    } finally {
+      this.endChange(BufferOperation.SPLICE);
+    }
+  }
+
+  /**
+   * Remove the first (oldest) occurrence of `item` (strict equality).
+   *
+   * @returns True if an item was removed
+   */
+  remove(item: T): boolean {
+    this.beginChange();
+    try {
+      let index = 0;
+      for (const value of this.buffer) {
+        if (value === item) {
+          this.buffer.removeAt(index);
+          this.untrack([item]);
+          return true;
+        }
+        index++;
+      }
+      return false;
+    } finally {
+      this.endChange(BufferOperation.REMOVE);
+    }
+  }
+
+  /**
+   * Remove every item matching `predicate` in a single O(n) pass.
+   *
+   * @returns Removed items (oldest -> newest)
+   */
+  removeWhere(predicate: (item: T, index: number) => boolean): T[] {
+    this.beginChange();
+    try {
+      const removed = this.buffer.removeWhere(predicate);
+      this.untrack(removed);
+      return removed;
+    } finally {
+      this.endChange(BufferOperation.REMOVE_WHERE);
+    }
+  }
+
   // ============================================================================
   // Iteration helpers
   // ============================================================================
@@ -204,30 +928,213 @@ export class BufferManager<T> implements IBuffer<T> {
     return out;
   }
 
+  /**
+   * Fold all items (oldest -> newest) into one value, like
+   * `Array.prototype.reduce`, without copying.
+   *
+   * @throws TypeError if the buffer is empty and no initial value is given
+   */
+  reduce(callback: (accumulator: T, item: T, index: number) => T): T;
+  reduce<U>(
+    callback: (accumulator: U, item: T, index: number) => U,
+    initialValue: U
+  ): U;
+  reduce<U>(
+    callback: (accumulator: U, item: T, index: number) => U,
+    ...initial: [U?]
+  ): U {
+    return reduceItems(this.items, callback, initial);
+  }
+
+  /**
+   * @returns The oldest item matching `predicate`, or undefined
+   */
+  find(predicate: (item: T, index: number) => boolean): T | undefined {
+    return findItem(this.items, predicate);
+  }
+
+  /**
+   * @returns The newest item matching `predicate`, or undefined
+   */
+  findLast(predicate: (item: T, index: number) => boolean): T | undefined {
+    return findLastItem(this.items, predicate);
+  }
+
+  /**
+   * @returns True if `predicate` matches at least one item (stops at the first)
+   */
+  some(predicate: (item: T, index: number) => boolean): boolean {
+    return findIndex(this.items, predicate) !== -1;
+  }
+
+  /**
+   * @returns True if `predicate` matches every item (true when empty)
+   */
+  every(predicate: (item: T, index: number) => boolean): boolean {
+    return everyItem(this.items, predicate);
+  }
+
+  /**
+   * Whether the buffer holds `item` (SameValueZero, so `NaN` is found), like
+   * `Array.prototype.includes`.
+   *
+   * @param fromIndex - Index to start at (negative counts from the newest)
+   */
+  includes(item: T, fromIndex = 0): boolean {
+    return indexOfItem(this.items, item, fromIndex, true) !== -1;
+  }
+
+  /**
+   * Index of the oldest occurrence of `item` (strict equality), like
+   * `Array.prototype.indexOf`.
+   *
+   * @param fromIndex - Index to start at (negative counts from the newest)
+   * @returns The logical index, or -1 if not found
+   */
+  indexOf(item: T, fromIndex = 0): number {
+    return indexOfItem(this.items, item, fromIndex);
+  }
+
+  /**
+   * Join all items (oldest -> newest) into a string, like
+   * `Array.prototype.join` (`null` / `undefined` become empty strings).
+   */
+  join(separator = ","): string {
+    return joinItems(this.items, separator);
+  }
+
+  /**
+   * Iterate items from newest -> oldest.
+   */
+  *reverseIterator(): IterableIterator<T> {
+    for (let i = this.size() - 1; i >= 0; i--) {
+      yield this.buffer.at(i) as T;
+    }
+  }
+
+  /**
+   * Iterate `[index, item]` pairs (oldest -> newest).
+   */
+  *entries(): IterableIterator<[number, T]> {
+    let i = 0;
+    for (const item of this.buffer) yield [i++, item];
+  }
+
+  /**
+   * Iterate logical indices (oldest -> newest).
+   */
+  *keys(): IterableIterator<number> {
+    const size = this.size();
+    for (let i = 0; i < size; i++) yield i;
+  }
+
+  /**
+   * Iterate items (oldest -> newest); same as iterating the buffer.
+   */
+  *values(): IterableIterator<T> {
+    yield* this.buffer;
+  }
+
   // ============================================================================
   // Maintenance / capacity
   // ============================================================================
 
   /**
-   * Clear all items.
+   * Clear all items (evicted with reason `clear`).
    */
   clear(): void {
-    this.buffer.clear();
+    this.beginChange();
+    try {
+      const evicted = this.onEvict ? this.getAll() : [];
+      this.buffer.clear();
+      this.weight = 0;
+      this.emitEvict(evicted, EvictReason.CLEAR);
+    } finally {
+      this.endChange(BufferOperation.CLEAR);
+    }
   }
 
   /**
    * Resize logical capacity.
+   *
+   * When shrinking below the current size, the oldest items are discarded
+   * (evicted with reason `resize`). Shrinking also reclaims physical storage
+   * according to the `compactThreshold` option.
    */
   resize(newCapacity: number): void {
-    this.buffer.resize(newCapacity);
+    this.beginChange();
+    try {
+      const dataLoss = this.size() - newCapacity;
+      const evicted =
+        (this.onEvict || this.weigh) && newCapacity > 0 && dataLoss > 0
+          ? this.getHead(dataLoss)
+          : [];
+      this.buffer.resize(newCapacity);
+      this.untrack(evicted);
+      this.emitEvict(evicted, EvictReason.RESIZE);
+    } finally {
+      this.endChange(BufferOperation.RESIZE);
+    }
   }
 
   /**
-   * Replace buffer contents with provided items (keeps last `capacity` if overflow).
+   * Shrink physical storage to the logical capacity (no data loss).
+   *
+   * @returns True if storage was reallocated
+   */
+  compact(): boolean {
+    return this.buffer.compact();
+  }
+
+  /**
+   * Shrink the capacity and physical storage to the current size (at least 1),
+   * without data loss.
+   *
+   * @returns True if storage was reallocated
+   */
+  trimToSize(): boolean {
+    this.beginChange();
+    try {
+      return this.buffer.trimToSize();
+    } finally {
+      this.endChange(BufferOperation.TRIM_TO_SIZE);
+    }
+  }
+
+  /**
+   * Replace buffer contents with provided items.
+   *
+   * Overflow follows the buffer's policy: OVERWRITE keeps the last `capacity`
+   * items, DROP keeps the first `capacity` items, and REJECT / THROW leave the
+   * current contents untouched.
+   *
+   * Previous contents are evicted with reason `replaceAll`; new items that
+   * do not survive an OVERWRITE are evicted with reason `overflow`.
+   *
+   * @returns What happened to the items
    */
-  replaceAll(items: readonly T[]): void {
-    this.clear();
-    this.pushTail(items);
+  replaceAll(items: readonly T[]): PushResult {
+    this.beginChange();
+    try {
+      if (
+        this.refuseBatch(
+          items.length,
+          this.capacity(),
+          Direction.TAIL,
+          this.weightOfAll(items),
+          this.weightBudget
+        )
+      ) {
+        return PushResult.REJECTED;
+      }
+      const evicted = this.onEvict ? this.getAll() : [];
+      this.buffer.clear();
+      this.weight = 0;
+      this.emitEvict(evicted, EvictReason.REPLACE_ALL);
+      return this.pushTail(items);
+    } finally {
+      this.endChange(BufferOperation.REPLACE_ALL);
+    }
   }
 
   // ============================================================================
@@ -248,6 +1155,20 @@ export class BufferManager<T> implements IBuffer<T> {
     return this.buffer.getLogicalCapacity();
   }
 
+  /**
+   * @returns Allocated storage slots (may exceed `capacity()` after shrinking).
+   */
+  physicalCapacity(): number {
+    return this.buffer.getCapacity();
+  }
+
+  /**
+   * @returns Overflow policy applied when pushing into a full buffer.
+   */
+  overflowPolicy(): OverflowPolicy {
+    return this.buffer.getOverflowPolicy();
+  }
+
   /**
    * @returns True if empty.
    */
@@ -269,6 +1190,27 @@ export class BufferManager<T> implements IBuffer<T> {
     return this.capacity() - this.size();
   }
 
+  /**
+   * @returns Total weight of stored items (item count without a weigher).
+   */
+  totalWeight(): number {
+    return this.weigh ? this.weight : this.size();
+  }
+
+  /**
+   * @returns Weight budget (`Infinity` when unbounded).
+   */
+  maxWeight(): number {
+    return this.weightBudget;
+  }
+
+  /**
+   * @returns Remaining weight budget (maxWeight - totalWeight).
+   */
+  availableWeight(): number {
+    return this.weightBudget - this.totalWeight();
+  }
+
   // ============================================================================
   // Small helpers
   // ============================================================================
@@ -293,6 +1235,383 @@ export class BufferManager<T> implements IBuffer<T> {
     };
   }
 
+  /**
+   * Immutable view of the current items (oldest -> newest) that stays valid
+   * after later mutations.
+   *
+   * Consecutive snapshots share unchanged chunks: after pushes / pops at
+   * either end, a snapshot costs O(n / 128 + items pushed since the previous
+   * one) instead of the O(n) copy made by `getAll()`. The first call, and the
+   * first call after an edit away from both ends (set, insertAt, splice,
+   * remove, removeWhere), copies every item.
+   *
+   * @returns The same instance until the buffer changes (see `version()`)
+   *
+   * @example
+   * ```ts
+   * const before = buffer.snapshot();
+   * buffer.pushTail(item);
+   * const after = buffer.snapshot(); // before !== after; `before` is unchanged
+   * after.at(-1) === item;
+   * ```
+   */
+  snapshot(): ImmutableSnapshot<T> {
+    this.snapshots ??= new SnapshotBuilder(this.buffer);
+    return this.snapshots.snapshot(this.changeVersion);
+  }
+
+  /**
+   * Create an independent reader with its own position (see
+   * {@link BufferCursor}). Cursors never remove items; `close()` one when it
+   * is no longer read.
+   *
+   * @param from - Start before the oldest item (HEAD, default) or after the
+   * newest (TAIL: only items pushed from now on)
+   *
+   * @example
+   * ```ts
+   * const exporter = logs.createCursor(Direction.TAIL);
+   * logs.pushTail(line);
+   * exporter.next(); // { status: "ok", items: [line], missed: 0 }
+   * ```
+   */
+  createCursor(from: Direction = Direction.HEAD): BufferCursor<T> {
+    return new BufferCursor(this.buffer, from);
+  }
+
+  // ============================================================================
+  // Sequence numbers
+  // ============================================================================
+
+  /**
+   * Sequence number of the item at a logical index.
+   *
+   * Every item keeps its number while it stays in the buffer, whatever moves
+   * around it (logical indices shift on `popHead` and overwrites):
+   * - `pushTail` (and appends) count up from 0, so later pushes always have
+   *   higher numbers
+   * - `pushHead` (and inserts before the oldest item) count down from -1
+   * - Inserts elsewhere count up like `pushTail`; `set` keeps the number
+   * - Numbers are not saved by `toJSON()`; a restored buffer starts again
+   * - Per-item numbers are kept from the first sequence read (`seqOf`,
+   *   `firstSeq`, `lastSeq`, `getSince`) on; items stored before it are
+   *   numbered as if they had all been pushed at TAIL
+   *
+   * @returns The sequence number, or undefined if the index is out of range
+   */
+  seqOf(index: number): number | undefined {
+    return this.buffer.seqAt(index);
+  }
+
+  /**
+   * @returns Sequence number of the oldest item, or undefined if empty.
+   */
+  firstSeq(): number | undefined {
+    return this.buffer.seqAt(0);
+  }
+
+  /**
+   * @returns Sequence number of the newest item, or undefined if empty.
+   */
+  lastSeq(): number | undefined {
+    return this.buffer.seqAt(-1);
+  }
+
+  /**
+   * @returns Sequence number the next `pushTail` item receives.
+   */
+  nextSeq(): number {
+    return this.buffer.getNextSeq();
+  }
+
+  /**
+   * Items numbered after `seq`, for pushing only new items to a client.
+   *
+   * O(log n + k); O(n) after an insert away from both ends (until the buffer
+   * empties). Pass `-Infinity` to read every item.
+   *
+   * @param seq - Last sequence number the reader has seen
+   * @returns The items, the sequence number to resume from, and how many
+   * newer items were evicted or removed before they could be read
+   *
+   * @example
+   * ```ts
+   * let seen = -Infinity;
+   * const { items, lastSeq, missed } = logs.getSince(seen);
+   * if (missed > 0) resync();
+   * send(items);
+   * seen = lastSeq;
+   * ```
+   */
+  getSince(seq: number): SinceRead<T> {
+    const indices = this.buffer.indicesAfterSeq(seq);
+    const items = new Array<T>(indices.length);
+    let lastSeq = seq;
+    let retained = 0;
+    for (let i = 0; i < indices.length; i++) {
+      items[i] = this.buffer.at(indices[i]) as T;
+      const itemSeq = this.buffer.seqAt(indices[i]) as number;
+      if (itemSeq > lastSeq) lastSeq = itemSeq;
+      if (itemSeq >= 0) retained++;
+    }
+
+    // Every TAIL-side number after `seq` was assigned to an item
+    const assigned = this.buffer.getNextSeq() - Math.max(seq + 1, 0);
+    return { items, lastSeq, missed: Math.max(0, assigned - retained) };
+  }
+
+  // ============================================================================
+  // Sorted-key search
+  // ============================================================================
+
+  /**
+   * Index of the first item whose key is `>= key`, found by binary search
+   * over the logical order in O(log n).
+   *
+   * Keys must not decrease from HEAD to TAIL; when `process.env.NODE_ENV` is
+   * not `"production"` this is verified in O(n) once per key function and
+   * buffer change (skipped where `process` is undefined). Pass the same `keyFn` instance to reuse the
+   * check across calls.
+   *
+   * @returns An index in `[0, size()]` (`size()` if every key is smaller)
+   * @throws Error if the keys are not sorted (development builds only)
+   */
+  lowerBound(key: number | string, keyFn: KeySelector<T>): number {
+    this.assertSorted(keyFn);
+    return this.bound(key, keyFn, false);
+  }
+
+  /**
+   * Index of the first item whose key is `> key` (see {@link lowerBound}).
+   *
+   * @returns An index in `[0, size()]` (`size()` if no key is greater)
+   * @throws Error if the keys are not sorted (development builds only)
+   */
+  upperBound(key: number | string, keyFn: KeySelector<T>): number {
+    this.assertSorted(keyFn);
+    return this.bound(key, keyFn, true);
+  }
+
+  /**
+   * Items with `from <= key <= to` (oldest -> newest) in O(log n + k),
+   * instead of a `filter()` over the whole buffer.
+   *
+   * @example
+   * ```ts
+   * // Log entries pushed with increasing timestamps
+   * logs.range(Date.parse("10:02"), Date.parse("10:05"), (e) => e.time);
+   * ```
+   *
+   * @throws Error if the keys are not sorted (development builds only)
+   */
+  range(
+    from: number | string,
+    to: number | string,
+    keyFn: KeySelector<T>
+  ): T[] {
+    this.assertSorted(keyFn);
+    const start = this.bound(from, keyFn, false);
+    const end = Math.max(start, this.bound(to, keyFn, true));
+    const items = new Array<T>(end - start);
+    for (let i = start; i < end; i++) {
+      items[i - start] = this.buffer.at(i) as T;
+    }
+    return items;
+  }
+
+  /**
+   * Binary search for the first index whose key is `>= key` (or `> key`
+   * when `upper`).
+   */
+  private bound(
+    key: number | string,
+    keyFn: KeySelector<T>,
+    upper: boolean
+  ): number {
+    let low = 0;
+    let high = this.size();
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      const midKey = keyFn(this.buffer.at(mid) as T);
+      if (upper ? midKey <= key : midKey < key) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  }
+
+  private assertSorted(keyFn: KeySelector<T>): void {
+    if (!isDevelopment()) return;
+    const modCount = this.buffer.getModCount();
+    const checked = this.sortedFor;
+    if (checked?.keyFn === keyFn && checked.modCount === modCount) return;
+
+    let index = 0;
+    let previous: number | string | undefined;
+    for (const item of this.buffer) {
+      const key = keyFn(item);
+      if (previous !== undefined && key < previous) {
+        throw new Error(
+          `Keys must not decrease from HEAD to TAIL (index ${index})`
+        );
+      }
+      previous = key;
+      index++;
+    }
+    this.sortedFor = { keyFn, modCount };
+  }
+
+  // ============================================================================
+  // Observers / change events
+  // ============================================================================
+
+  /**
+   * Keep `observer` in sync with the buffer contents: it first receives
+   * `added()` for every current item (oldest -> newest), then every item
+   * stored or removed by any operation (push, pop, overwrite, set, splice,
+   * clear, resize, ...).
+   *
+   * @returns A function that detaches the observer
+   *
+   * @example
+   * ```ts
+   * const latencies = new Float64RingBuffer(1000);
+   * const p = new ExactQuantiles();
+   * latencies.observe(p);
+   * latencies.pushTail(12.5);
+   * p.quantile(0.99);
+   * ```
+   */
+  observe(observer: BufferObserver<T>): () => void {
+    for (const item of this.buffer) observer.added(item);
+    this.observers = [...this.observers, observer];
+    this.attachObservers();
+
+    return () => {
+      this.observers = this.observers.filter((o) => o !== observer);
+      this.attachObservers();
+    };
+  }
+
+  /**
+   * Listen for changes. `listener` is called once per mutating call that
+   * changed the items or the capacity (push, pop, set, insert / remove,
+   * splice, clear, resize, trimToSize, replaceAll), after the call completed,
+   * with the items it added and removed (popped, removed or evicted).
+   *
+   * @returns A function that unsubscribes the listener
+   *
+   * @example
+   * ```ts
+   * const unsubscribe = buffer.subscribe((change) => {
+   *   renderer.append(change.added);
+   *   renderer.drop(change.removed);
+   * });
+   * ```
+   */
+  subscribe(listener: BufferChangeListener<T>): () => void {
+    this.listeners = [...this.listeners, listener];
+    this.attachObservers();
+
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+      this.attachObservers();
+    };
+  }
+
+  /**
+   * @returns Number of changes so far (the `version` of the latest change
+   * record); increases with every change, even without listeners.
+   */
+  version(): number {
+    return this.changeVersion;
+  }
+
+  private attachObservers(): void {
+    this.attached =
+      this.listeners.length > 0
+        ? [...this.observers, this.collector]
+        : this.observers;
+    this.buffer.setObserver(
+      this.attached.length === 0
+        ? undefined
+        : this.attached.length === 1
+          ? this.attached[0]
+          : this.fanOut
+    );
+  }
+
+  // ============================================================================
+  // Serialization
+  // ============================================================================
+
+  /**
+   * Build a versioned, JSON-safe snapshot (capacity, items oldest -> newest,
+   * overflow policy and compaction threshold).
+   *
+   * `onEvict` and `storage` are runtime wiring and are not included.
+   */
+  toSnapshot(options?: SnapshotOptions<T>): BufferSnapshot {
+    const replacer = options?.replacer;
+    const items = this.getAll();
+    const threshold = this.buffer.getCompactThreshold();
+    const snapshot: BufferSnapshot = {
+      version: SNAPSHOT_VERSION,
+      capacity: this.capacity(),
+      items: replacer ? items.map((item, i) => replacer(item, i)) : items,
+      options: {
+        overflow: this.overflowPolicy(),
+        compactThreshold: Number.isFinite(threshold) ? threshold : null,
+      },
+    };
+    if (options?.schemaVersion !== undefined) {
+      snapshot.schemaVersion = options.schemaVersion;
+    }
+    return snapshot;
+  }
+
+  /**
+   * Called by `JSON.stringify(manager)`; same as `toSnapshot()`.
+   */
+  toJSON(): BufferSnapshot {
+    return this.toSnapshot();
+  }
+
+  /**
+   * Restore a buffer from a snapshot produced by `toJSON()` / `toSnapshot()`.
+   *
+   * @param snapshot - Snapshot object or its JSON string
+   * @param options - Item reviver, schema migration and runtime options
+   * @throws InvalidSnapshotError if the snapshot is malformed or from a newer format
+   *
+   * @example
+   * ```ts
+   * interface Event { name: string; at: Date }
+   *
+   * const restored = BufferManager.fromJSON<Event>(localStorage.getItem("events")!, {
+   *   reviver: (value) => {
+   *     const e = value as { name: string; at: string }; // `at` is an ISO string in JSON
+   *     return { name: e.name, at: new Date(e.at) };
+   *   },
+   * });
+   * ```
+   */
+  static fromJSON<T>(
+    snapshot: BufferSnapshot | string,
+    options?: BufferRestoreOptions<T>
+  ): BufferManager<T> {
+    const parsed = parseSnapshot<T>(snapshot, options);
+    const manager = new BufferManager<T>(parsed.capacity, {
+      overflow: parsed.options.overflow,
+      compactThreshold: snapshotCompactThreshold(parsed),
+      onEvict: options?.onEvict,
+      storage: options?.storage,
+      weigh: options?.weigh,
+      maxWeight: options?.maxWeight,
+    });
+    manager.pushTail(parsed.items);
+    return manager;
+  }
+
   /**
    * Make BufferManager iterable (oldest -> newest).
    */
@@ -310,8 +1629,16 @@ export class BufferManager<T> implements IBuffer<T> {
  * logBuffer.pushTail(["a", "b", "c", "d"]); // keeps last 3: ["b","c","d"]
  * logBuffer.popHead(); // "b"
  * logBuffer.getTail(2); // ["d","c"] (newest -> older)
+ *
+ * const jobs = createBuffer<Job>(100, { overflow: OverflowPolicy.REJECT });
+ * if (jobs.pushTail(job) === PushResult.REJECTED) {
+ *   // queue is full: refuse the work instead of losing older jobs
+ * }
  * ```
  */
-export function createBuffer<T>(capacity: number): BufferManager<T> {
-  return new BufferManager<T>(capacity);
+export function createBuffer<T>(
+  capacity: number,
+  options?: BufferManagerOptions<T>
+): BufferManager<T> {
+  return new BufferManager<T>(capacity, options);
 }
@@ -0,0 +1,139 @@
+import type { CircularBuffer } from "./CircularBuffer";
+import { StaleViewError } from "./errors";
+
+/**
+ * Resolve a `slice()`-style bound: negative counts from the end, the result
+ * is clamped to `[0, length]`.
+ */
+function resolveBound(bound: number, length: number): number {
+  const index = Math.trunc(bound) || 0;
+  return index < 0 ? Math.max(0, length + index) : Math.min(index, length);
+}
+
+/**
+ * Read-only window over a contiguous range of a ring, created with
+ * `BufferManager.view()`. Reads go straight to the ring storage; nothing is
+ * copied until `toArray()`.
+ *
+ * - Indices are relative to the window (`at(0)` is its oldest item)
+ * - Any mutation of the buffer after creation invalidates the view: every
+ *   read then throws {@link StaleViewError} (check with `isValid()`), so a
+ *   view never silently shows shifted or overwritten items
+ *
+ * @example
+ * ```ts
+ * // Virtualized table: render only the visible rows, without copying
+ * const rows = logs.view(firstVisible, firstVisible + visibleCount);
+ * rows.map((row, i) => <Row key={firstVisible + i} row={row} />);
+ * ```
+ *
+ * @template T - Element type stored in the buffer
+ */
+export class BufferView<T> implements Iterable<T> {
+  /** Number of items in the window */
+  readonly length: number;
+  private readonly ring: CircularBuffer<T>;
+  /** Logical index of item 0 in the ring */
+  private readonly start: number;
+  /** Ring modification count the window belongs to */
+  private readonly modCount: number;
+
+  /**
+   * @param ring - Ring to view
+   * @param start - First logical index (inclusive, `slice()` semantics)
+   * @param end - Last logical index (exclusive, `slice()` semantics)
+   */
+  constructor(ring: CircularBuffer<T>, start = 0, end = ring.getSize()) {
+    const size = ring.getSize();
+    this.ring = ring;
+    this.start = resolveBound(start, size);
+    this.length = Math.max(0, resolveBound(end, size) - this.start);
+    this.modCount = ring.getModCount();
+  }
+
+  /**
+   * @returns False once the buffer was modified after this view was created.
+   */
+  isValid(): boolean {
+    return this.ring.getModCount() === this.modCount;
+  }
+
+  /**
+   * Read the item at an index of the window in O(1).
+   *
+   * @param index - Index in the window (negative counts from its newest item)
+   * @returns The item, or undefined if the index is out of range
+   * @throws StaleViewError if the buffer was modified since the view was created
+   */
+  at(index: number): T | undefined {
+    this.assertValid();
+    if (!Number.isInteger(index)) return undefined;
+    const logical = index < 0 ? this.length + index : index;
+    if (logical < 0 || logical >= this.length) return undefined;
+    return this.ring.at(this.start + logical);
+  }
+
+  /**
+   * Narrow the window without copying (same bounds as `Array.prototype.slice`,
+   * relative to this view).
+   *
+   * @throws StaleViewError if the buffer was modified since the view was created
+   */
+  slice(start = 0, end = this.length): BufferView<T> {
+    this.assertValid();
+    const from = resolveBound(start, this.length);
+    const to = Math.max(from, resolveBound(end, this.length));
+    return new BufferView(this.ring, this.start + from, this.start + to);
+  }
+
+  /**
+   * Call `callback` for every item (oldest -> newest).
+   *
+   * @throws StaleViewError if the buffer was modified since the view was created
+   */
+  forEach(callback: (item: T, index: number) => void): void {
+    let index = 0;
+    for (const item of this) callback(item, index++);
+  }
+
+  /**
+   * @returns A new array with `callback` applied to every item (oldest -> newest)
+   * @throws StaleViewError if the buffer was modified since the view was created
+   */
+  map<U>(callback: (item: T, index: number) => U): U[] {
+    const result = new Array<U>(this.length);
+    let index = 0;
+    for (const item of this) {
+      result[index] = callback(item, index);
+      index++;
+    }
+    return result;
+  }
+
+  /**
+   * @returns A new array holding the window's items (oldest -> newest)
+   * @throws StaleViewError if the buffer was modified since the view was created
+   */
+  toArray(): T[] {
+    return this.map((item) => item);
+  }
+
+  /**
+   * Iterate items from oldest -> newest. The buffer must not be modified
+   * during iteration.
+   *
+   * @throws StaleViewError if the buffer was modified since the view was created
+   */
+  *[Symbol.iterator](): Iterator<T> {
+    this.assertValid();
+    const end = this.start + this.length;
+    for (let index = this.start; index < end; index++) {
+      this.assertValid();
+      yield this.ring.at(index) as T;
+    }
+  }
+
+  private assertValid(): void {
+    if (!this.isValid()) throw new StaleViewError();
+  }
+}
@@ -1,4 +1,56 @@
-import { Direction } from "../types";
+import {
+  Direction,
+  OverflowPolicy,
+  PushResult,
+  type BufferObserver,
+  type RingStorage,
+  type StorageFactory,
+} from "../types";
+import { BufferOverflowError } from "./errors";
+
+/**
+ * Options for {@link CircularBuffer}.
+ *
+ * @template T - Element type stored in the buffer
+ */
+export interface CircularBufferOptions<T = unknown> {
+  /**
+   * What to do when pushing into a full buffer.
+   * @default OverflowPolicy.OVERWRITE
+   */
+  overflow?: OverflowPolicy;
+
+  /**
+   * Allocates the backing storage (e.g. `(n) => new Float64Array(n)`).
+   * @default A plain array
+   */
+  storage?: StorageFactory<T>;
+
+  /**
+   * Hysteresis for reclaiming storage: a shrinking `resize()` compacts the
+   * physical storage down to the new logical capacity once
+   * `physical > compactThreshold * logical`. Use `Infinity` to never compact
+   * automatically.
+   * @default 2
+   */
+  compactThreshold?: number;
+
+  /**
+   * Notified of every item stored or removed (see {@link BufferObserver}).
+   */
+  observer?: BufferObserver<T>;
+}
+
+/**
+ * Called with the position after the newest item when it may have moved back
+ * (TAIL removal or an edit away from the ends).
+ * See {@link CircularBuffer.watchEnd}.
+ */
+export type EndWatcher = (end: number) => void;
+
+function arrayStorage<T>(capacity: number): RingStorage<T> {
+  return new Array<T | undefined>(capacity);
+}
 
 /**
  * A minimal circular buffer implementation with core operations only.
@@ -6,6 +58,10 @@ import { Direction } from "../types";
  * - Low-level primitive: use {@link BufferManager} for a user-friendly API.
  * - Supports push/pop in both directions.
  * - `get()` is a non-destructive "peek" operation (does not remove items).
+ * - `at()` / `set()` give O(1) access by logical index (0 = oldest).
+ * - Behavior on a full buffer is selected by an {@link OverflowPolicy}.
+ * - Backing storage is pluggable (plain array by default, or a typed array).
+ * - An optional observer sees every item that enters or leaves the buffer.
  *
  * Invariants:
  * - `head` points to the oldest element (HEAD).
@@ -14,23 +70,64 @@ import { Direction } from "../types";
  * @template T - Element type stored in the buffer
  */
 export class CircularBuffer<T> {
-  private buffer: (T | undefined)[];
+  private buffer: RingStorage<T>;
+  private readonly allocate: StorageFactory<T>;
   private capacity: number;
   private logicalCapacity: number;
   private size = 0;
   private head = 0;
   private tail = 0;
+  private readonly overflow: OverflowPolicy;
+  private readonly compactThreshold: number;
+  private observer?: BufferObserver<T>;
+  private modCount = 0;
+  /** Absolute position of the oldest item (see {@link getHeadPosition}) */
+  private headPosition = 0;
+  /** Notified by {@link markEnd}; one per open reader */
+  private readonly endWatchers: EndWatcher[] = [];
+  /** Absolute positions left untouched since {@link trackChanges} */
+  private untouchedStart = 0;
+  private untouchedEnd = 0;
+  /** Sequence number per storage slot (parallel to `buffer`), if allocated */
+  private seqs: Float64Array | undefined = undefined;
+  /** Sequence number of the next TAIL-side item */
+  private nextSeq = 0;
+  /** Last HEAD-side sequence number (counts down from -1) */
+  private headSeq = 0;
+  /** True while sequence numbers increase from HEAD to TAIL */
+  private seqOrdered = true;
 
   /**
    * @param capacity - Initial maximum number of elements the buffer can hold (must be > 0)
+   * @param options - Optional configuration (overflow policy, storage, compaction)
    */
-  constructor(capacity: number) {
+  constructor(capacity: number, options?: CircularBufferOptions<T>) {
     if (capacity <= 0) {
       throw new Error("Capacity must be greater than 0");
     }
+    const compactThreshold = options?.compactThreshold ?? 2;
+    if (!(compactThreshold >= 1)) {
+      throw new Error("Compact threshold must be at least 1");
+    }
+    this.compactThreshold = compactThreshold;
+    const overflow = options?.overflow ?? OverflowPolicy.OVERWRITE;
+    if (!Object.values(OverflowPolicy).includes(overflow)) {
+      throw new Error(`Invalid overflow policy: ${String(overflow)}`);
+    }
+    this.overflow = overflow;
     this.capacity = capacity;
     this.logicalCapacity = capacity;
-    this.buffer = new Array(capacity);
+    this.allocate = options?.storage ?? arrayStorage;
+    this.buffer = this.allocate(capacity);
+    this.observer = options?.observer;
+  }
+
+  /**
+   * Replace (or remove, with `undefined`) the observer notified of every item
+   * stored or removed. Items already stored are not replayed.
+   */
+  setObserver(observer: BufferObserver<T> | undefined): void {
+    this.observer = observer;
   }
 
   // ============================================================================
@@ -40,29 +137,65 @@ export class CircularBuffer<T> {
   /**
    * Push a value into the buffer.
    *
-   * If the buffer is full, it overwrites the oldest items depending on direction.
    * - HEAD: inserts before the current head (becomes the new oldest).
    * - TAIL: inserts at the tail (becomes the newest).
    *
+   * If the buffer is full, the overflow policy decides what happens:
+   * - OVERWRITE: TAIL drops the oldest item, HEAD drops the newest item
+   * - REJECT / DROP: the item is not stored
+   * - THROW: a {@link BufferOverflowError} is thrown
+   *
    * @param item - Value to store
    * @param direction - Direction.HEAD (head) or Direction.TAIL (tail)
+   * @returns What happened to the item
    */
-  push(item: T, direction: Direction): void {
+  push(item: T, direction: Direction): PushResult {
+    if (direction !== Direction.HEAD && direction !== Direction.TAIL) {
+      // Future-proof: if Direction gets extended
+      throw new Error(`Invalid direction: ${String(direction)}`);
+    }
+
+    const full = this.size >= this.logicalCapacity;
+    if (full && this.overflow !== OverflowPolicy.OVERWRITE) {
+      if (this.overflow === OverflowPolicy.THROW) {
+        throw new BufferOverflowError(this.logicalCapacity, direction);
+      }
+      return this.overflow === OverflowPolicy.REJECT
+        ? PushResult.REJECTED
+        : PushResult.DROPPED;
+    }
+
+    // The overwritten slot may be reused by the write below, so read it first
+    const overwritten =
+      full && this.observer
+        ? (this.buffer[
+            direction === Direction.HEAD
+              ? (this.tail - 1 + this.capacity) % this.capacity
+              : this.head
+          ] as T)
+        : undefined;
+
+    let slot: number;
     if (direction === Direction.HEAD) {
       this.head = (this.head - 1 + this.capacity) % this.capacity;
-      this.buffer[this.head] = item;
+      this.headPosition--;
+      slot = this.head;
+      this.buffer[slot] = item;
+      this.headSeq--;
+      if (this.seqs) this.seqs[slot] = this.headSeq;
 
       if (this.size < this.logicalCapacity) {
         this.size++;
       } else {
         // Overwrite requires moving tail TAILward to keep size bounded
         this.tail = (this.tail - 1 + this.capacity) % this.capacity;
+        this.droppedTail();
       }
-      return;
-    }
-
-    if (direction === Direction.TAIL) {
-      this.buffer[this.tail] = item;
+    } else {
+      slot = this.tail;
+      this.buffer[slot] = item;
+      if (this.seqs) this.seqs[slot] = this.nextSeq;
+      this.nextSeq++;
       this.tail = (this.tail + 1) % this.capacity;
 
       if (this.size < this.logicalCapacity) {
@@ -70,12 +203,16 @@ export class CircularBuffer<T> {
       } else {
         // Overwrite oldest item
         this.head = (this.head + 1) % this.capacity;
+        this.droppedHead(1);
       }
-      return;
     }
 
-    // Future-proof: if Direction gets extended
-    throw new Error(`Invalid direction: ${String(direction)}`);
+    this.modCount++;
+    if (this.observer) {
+      if (full) this.observer.removed(overwritten as T);
+      this.observer.added(this.buffer[slot] as T);
+    }
+    return full ? PushResult.OVERWRITTEN : PushResult.ADDED;
   }
 
   /**
@@ -96,11 +233,15 @@ export class CircularBuffer<T> {
 
       this.head = (this.head + 1) % this.capacity;
       this.size--;
+      this.droppedHead(1);
 
       if (this.size === 0) {
         this.head = 0;
         this.tail = 0;
+        this.seqOrdered = true;
       }
+      this.modCount++;
+      this.observer?.removed(item);
       return item;
     }
 
@@ -111,11 +252,15 @@ export class CircularBuffer<T> {
 
       this.tail = lastIndex;
       this.size--;
+      this.droppedTail();
 
       if (this.size === 0) {
         this.head = 0;
         this.tail = 0;
+        this.seqOrdered = true;
       }
+      this.modCount++;
+      this.observer?.removed(item);
       return item;
     }
 
@@ -174,6 +319,376 @@ export class CircularBuffer<T> {
     throw new Error(`Invalid direction: ${String(direction)}`);
   }
 
+  // ============================================================================
+  // Indexed access
+  // ============================================================================
+
+  /**
+   * Map a logical index (0 = oldest, negative counts from the newest) to a
+   * physical storage index.
+   *
+   * @returns The physical index, or -1 if out of range
+   */
+  private physicalIndex(index: number): number {
+    const logical = this.logicalIndex(index);
+    return logical === -1 ? -1 : (this.head + logical) % this.capacity;
+  }
+
+  /**
+   * Normalize a logical index (negative counts from the newest).
+   *
+   * @returns The index in `[0, size)`, or -1 if out of range
+   */
+  private logicalIndex(index: number): number {
+    if (!Number.isInteger(index)) return -1;
+    const logical = index < 0 ? this.size + index : index;
+    return logical < 0 || logical >= this.size ? -1 : logical;
+  }
+
+  /**
+   * Normalize an insertion position (negative counts from the newest, like
+   * `Array.prototype.splice`).
+   *
+   * @returns The position in `[0, size]`
+   * @throws RangeError if out of range
+   */
+  private insertionIndex(index: number): number {
+    const logical = Number.isInteger(index)
+      ? index < 0
+        ? this.size + index
+        : index
+      : -1;
+    if (logical < 0 || logical > this.size) {
+      throw new RangeError(
+        `Index out of range: ${String(index)} (size ${this.size})`
+      );
+    }
+    return logical;
+  }
+
+  /**
+   * Read the item at a logical index in O(1).
+   *
+   * - `0` is the oldest item, `size - 1` the newest
+   * - negative indices count from the newest (`-1` is the newest)
+   *
+   * @param index - Logical index (integer)
+   * @returns The item, or undefined if the index is out of range
+   */
+  at(index: number): T | undefined {
+    const idx = this.physicalIndex(index);
+    return idx === -1 ? undefined : (this.buffer[idx] as T);
+  }
+
+  /**
+   * Replace the item at a logical index in O(1).
+   *
+   * Uses the same indexing as {@link at}.
+   *
+   * @param index - Logical index (integer)
+   * @param value - New value
+   * @throws RangeError if the index is not an integer in `[-size, size)`
+   */
+  set(index: number, value: T): void {
+    const idx = this.physicalIndex(index);
+    if (idx === -1) {
+      throw new RangeError(
+        `Index out of range: ${String(index)} (size ${this.size})`
+      );
+    }
+    const previous = this.buffer[idx] as T;
+    this.buffer[idx] = value;
+    this.modCount++;
+    this.touchedInterior();
+    if (this.observer) {
+      this.observer.removed(previous);
+      this.observer.added(this.buffer[idx] as T);
+    }
+  }
+
+  // ============================================================================
+  // Arbitrary-position insert / remove
+  // ============================================================================
+
+  /**
+   * Make room for `count` items before logical position `logical` by shifting
+   * whichever side of the ring is shorter. The opened slots are left unset.
+   *
+   * Caller guarantees `size + count <= capacity` (physical).
+   */
+  private openGap(logical: number, count: number): void {
+    const cap = this.capacity;
+    const seqs = this.seqs;
+
+    if (logical < this.size - logical) {
+      // Shift the front part HEADward
+      const newHead = (this.head - count + cap) % cap;
+      for (let i = 0; i < logical; i++) {
+        this.buffer[(newHead + i) % cap] = this.buffer[(this.head + i) % cap];
+        if (seqs) seqs[(newHead + i) % cap] = seqs[(this.head + i) % cap];
+      }
+      this.head = newHead;
+    } else {
+      // Shift the back part TAILward
+      for (let i = this.size - 1; i >= logical; i--) {
+        this.buffer[(this.head + i + count) % cap] =
+          this.buffer[(this.head + i) % cap];
+        if (seqs) {
+          seqs[(this.head + i + count) % cap] = seqs[(this.head + i) % cap];
+        }
+      }
+      this.tail = (this.tail + count) % cap;
+    }
+
+    this.size += count;
+    this.modCount++;
+    // Appending (including into an empty buffer) keeps every position
+    if (logical < this.size - count) {
+      if (logical === 0) this.headPosition -= count;
+      else this.touchedInterior();
+    }
+  }
+
+  /**
+   * Remove `count` items starting at logical position `logical` by shifting
+   * whichever side of the ring is shorter.
+   *
+   * @returns Removed items (oldest -> newest)
+   */
+  private closeGap(logical: number, count: number): T[] {
+    const cap = this.capacity;
+    const seqs = this.seqs;
+    const removed = new Array<T>(count);
+    for (let i = 0; i < count; i++) {
+      removed[i] = this.buffer[(this.head + logical + i) % cap] as T;
+    }
+    if (count === 0) return removed;
+
+    if (logical < this.size - logical - count) {
+      // Shift the front part TAILward
+      for (let i = logical - 1; i >= 0; i--) {
+        this.buffer[(this.head + i + count) % cap] =
+          this.buffer[(this.head + i) % cap];
+        if (seqs) {
+          seqs[(this.head + i + count) % cap] = seqs[(this.head + i) % cap];
+        }
+      }
+      for (let i = 0; i < count; i++) {
+        this.buffer[(this.head + i) % cap] = undefined;
+      }
+      this.head = (this.head + count) % cap;
+    } else {
+      // Shift the back part HEADward
+      for (let i = logical + count; i < this.size; i++) {
+        this.buffer[(this.head + i - count) % cap] =
+          this.buffer[(this.head + i) % cap];
+        if (seqs) {
+          seqs[(this.head + i - count) % cap] = seqs[(this.head + i) % cap];
+        }
+      }
+      for (let i = 1; i <= count; i++) {
+        this.buffer[(this.tail - i + cap) % cap] = undefined;
+      }
+      this.tail = (this.tail - count + cap) % cap;
+    }
+
+    this.size -= count;
+    this.modCount++;
+    if (logical === 0) {
+      this.droppedHead(count);
+    } else if (logical === this.size) {
+      this.droppedTail();
+    } else {
+      this.touchedInterior();
+    }
+    if (this.size === 0) {
+      this.head = 0;
+      this.tail = 0;
+      this.seqOrdered = true;
+    }
+    this.notifyRemoved(removed);
+    return removed;
+  }
+
+  /**
+   * Insert a value at a logical position, shifting the shorter side of the ring.
+   *
+   * - `0` inserts before the oldest item, `size` appends after the newest
+   * - negative positions count from the newest (like `Array.prototype.splice`)
+   *
+   * Overflow follows the buffer's policy; OVERWRITE drops the oldest item,
+   * or the newest when inserting at position 0 (matching HEAD/TAIL pushes).
+   *
+   * @param index - Insertion position (integer in `[-size, size]`)
+   * @param item - Value to store
+   * @param evicted - Optional collector for overwritten items (oldest -> newest)
+   * @returns What happened to the item
+   * @throws RangeError if the position is out of range
+   */
+  insertAt(index: number, item: T, evicted?: T[]): PushResult {
+    return this.insertRange(index, [item], evicted);
+  }
+
+  /**
+   * Insert values at a logical position, shifting the shorter side of the ring.
+   *
+   * Overflow follows the buffer's policy:
+   * - OVERWRITE: the sequence is trimmed from the oldest side (or from the
+   *   newest side when inserting at position 0), possibly including inserted items
+   * - REJECT / THROW: nothing is stored unless every item fits
+   * - DROP: only the first items that fit are stored
+   *
+   * @param index - Insertion position (integer in `[-size, size]`)
+   * @param items - Values to store (in order)
+   * @param evicted - Optional collector for overwritten items (oldest -> newest)
+   * @returns What happened to the items
+   * @throws RangeError if the position is out of range
+   */
+  insertRange(index: number, items: readonly T[], evicted?: T[]): PushResult {
+    let at = this.insertionIndex(index);
+    const count = items.length;
+    if (count === 0) return PushResult.ADDED;
+
+    let result: PushResult = PushResult.ADDED;
+    let toInsert = items;
+    const free = this.logicalCapacity - this.size;
+
+    if (count > free) {
+      if (this.overflow === OverflowPolicy.THROW) {
+        throw new BufferOverflowError(
+          this.logicalCapacity,
+          at === 0 ? Direction.HEAD : Direction.TAIL,
+          count
+        );
+      }
+      if (this.overflow === OverflowPolicy.REJECT) return PushResult.REJECTED;
+
+      if (this.overflow === OverflowPolicy.DROP) {
+        toInsert = items.slice(0, free);
+        result = PushResult.DROPPED;
+      } else {
+        result = PushResult.OVERWRITTEN;
+        const excess = count - free;
+
+        if (at > 0) {
+          // Trim the oldest side: existing items first, then inserted ones
+          const fromExisting = Math.min(excess, at);
+          const trimmed = this.closeGap(0, fromExisting);
+          const fromInserted = excess - fromExisting;
+          at -= fromExisting;
+          toInsert = items.slice(fromInserted);
+          evicted?.push(...trimmed, ...items.slice(0, fromInserted));
+        } else {
+          // Trim the newest side: existing items first, then inserted ones
+          const fromExisting = Math.min(excess, this.size);
+          const trimmed = this.closeGap(this.size - fromExisting, fromExisting);
+          const kept = count - (excess - fromExisting);
+          toInsert = items.slice(0, kept);
+          evicted?.push(...items.slice(kept), ...trimmed);
+        }
+      }
+    }
+
+    if (toInsert.length === 0) return result;
+
+    // Like pushes, inserts before the oldest item take HEAD-side sequence
+    // numbers; any other insert counts up (out of order unless appended)
+    const n = toInsert.length;
+    const append = at === this.size;
+    const front = at === 0 && !append;
+    this.openGap(at, n);
+    for (let i = 0; i < n; i++) {
+      const idx = (this.head + at + i) % this.capacity;
+      this.buffer[idx] = toInsert[i];
+      const seq = front ? this.headSeq - n + i : this.nextSeq++;
+      if (this.seqs) this.seqs[idx] = seq;
+    }
+    if (front) this.headSeq -= n;
+    else if (!append) this.seqOrdered = false;
+    if (this.observer) {
+      for (let i = 0; i < toInsert.length; i++) {
+        const idx = (this.head + at + i) % this.capacity;
+        this.observer.added(this.buffer[idx] as T);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Remove the value at a logical index, shifting the shorter side of the ring.
+   *
+   * @param index - Logical index (0 = oldest, negative counts from the newest)
+   * @returns The removed item, or undefined if the index is out of range
+   */
+  removeAt(index: number): T | undefined {
+    const logical = this.logicalIndex(index);
+    return logical === -1 ? undefined : this.closeGap(logical, 1)[0];
+  }
+
+  /**
+   * Remove up to `count` values starting at a logical position, shifting the
+   * shorter side of the ring.
+   *
+   * @param index - Start position (integer in `[-size, size]`)
+   * @param count - Number of items to remove (clamped to the available items)
+   * @returns Removed items (oldest -> newest)
+   * @throws RangeError if the position is out of range
+   */
+  removeRange(index: number, count: number): T[] {
+    const start = this.insertionIndex(index);
+    const n = Math.min(Math.max(0, Math.floor(count)), this.size - start);
+    return this.closeGap(start, n);
+  }
+
+  /**
+   * Remove every value matching `predicate` in a single O(n) pass.
+   *
+   * The predicate is evaluated for all items before the buffer is modified.
+   *
+   * @returns Removed items (oldest -> newest)
+   */
+  removeWhere(predicate: (item: T, index: number) => boolean): T[] {
+    const cap = this.capacity;
+    const seqs = this.seqs;
+    const matches = new Array<boolean>(this.size);
+    for (let i = 0; i < this.size; i++) {
+      matches[i] = predicate(this.buffer[(this.head + i) % cap] as T, i);
+    }
+
+    const removed: T[] = [];
+    let write = 0;
+    for (let read = 0; read < this.size; read++) {
+      const item = this.buffer[(this.head + read) % cap] as T;
+      if (matches[read]) {
+        removed.push(item);
+        continue;
+      }
+      if (write !== read) {
+        this.buffer[(this.head + write) % cap] = item;
+        if (seqs) {
+          seqs[(this.head + write) % cap] = seqs[(this.head + read) % cap];
+        }
+      }
+      write++;
+    }
+    if (removed.length === 0) return removed;
+
+    for (let i = write; i < this.size; i++) {
+      this.buffer[(this.head + i) % cap] = undefined;
+    }
+    this.size = write;
+    this.modCount++;
+    this.touchedInterior();
+    this.tail = (this.head + write) % cap;
+    if (this.size === 0) {
+      this.head = 0;
+      this.tail = 0;
+      this.seqOrdered = true;
+    }
+    this.notifyRemoved(removed);
+    return removed;
+  }
+
   // ============================================================================
   // Maintenance
   // ============================================================================
@@ -182,10 +697,39 @@ export class CircularBuffer<T> {
    * Remove all items and reset indices.
    */
   clear(): void {
-    this.buffer = new Array(this.capacity);
+    if (this.size > 0) this.modCount++;
+    const removed = this.observer ? [...this] : [];
+    const count = this.size;
+    this.buffer = this.allocate(this.capacity);
     this.head = 0;
     this.tail = 0;
     this.size = 0;
+    this.seqOrdered = true;
+    this.droppedHead(count);
+    this.notifyRemoved(removed);
+  }
+
+  /**
+   * Move the items (oldest -> newest) into new storage with `newCapacity` slots.
+   *
+   * Caller guarantees `size <= newCapacity`.
+   */
+  private reallocate(newCapacity: number): void {
+    const newBuffer = this.allocate(newCapacity);
+    const seqs = this.seqs;
+    const newSeqs = seqs && new Float64Array(newCapacity);
+
+    for (let i = 0; i < this.size; i++) {
+      const oldIndex = (this.head + i) % this.capacity;
+      newBuffer[i] = this.buffer[oldIndex];
+      if (seqs && newSeqs) newSeqs[i] = seqs[oldIndex];
+    }
+
+    this.buffer = newBuffer;
+    this.seqs = newSeqs;
+    this.head = 0;
+    this.tail = this.size % newCapacity;
+    this.capacity = newCapacity;
   }
 
   /**
@@ -194,6 +738,8 @@ export class CircularBuffer<T> {
    * Notes:
    * - When expanding beyond current physical capacity, the underlying storage grows.
    * - When shrinking below current size, oldest items are discarded.
+   * - When shrinking, the storage is compacted to the new capacity once it is more
+   *   than `compactThreshold` times larger (see {@link CircularBufferOptions}).
    *
    * @param newCapacity - New logical capacity (must be > 0)
    */
@@ -204,25 +750,214 @@ export class CircularBuffer<T> {
 
     if (newCapacity > this.capacity) {
       // Expand underlying storage
-      const newBuffer = new Array<T | undefined>(newCapacity);
-
-      for (let i = 0; i < this.size; i++) {
-        const oldIndex = (this.head + i) % this.capacity;
-        newBuffer[i] = this.buffer[oldIndex];
-      }
-
-      this.buffer = newBuffer;
-      this.head = 0;
-      this.tail = this.size;
-      this.capacity = newCapacity;
+      this.reallocate(newCapacity);
     } else if (newCapacity < this.size) {
-      // Shrink logical size by discarding oldest items
+      // Shrink logical size by discarding oldest items (and releasing them)
       const dataLoss = this.size - newCapacity;
+      const removed = new Array<T>(this.observer ? dataLoss : 0);
+      for (let i = 0; i < dataLoss; i++) {
+        const idx = (this.head + i) % this.capacity;
+        if (this.observer) removed[i] = this.buffer[idx] as T;
+        this.buffer[idx] = undefined;
+      }
       this.head = (this.head + dataLoss) % this.capacity;
       this.size = newCapacity;
+      this.droppedHead(dataLoss);
+      this.notifyRemoved(removed);
     }
 
+    if (newCapacity !== this.logicalCapacity) this.modCount++;
     this.logicalCapacity = newCapacity;
+
+    if (this.capacity > this.compactThreshold * newCapacity) {
+      this.reallocate(newCapacity);
+    }
+  }
+
+  /**
+   * Report removed items (oldest -> newest) to the observer, if any.
+   */
+  private notifyRemoved(items: readonly T[]): void {
+    if (!this.observer) return;
+    for (const item of items) this.observer.removed(item);
+  }
+
+  /**
+   * Shrink the physical storage to the logical capacity (no data loss).
+   *
+   * @returns True if storage was reallocated
+   */
+  compact(): boolean {
+    if (this.capacity === this.logicalCapacity) return false;
+    this.reallocate(this.logicalCapacity);
+    return true;
+  }
+
+  /**
+   * Shrink both the logical capacity and the physical storage to the current
+   * size (at least 1), without data loss.
+   *
+   * @returns True if storage was reallocated
+   */
+  trimToSize(): boolean {
+    const logicalCapacity = Math.max(this.size, 1);
+    if (logicalCapacity !== this.logicalCapacity) this.modCount++;
+    this.logicalCapacity = logicalCapacity;
+    return this.compact();
+  }
+
+  // ============================================================================
+  // Change tracking
+  // ============================================================================
+
+  /** `count` items left the HEAD side. */
+  private droppedHead(count: number): void {
+    this.headPosition += count;
+    this.untouchedStart = Math.max(this.untouchedStart, this.headPosition);
+  }
+
+  /** Items left the TAIL side. */
+  private droppedTail(): void {
+    this.untouchedEnd = Math.min(
+      this.untouchedEnd,
+      this.headPosition + this.size
+    );
+    this.markEnd();
+  }
+
+  /** Items changed or moved away from both ends. */
+  private touchedInterior(): void {
+    this.untouchedEnd = this.untouchedStart;
+    this.markEnd();
+  }
+
+  /** Report the current end to every watcher. */
+  private markEnd(): void {
+    const end = this.headPosition + this.size;
+    for (let i = 0; i < this.endWatchers.length; i++) this.endWatchers[i](end);
+  }
+
+  /**
+   * Absolute position of the oldest item. Item `i` sits at
+   * `getHeadPosition() + i`; the position grows as items leave the HEAD side
+   * and shrinks with HEAD pushes, so items keep their position across pushes
+   * and pops at either end.
+   */
+  getHeadPosition(): number {
+    return this.headPosition;
+  }
+
+  /**
+   * Call `watcher` with the new end after every TAIL removal or edit away
+   * from the ends, so a reader can move back before pushes move the end
+   * forward again.
+   *
+   * @returns Function that stops watching
+   */
+  watchEnd(watcher: EndWatcher): () => void {
+    this.endWatchers.push(watcher);
+    return () => {
+      const index = this.endWatchers.indexOf(watcher);
+      if (index !== -1) this.endWatchers.splice(index, 1);
+    };
+  }
+
+  /**
+   * Start recording which items stay untouched (see {@link getUntouchedRange}).
+   */
+  trackChanges(): void {
+    this.untouchedStart = this.headPosition;
+    this.untouchedEnd = this.headPosition + this.size;
+  }
+
+  /**
+   * Absolute positions whose items are unchanged since the last
+   * {@link trackChanges} call. Pushes and pops at either end shrink the range
+   * to what survived; any other edit (set, middle insert / remove,
+   * removeWhere) empties it.
+   *
+   * @returns `[start, end)`, with `end <= start` when empty
+   */
+  getUntouchedRange(): [number, number] {
+    return [this.untouchedStart, this.untouchedEnd];
+  }
+
+  // ============================================================================
+  // Sequence numbers
+  // ============================================================================
+
+  /**
+   * Sequence number of the item at a logical index. Numbers stay with their
+   * item until it leaves the buffer and are never reused:
+   *
+   * - TAIL pushes and appends count up from 0 (see {@link getNextSeq})
+   * - HEAD pushes and inserts before the oldest item count down from -1
+   * - Inserts elsewhere count up like appends; `set` keeps the number
+   *
+   * Per-item numbers are stored from the first `seqAt` / `indicesAfterSeq`
+   * call on; items stored before then are numbered as the newest TAIL-side
+   * items (the numbers TAIL pushes alone would have given them).
+   *
+   * @param index - Logical index (0 = oldest, negative counts from the newest)
+   * @returns The sequence number, or undefined if the index is out of range
+   */
+  seqAt(index: number): number | undefined {
+    const seqs = this.sequenced();
+    const idx = this.physicalIndex(index);
+    return idx === -1 ? undefined : seqs[idx];
+  }
+
+  /**
+   * @returns Sequence number the next TAIL-side item receives.
+   */
+  getNextSeq(): number {
+    return this.nextSeq;
+  }
+
+  /**
+   * Logical indices (ascending) of the items whose sequence number is greater
+   * than `seq`.
+   *
+   * O(log n + k) while sequence numbers increase from HEAD to TAIL; O(n) once
+   * an insert away from both ends broke the order (until the buffer empties).
+   */
+  indicesAfterSeq(seq: number): number[] {
+    const cap = this.capacity;
+    const seqs = this.sequenced();
+    if (this.seqOrdered) {
+      let low = 0;
+      let high = this.size;
+      while (low < high) {
+        const mid = (low + high) >>> 1;
+        if (seqs[(this.head + mid) % cap] > seq) high = mid;
+        else low = mid + 1;
+      }
+      return Array.from({ length: this.size - low }, (_, i) => low + i);
+    }
+
+    const result: number[] = [];
+    for (let i = 0; i < this.size; i++) {
+      if (seqs[(this.head + i) % cap] > seq) result.push(i);
+    }
+    return result;
+  }
+
+  /**
+   * Per-slot sequence numbers, allocated on first use so rings that never
+   * read them (typed rings, internal deques) only keep the counters.
+   */
+  private sequenced(): Float64Array {
+    if (this.seqs === undefined) {
+      const seqs = new Float64Array(this.capacity);
+      const first = this.nextSeq - this.size;
+      for (let i = 0; i < this.size; i++) {
+        seqs[(this.head + i) % this.capacity] = first + i;
+      }
+      this.headSeq = Math.min(this.headSeq, first);
+      this.seqOrdered = true;
+      this.seqs = seqs;
+    }
+    return this.seqs;
   }
 
   // ============================================================================
@@ -251,6 +986,28 @@ export class CircularBuffer<T> {
     return this.logicalCapacity;
   }
 
+  /**
+   * @returns Counter incremented by every change to the items or the logical
+   * capacity (storage reallocation alone does not count).
+   */
+  getModCount(): number {
+    return this.modCount;
+  }
+
+  /**
+   * @returns Compaction hysteresis factor (see {@link CircularBufferOptions}).
+   */
+  getCompactThreshold(): number {
+    return this.compactThreshold;
+  }
+
+  /**
+   * @returns The overflow policy applied when pushing into a full buffer.
+   */
+  getOverflowPolicy(): OverflowPolicy {
+    return this.overflow;
+  }
+
   /**
    * Iterate items from oldest -> newest.
    */
@@ -0,0 +1,171 @@
+import type { BufferObserver } from "../types";
+
+/**
+ * One histogram bucket: values in `(lower, upper]`.
+ */
+export interface HistogramBucket {
+  /** Exclusive lower bound (`-Infinity` for the first bucket) */
+  lower: number;
+  /** Inclusive upper bound (`Infinity` for the last bucket) */
+  upper: number;
+  count: number;
+}
+
+/**
+ * Bucketed histogram over a sliding window.
+ *
+ * - `boundaries` are the inclusive upper bounds of the buckets; one extra
+ *   bucket collects values above the last boundary
+ * - add / remove are O(log buckets), so it can follow a buffer through
+ *   {@link BufferManager.observe} (push, pop, overwrite, resize, ...)
+ * - `NaN` values are ignored
+ *
+ * @example
+ * ```ts
+ * const latencies = new Float64RingBuffer(1000);
+ * const histogram = new Histogram(exponentialBoundaries(1, 2, 10));
+ * latencies.observe(histogram);
+ * latencies.pushTail(12);
+ * histogram.buckets(); // [{ lower: -Infinity, upper: 1, count: 0 }, ...]
+ * ```
+ */
+export class Histogram implements BufferObserver<number> {
+  private readonly bounds: number[];
+  private readonly tallies: number[];
+  private total = 0;
+
+  /**
+   * @param boundaries - Strictly increasing bucket upper bounds
+   * @throws RangeError if the boundaries are not strictly increasing numbers
+   */
+  constructor(boundaries: readonly number[]) {
+    for (let i = 0; i < boundaries.length; i++) {
+      if (
+        Number.isNaN(boundaries[i]) ||
+        (i > 0 && !(boundaries[i] > boundaries[i - 1]))
+      ) {
+        throw new RangeError("Histogram boundaries must be strictly increasing");
+      }
+    }
+    this.bounds = [...boundaries];
+    this.tallies = new Array<number>(boundaries.length + 1).fill(0);
+  }
+
+  /**
+   * @returns Index of the bucket `value` falls into (`boundaries.length` for
+   * values above the last boundary)
+   */
+  bucketOf(value: number): number {
+    let low = 0;
+    let high = this.bounds.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (value <= this.bounds[mid]) high = mid;
+      else low = mid + 1;
+    }
+    return low;
+  }
+
+  added(value: number): void {
+    if (Number.isNaN(value)) return;
+    this.tallies[this.bucketOf(value)]++;
+    this.total++;
+  }
+
+  removed(value: number): void {
+    if (Number.isNaN(value)) return;
+    const bucket = this.bucketOf(value);
+    if (this.tallies[bucket] === 0) return;
+    this.tallies[bucket]--;
+    this.total--;
+  }
+
+  /**
+   * @returns Number of counted values
+   */
+  count(): number {
+    return this.total;
+  }
+
+  /**
+   * @returns Count per bucket (`boundaries.length + 1` entries)
+   */
+  counts(): number[] {
+    return [...this.tallies];
+  }
+
+  /**
+   * @returns Running totals per bucket (values `<=` each upper bound)
+   */
+  cumulativeCounts(): number[] {
+    let sum = 0;
+    return this.tallies.map((count) => (sum += count));
+  }
+
+  /**
+   * @returns Buckets with their bounds and counts (lowest first)
+   */
+  buckets(): HistogramBucket[] {
+    return this.tallies.map((count, i) => ({
+      lower: i === 0 ? -Infinity : this.bounds[i - 1],
+      upper: i === this.bounds.length ? Infinity : this.bounds[i],
+      count,
+    }));
+  }
+
+  /**
+   * @returns Copy of the bucket upper bounds
+   */
+  boundaries(): number[] {
+    return [...this.bounds];
+  }
+
+  /**
+   * Reset every bucket to zero.
+   */
+  clear(): void {
+    this.tallies.fill(0);
+    this.total = 0;
+  }
+}
+
+/**
+ * @param start - First boundary
+ * @param width - Distance between boundaries (> 0)
+ * @param count - Number of boundaries (>= 1)
+ * @returns `count` evenly spaced boundaries
+ * @throws RangeError on a non-positive width or count
+ */
+export function linearBoundaries(
+  start: number,
+  width: number,
+  count: number
+): number[] {
+  if (!(width > 0) || !(count >= 1)) {
+    throw new RangeError("Width and count must be greater than 0");
+  }
+  return Array.from({ length: Math.floor(count) }, (_, i) => start + i * width);
+}
+
+/**
+ * @param start - First boundary (> 0)
+ * @param factor - Ratio between consecutive boundaries (> 1)
+ * @param count - Number of boundaries (>= 1)
+ * @returns `count` exponentially growing boundaries
+ * @throws RangeError on an invalid start, factor or count
+ */
+export function exponentialBoundaries(
+  start: number,
+  factor: number,
+  count: number
+): number[] {
+  if (!(start > 0) || !(factor > 1) || !(count >= 1)) {
+    throw new RangeError(
+      "Start must be greater than 0, factor greater than 1 and count at least 1"
+    );
+  }
+  return Array.from(
+    { length: Math.floor(count) },
+    (_, i) => start * Math.pow(factor, i)
+  );
+}
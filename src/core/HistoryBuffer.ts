@@ -0,0 +1,224 @@
+import { BufferManager } from "./BufferManager";
+import { systemClock, type Clock } from "./TimeWindowBuffer";
+
+/**
+ * Options for {@link HistoryBuffer}.
+ */
+export interface HistoryBufferOptions {
+  /**
+   * Records within this many ms of the previous record replace the current
+   * state instead of adding an undo step (e.g. one step per burst of typing).
+   * `0` disables coalescing.
+   * @default 0
+   */
+  coalesceMs?: number;
+
+  /**
+   * Time source for coalescing.
+   * @default systemClock
+   */
+  clock?: Clock;
+}
+
+/**
+ * Options for a single {@link HistoryBuffer.record} call.
+ */
+export interface RecordOptions {
+  /**
+   * Set to `false` to always add a new undo step, even within `coalesceMs`.
+   * Later records do not coalesce into it either.
+   * @default true
+   */
+  coalesce?: boolean;
+}
+
+/**
+ * Bounded undo / redo history backed by a single ring.
+ *
+ * - States are kept oldest -> newest with a pointer to the present state;
+ *   undo / redo move the pointer, so both are O(1)
+ * - Recording after an undo discards the redo branch
+ * - The ring capacity bounds the depth: once full, recording drops the
+ *   oldest state (capacity includes the present state)
+ * - Rapid records within `coalesceMs` of each other form a burst: its first
+ *   record adds an undo step and the rest replace that step, so undo returns
+ *   to the state before the burst. The first state of an empty history,
+ *   `coalesce: false` records, undo and redo all end the current burst
+ *
+ * @example
+ * ```ts
+ * const history = new HistoryBuffer<string>(100, { coalesceMs: 500 });
+ * history.record("");
+ * history.record("h");
+ * history.record("hi"); // within 500 ms: replaces "h"
+ * history.undo(); // ""
+ * history.redo(); // "hi"
+ * ```
+ *
+ * @template T - State type
+ */
+export class HistoryBuffer<T> {
+  private readonly states: BufferManager<T>;
+  private readonly clock: Clock;
+  private readonly coalesceMs: number;
+  /** Index of the present state (-1 when empty) */
+  private current = -1;
+  /** Time of the last record of the open burst (undefined if none is open) */
+  private lastRecordAt: number | undefined = undefined;
+
+  /**
+   * @param capacity - Maximum number of states kept (present included)
+   * @param options - Optional coalescing configuration
+   * @throws Error if `coalesceMs` is negative
+   */
+  constructor(capacity: number, options: HistoryBufferOptions = {}) {
+    const coalesceMs = options.coalesceMs ?? 0;
+    if (!(coalesceMs >= 0)) {
+      throw new Error("Coalesce window must not be negative");
+    }
+    this.states = new BufferManager<T>(capacity);
+    this.clock = options.clock ?? systemClock;
+    this.coalesceMs = coalesceMs;
+  }
+
+  // ============================================================================
+  // Record / undo / redo
+  // ============================================================================
+
+  /**
+   * Make `state` the present state, discarding the redo branch.
+   *
+   * The first record after an idle gap of `coalesceMs` adds an undo step;
+   * records following it within `coalesceMs` of each other (with no undo /
+   * redo in between) replace that step instead.
+   */
+  record(state: T, options?: RecordOptions): void {
+    const now = this.clock.now();
+    this.states.popTail(this.redoCount());
+
+    const coalescable = options?.coalesce !== false;
+    const baseline = this.states.isEmpty();
+    if (
+      coalescable &&
+      this.lastRecordAt !== undefined &&
+      now - this.lastRecordAt < this.coalesceMs
+    ) {
+      this.states.set(this.current, state);
+    } else {
+      // A full ring drops the oldest state; the present stays the newest
+      this.states.pushTail(state);
+      this.current = this.states.size() - 1;
+    }
+    // The state before a burst must survive it, so only open a burst on
+    // top of an existing state
+    this.lastRecordAt = coalescable && !baseline ? now : undefined;
+  }
+
+  /**
+   * Step back to the previous state.
+   *
+   * @returns The new present state, or undefined if there is nothing to undo
+   */
+  undo(): T | undefined {
+    if (!this.canUndo()) return undefined;
+    this.current--;
+    this.lastRecordAt = undefined;
+    return this.present();
+  }
+
+  /**
+   * Step forward to the next state of the redo branch.
+   *
+   * @returns The new present state, or undefined if there is nothing to redo
+   */
+  redo(): T | undefined {
+    if (!this.canRedo()) return undefined;
+    this.current++;
+    this.lastRecordAt = undefined;
+    return this.present();
+  }
+
+  /**
+   * Drop every state (including the present).
+   */
+  clear(): void {
+    this.states.clear();
+    this.current = -1;
+    this.lastRecordAt = undefined;
+  }
+
+  /**
+   * Replace the whole history with a single present state.
+   */
+  reset(state: T): void {
+    this.clear();
+    this.record(state);
+  }
+
+  // ============================================================================
+  // Info
+  // ============================================================================
+
+  /**
+   * @returns The present state, or undefined if nothing was recorded.
+   */
+  present(): T | undefined {
+    return this.states.at(this.current);
+  }
+
+  /**
+   * @returns True if `undo()` would change the present state.
+   */
+  canUndo(): boolean {
+    return this.current > 0;
+  }
+
+  /**
+   * @returns True if `redo()` would change the present state.
+   */
+  canRedo(): boolean {
+    return this.redoCount() > 0;
+  }
+
+  /**
+   * @returns Number of available undo steps.
+   */
+  undoCount(): number {
+    return Math.max(0, this.current);
+  }
+
+  /**
+   * @returns Number of available redo steps.
+   */
+  redoCount(): number {
+    return this.states.size() - 1 - this.current;
+  }
+
+  /**
+   * @returns Index of the present state in `getAll()` (-1 when empty).
+   */
+  position(): number {
+    return this.current;
+  }
+
+  /**
+   * @returns All kept states (oldest -> newest), redo branch included.
+   */
+  getAll(): T[] {
+    return this.states.getAll();
+  }
+
+  /**
+   * @returns Number of kept states.
+   */
+  size(): number {
+    return this.states.size();
+  }
+
+  /**
+   * @returns Maximum number of kept states.
+   */
+  capacity(): number {
+    return this.states.capacity();
+  }
+}
@@ -0,0 +1,265 @@
+import type { CircularBuffer } from "./CircularBuffer";
+import {
+  everyItem,
+  findIndex,
+  findItem,
+  findLastItem,
+  indexOfItem,
+  joinItems,
+  reduceItems,
+} from "./indexedReads";
+
+/** Items per chunk; chunks are aligned to absolute ring positions. */
+const CHUNK_SIZE = 128;
+
+/**
+ * Chunked storage shared between consecutive snapshots.
+ *
+ * Chunk `k` holds the items at absolute positions `[k * CHUNK_SIZE,
+ * (k + 1) * CHUNK_SIZE)`; a published chunk is never written again.
+ */
+export interface SnapshotLayout<T> {
+  chunks: readonly (readonly T[])[];
+  /** Chunk number of `chunks[0]` */
+  firstChunk: number;
+  /** Absolute position of item 0 */
+  start: number;
+  length: number;
+}
+
+/**
+ * Immutable, versioned view of a {@link BufferManager}'s items
+ * (oldest -> newest), returned by `BufferManager.snapshot()`.
+ *
+ * - Stays valid (unchanged) after later mutations of the buffer
+ * - Consecutive snapshots share unchanged chunks, so taking one costs far
+ *   less than copying the buffer
+ * - The same instance is returned while the buffer's version is unchanged,
+ *   so it can be compared by reference (React state, memo dependencies)
+ *
+ * @template T - Element type stored in the buffer
+ */
+export class ImmutableSnapshot<T> implements Iterable<T> {
+  /** Buffer version (`BufferManager.version()`) this snapshot reflects */
+  readonly version: number;
+  /** Number of items */
+  readonly length: number;
+  private readonly layout: SnapshotLayout<T>;
+
+  /**
+   * @param layout - Chunked items (never modified afterwards)
+   * @param version - Buffer version the items belong to
+   */
+  constructor(layout: SnapshotLayout<T>, version: number) {
+    this.layout = layout;
+    this.version = version;
+    this.length = layout.length;
+    Object.freeze(this);
+  }
+
+  /**
+   * Read the item at a logical index in O(1).
+   *
+   * @param index - Logical index (0 = oldest, negative counts from the newest)
+   * @returns The item, or undefined if the index is out of range
+   */
+  at(index: number): T | undefined {
+    if (!Number.isInteger(index)) return undefined;
+    const logical = index < 0 ? this.length + index : index;
+    if (logical < 0 || logical >= this.length) return undefined;
+
+    const position = this.layout.start + logical;
+    const chunk = Math.floor(position / CHUNK_SIZE);
+    return this.layout.chunks[chunk - this.layout.firstChunk][
+      position - chunk * CHUNK_SIZE
+    ];
+  }
+
+  /**
+   * Call `callback` for every item (oldest -> newest).
+   */
+  forEach(callback: (item: T, index: number) => void): void {
+    let index = 0;
+    for (const item of this) callback(item, index++);
+  }
+
+  /**
+   * @returns A new array with `callback` applied to every item (oldest -> newest)
+   */
+  map<U>(callback: (item: T, index: number) => U): U[] {
+    const result = new Array<U>(this.length);
+    let index = 0;
+    for (const item of this) {
+      result[index] = callback(item, index);
+      index++;
+    }
+    return result;
+  }
+
+  /**
+   * @returns A new array holding all items (oldest -> newest)
+   */
+  toArray(): T[] {
+    return this.map((item) => item);
+  }
+
+  /**
+   * Fold all items (oldest -> newest) into one value, like
+   * `Array.prototype.reduce`.
+   *
+   * @throws TypeError if the snapshot is empty and no initial value is given
+   */
+  reduce(callback: (accumulator: T, item: T, index: number) => T): T;
+  reduce<U>(
+    callback: (accumulator: U, item: T, index: number) => U,
+    initialValue: U
+  ): U;
+  reduce<U>(
+    callback: (accumulator: U, item: T, index: number) => U,
+    ...initial: [U?]
+  ): U {
+    return reduceItems(this, callback, initial);
+  }
+
+  /**
+   * @returns The oldest item matching `predicate`, or undefined
+   */
+  find(predicate: (item: T, index: number) => boolean): T | undefined {
+    return findItem(this, predicate);
+  }
+
+  /**
+   * @returns The newest item matching `predicate`, or undefined
+   */
+  findLast(predicate: (item: T, index: number) => boolean): T | undefined {
+    return findLastItem(this, predicate);
+  }
+
+  /**
+   * @returns True if `predicate` matches at least one item
+   */
+  some(predicate: (item: T, index: number) => boolean): boolean {
+    return findIndex(this, predicate) !== -1;
+  }
+
+  /**
+   * @returns True if `predicate` matches every item (true when empty)
+   */
+  every(predicate: (item: T, index: number) => boolean): boolean {
+    return everyItem(this, predicate);
+  }
+
+  /**
+   * Whether the snapshot holds `item` (SameValueZero).
+   *
+   * @param fromIndex - Index to start at (negative counts from the newest)
+   */
+  includes(item: T, fromIndex = 0): boolean {
+    return indexOfItem(this, item, fromIndex, true) !== -1;
+  }
+
+  /**
+   * Index of the oldest occurrence of `item` (strict equality).
+   *
+   * @param fromIndex - Index to start at (negative counts from the newest)
+   * @returns The index, or -1 if not found
+   */
+  indexOf(item: T, fromIndex = 0): number {
+    return indexOfItem(this, item, fromIndex);
+  }
+
+  /**
+   * Join all items (oldest -> newest) into a string, like
+   * `Array.prototype.join`.
+   */
+  join(separator = ","): string {
+    return joinItems(this, separator);
+  }
+
+  /**
+   * Iterate items from oldest -> newest.
+   */
+  *[Symbol.iterator](): Iterator<T> {
+    const { chunks, firstChunk, start, length } = this.layout;
+    const end = start + length;
+    for (let position = start; position < end; ) {
+      const chunk = Math.floor(position / CHUNK_SIZE);
+      const items = chunks[chunk - firstChunk];
+      const stop = Math.min(end, (chunk + 1) * CHUNK_SIZE);
+      for (; position < stop; position++) {
+        yield items[position - chunk * CHUNK_SIZE];
+      }
+    }
+  }
+}
+
+/**
+ * Produces {@link ImmutableSnapshot}s of a ring, reusing the chunks of the
+ * previous snapshot that hold untouched items.
+ *
+ * Cost per snapshot: O(n / 128) for the chunk list, plus the items pushed
+ * since the previous snapshot and up to two copied edge chunks. Edits away
+ * from both ends (set, middle insert / remove, removeWhere) make the next
+ * snapshot a full O(n) copy.
+ *
+ * @template T - Element type stored in the ring
+ */
+export class SnapshotBuilder<T> {
+  private readonly ring: CircularBuffer<T>;
+  private current: ImmutableSnapshot<T> | null = null;
+  private layout: SnapshotLayout<T> | null = null;
+
+  constructor(ring: CircularBuffer<T>) {
+    this.ring = ring;
+  }
+
+  /**
+   * @param version - Current buffer version (must change with every mutation)
+   * @returns A snapshot of the ring's current items
+   */
+  snapshot(version: number): ImmutableSnapshot<T> {
+    if (this.current && this.current.version === version) return this.current;
+
+    const ring = this.ring;
+    const start = ring.getHeadPosition();
+    const length = ring.getSize();
+    const [keptStart, keptEnd] = ring.getUntouchedRange();
+    const previous = this.layout && keptStart < keptEnd ? this.layout : null;
+    ring.trackChanges();
+
+    const firstChunk = Math.floor(start / CHUNK_SIZE);
+    const lastChunk =
+      length === 0
+        ? firstChunk - 1
+        : Math.floor((start + length - 1) / CHUNK_SIZE);
+    const chunks = new Array<readonly T[]>(lastChunk - firstChunk + 1);
+
+    for (let k = firstChunk; k <= lastChunk; k++) {
+      const low = Math.max(start, k * CHUNK_SIZE);
+      const high = Math.min(start + length, (k + 1) * CHUNK_SIZE);
+      const reusable =
+        previous &&
+        k >= previous.firstChunk &&
+        k < previous.firstChunk + previous.chunks.length
+          ? previous.chunks[k - previous.firstChunk]
+          : undefined;
+
+      if (reusable && low >= keptStart && high <= keptEnd) {
+        chunks[k - firstChunk] = reusable;
+        continue;
+      }
+
+      // Copy on write: published chunks are never modified
+      const chunk = reusable ? reusable.slice() : new Array<T>(CHUNK_SIZE);
+      for (let position = low; position < high; position++) {
+        if (reusable && position >= keptStart && position < keptEnd) continue;
+        chunk[position - k * CHUNK_SIZE] = ring.at(position - start) as T;
+      }
+      chunks[k - firstChunk] = chunk;
+    }
+
+    this.layout = { chunks, firstChunk, start, length };
+    this.current = new ImmutableSnapshot(this.layout, version);
+    return this.current;
+  }
+}
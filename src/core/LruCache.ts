@@ -0,0 +1,321 @@
+import { BufferManager } from "./BufferManager";
+import { systemClock, type Clock } from "./TimeWindowBuffer";
+import { EvictReason, type EvictCallback } from "../types";
+
+/**
+ * Options for {@link LruCache}.
+ *
+ * @template K - Key type
+ * @template V - Value type
+ */
+export interface LruCacheOptions<K, V> {
+  /**
+   * Default time to live of an entry in ms (per entry: `set(k, v, { ttlMs })`).
+   * @default Infinity
+   */
+  ttlMs?: number;
+
+  /**
+   * Called with `[key, value]` pairs lost to capacity (`EvictReason.OVERFLOW`),
+   * expiry (`EXPIRED`), `resize` or `clear` (least -> most recently used),
+   * once per operation. Not called for `delete()` or when `set()` replaces
+   * a value.
+   */
+  onEvict?: EvictCallback<[K, V]>;
+
+  /**
+   * Time source for TTLs.
+   * @default systemClock
+   */
+  clock?: Clock;
+}
+
+/**
+ * Options for {@link LruCache.set}.
+ */
+export interface LruSetOptions {
+  /** Time to live of this entry in ms (overrides the cache default) */
+  ttlMs?: number;
+}
+
+/** Ring slot of a cache entry; superseded slots are marked stale. */
+interface Slot<K, V> {
+  key: K;
+  value: V;
+  expiresAt: number;
+  stale: boolean;
+}
+
+/**
+ * Bounded key-addressable cache with least-recently-used eviction, built on
+ * a {@link BufferManager} ring.
+ *
+ * - Entries are ordered HEAD = least recently used -> TAIL = most recently
+ *   used; `get` and `set` move an entry to TAIL, `peek` and `has` do not
+ * - Once more than `capacity` keys are stored, entries are evicted from HEAD
+ * - Entries with a TTL expire lazily: iteration skips them, and they are
+ *   dropped (reported as `EvictReason.EXPIRED`) when accessed or on `prune()`
+ * - `get` / `set` / `has` / `delete` / `peek` are O(1) amortized: moving an
+ *   entry appends a new ring slot and marks the old one stale; stale slots
+ *   are compacted away once the ring (2 x capacity) fills up
+ *
+ * @example
+ * ```ts
+ * const cache = new LruCache<string, User>(500, { ttlMs: 60_000 });
+ * cache.set(user.id, user);
+ * cache.get(user.id); // user (now the most recently used)
+ * [...cache.keys()]; // least -> most recently used
+ * ```
+ *
+ * @template K - Key type
+ * @template V - Value type
+ */
+export class LruCache<K, V> implements Iterable<[K, V]> {
+  private readonly index = new Map<K, Slot<K, V>>();
+  private readonly order: BufferManager<Slot<K, V>>;
+  private readonly clock: Clock;
+  private readonly ttlMs: number;
+  private readonly onEvict?: EvictCallback<[K, V]>;
+  private maxSize: number;
+
+  private validateTtl(ttlMs: number): void {
+    if (!(ttlMs > 0)) {
+      throw new Error("TTL must be greater than 0");
+    }
+  }
+
+  /**
+   * @param capacity - Maximum number of entries
+   * @param options - Optional TTL, eviction callback and clock
+   */
+  constructor(capacity: number, options: LruCacheOptions<K, V> = {}) {
+    if (!(capacity > 0)) {
+      throw new Error("Capacity must be greater than 0");
+    }
+    this.ttlMs = options.ttlMs ?? Infinity;
+    this.validateTtl(this.ttlMs);
+    this.maxSize = Math.floor(capacity);
+    this.order = new BufferManager<Slot<K, V>>(this.maxSize * 2);
+    this.clock = options.clock ?? systemClock;
+    this.onEvict = options.onEvict;
+  }
+
+  // ============================================================================
+  // Access
+  // ============================================================================
+
+  /**
+   * Read a value and mark it as the most recently used.
+   *
+   * @returns The value, or undefined if missing or expired
+   */
+  get(key: K): V | undefined {
+    const slot = this.lookup(key);
+    if (!slot) return undefined;
+    this.touch(slot);
+    return slot.value;
+  }
+
+  /**
+   * Read a value without changing its recency.
+   *
+   * @returns The value, or undefined if missing or expired
+   */
+  peek(key: K): V | undefined {
+    return this.lookup(key)?.value;
+  }
+
+  /**
+   * @returns True if `key` is stored and not expired (recency unchanged).
+   */
+  has(key: K): boolean {
+    return this.lookup(key) !== undefined;
+  }
+
+  /**
+   * Store a value as the most recently used entry, evicting the least
+   * recently used one(s) if the cache is over capacity.
+   *
+   * @throws Error if `ttlMs` is not greater than 0
+   */
+  set(key: K, value: V, options?: LruSetOptions): this {
+    const ttlMs = options?.ttlMs ?? this.ttlMs;
+    if (options?.ttlMs !== undefined) this.validateTtl(ttlMs);
+
+    const previous = this.index.get(key);
+    if (previous) previous.stale = true;
+    const slot: Slot<K, V> = {
+      key,
+      value,
+      expiresAt: this.clock.now() + ttlMs,
+      stale: false,
+    };
+    this.index.set(key, slot);
+    this.append(slot);
+    this.evictOverflow(EvictReason.OVERFLOW);
+    return this;
+  }
+
+  /**
+   * Remove an entry (not reported to `onEvict`).
+   *
+   * @returns True if a live entry was removed
+   */
+  delete(key: K): boolean {
+    const slot = this.lookup(key);
+    if (!slot) return false;
+    this.remove(slot);
+    return true;
+  }
+
+  /**
+   * Remove every entry (reported to `onEvict` as `EvictReason.CLEAR`).
+   */
+  clear(): void {
+    const evicted = [...this];
+    this.index.clear();
+    this.order.clear();
+    if (evicted.length > 0) this.onEvict?.(evicted, EvictReason.CLEAR);
+  }
+
+  /**
+   * Drop every expired entry now (reported as `EvictReason.EXPIRED`).
+   *
+   * @returns Number of entries dropped
+   */
+  prune(): number {
+    const now = this.clock.now();
+    const expired: [K, V][] = [];
+    for (const slot of this.index.values()) {
+      if (slot.expiresAt > now) continue;
+      expired.push([slot.key, slot.value]);
+      this.remove(slot);
+    }
+    if (expired.length > 0) this.onEvict?.(expired, EvictReason.EXPIRED);
+    return expired.length;
+  }
+
+  /**
+   * Change the capacity; the least recently used entries are evicted
+   * (`EvictReason.RESIZE`) when shrinking.
+   */
+  resize(newCapacity: number): void {
+    if (!(newCapacity > 0)) {
+      throw new Error("Capacity must be greater than 0");
+    }
+    this.maxSize = Math.floor(newCapacity);
+    this.evictOverflow(EvictReason.RESIZE);
+    this.compactOrder();
+    this.order.resize(this.maxSize * 2);
+  }
+
+  // ============================================================================
+  // Recency bookkeeping
+  // ============================================================================
+
+  /**
+   * @returns The live slot for `key`, dropping it first if it has expired.
+   */
+  private lookup(key: K): Slot<K, V> | undefined {
+    const slot = this.index.get(key);
+    if (!slot) return undefined;
+    if (slot.expiresAt > this.clock.now()) return slot;
+
+    this.remove(slot);
+    this.onEvict?.([[slot.key, slot.value]], EvictReason.EXPIRED);
+    return undefined;
+  }
+
+  /** Move a live slot to TAIL (most recently used). */
+  private touch(slot: Slot<K, V>): void {
+    if (this.order.getTail() === slot) return;
+    slot.stale = true;
+    const moved: Slot<K, V> = { ...slot, stale: false };
+    this.index.set(slot.key, moved);
+    this.append(moved);
+  }
+
+  private append(slot: Slot<K, V>): void {
+    if (this.order.isFull()) this.compactOrder();
+    this.order.pushTail(slot);
+  }
+
+  private remove(slot: Slot<K, V>): void {
+    slot.stale = true;
+    this.index.delete(slot.key);
+    this.dropStaleHead();
+  }
+
+  /** Evict least recently used entries until the capacity is respected. */
+  private evictOverflow(reason: EvictReason): void {
+    const evicted: [K, V][] = [];
+    while (this.index.size > this.maxSize) {
+      const slot = this.order.popHead() as Slot<K, V>;
+      if (slot.stale) continue;
+      this.index.delete(slot.key);
+      evicted.push([slot.key, slot.value]);
+    }
+    this.dropStaleHead();
+    if (evicted.length > 0) this.onEvict?.(evicted, reason);
+  }
+
+  private dropStaleHead(): void {
+    while (this.order.getHead()?.stale) this.order.popHead();
+  }
+
+  /** Remove stale slots: at most every `capacity` moves, so O(1) amortized. */
+  private compactOrder(): void {
+    this.order.removeWhere((slot) => slot.stale);
+  }
+
+  // ============================================================================
+  // Info / iteration
+  // ============================================================================
+
+  /**
+   * @returns Number of stored entries (expired ones count until they are
+   * accessed or pruned).
+   */
+  size(): number {
+    return this.index.size;
+  }
+
+  /**
+   * @returns Maximum number of entries.
+   */
+  capacity(): number {
+    return this.maxSize;
+  }
+
+  /**
+   * Iterate live `[key, value]` pairs from least to most recently used
+   * (HEAD -> TAIL) without changing recency.
+   */
+  *entries(): IterableIterator<[K, V]> {
+    const now = this.clock.now();
+    for (const slot of this.order) {
+      if (!slot.stale && slot.expiresAt > now) yield [slot.key, slot.value];
+    }
+  }
+
+  /**
+   * Iterate live keys from least to most recently used.
+   */
+  *keys(): IterableIterator<K> {
+    for (const [key] of this.entries()) yield key;
+  }
+
+  /**
+   * Iterate live values from least to most recently used.
+   */
+  *values(): IterableIterator<V> {
+    for (const [, value] of this.entries()) yield value;
+  }
+
+  /**
+   * Same as {@link entries}.
+   */
+  [Symbol.iterator](): IterableIterator<[K, V]> {
+    return this.entries();
+  }
+}
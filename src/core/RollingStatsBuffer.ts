@@ -0,0 +1,521 @@
+import { CircularBuffer } from "./CircularBuffer";
+import {
+  Float64RingBuffer,
+  type TypedRingBufferOptions,
+} from "./TypedRingBuffer";
+import {
+  Direction,
+  OverflowPolicy,
+  PushResult,
+  type EvictCallback,
+  type EvictReason,
+} from "../types";
+
+/**
+ * Options for {@link RollingStatsBuffer}.
+ */
+export type RollingStatsBufferOptions = Pick<
+  TypedRingBufferOptions,
+  "overflow" | "onEvict"
+>;
+
+/**
+ * Statistics over the current window.
+ */
+export interface RollingStats {
+  count: number;
+  sum: number;
+  /** NaN when empty */
+  mean: number;
+  /** Population variance (NaN when empty) */
+  variance: number;
+  /** Population standard deviation (NaN when empty) */
+  stddev: number;
+  /** undefined when empty */
+  min: number | undefined;
+  /** undefined when empty */
+  max: number | undefined;
+}
+
+/**
+ * Window positions whose value beats every later value (suffix extrema),
+ * kept in a ring of absolute positions. The front is the window's extremum.
+ *
+ * - Appending (TAIL) / dropping the oldest (HEAD) is amortized O(1)
+ * - Prepending (HEAD) is O(1)
+ * - Dropping newest items (TAIL) rescans the items after the new back
+ */
+class MonotonicDeque {
+  private readonly positions: CircularBuffer<number>;
+  private readonly beats: (a: number, b: number) => boolean;
+  private readonly valueAt: (position: number) => number;
+
+  /**
+   * @param capacity - Maximum window size
+   * @param beats - True if `a` strictly beats `b` (e.g. `a < b` for a minimum)
+   * @param valueAt - Value at an absolute window position
+   */
+  constructor(
+    capacity: number,
+    beats: (a: number, b: number) => boolean,
+    valueAt: (position: number) => number
+  ) {
+    this.positions = new CircularBuffer<number>(capacity);
+    this.beats = beats;
+    this.valueAt = valueAt;
+  }
+
+  private peek(direction: Direction): number | undefined {
+    return this.positions.get(direction) as number | undefined;
+  }
+
+  /** @returns Absolute position of the extremum, or undefined if empty. */
+  front(): number | undefined {
+    return this.peek(Direction.HEAD);
+  }
+
+  /** Account for a value appended at `position` (newest). */
+  pushBack(position: number): void {
+    const value = this.valueAt(position);
+    let back = this.peek(Direction.TAIL);
+    while (back !== undefined && !this.beats(this.valueAt(back), value)) {
+      this.positions.pop(Direction.TAIL);
+      back = this.peek(Direction.TAIL);
+    }
+    this.positions.push(position, Direction.TAIL);
+  }
+
+  /** Account for a value prepended at `position` (oldest). */
+  pushFront(position: number): void {
+    const front = this.peek(Direction.HEAD);
+    if (
+      front === undefined ||
+      this.beats(this.valueAt(position), this.valueAt(front))
+    ) {
+      this.positions.push(position, Direction.HEAD);
+    }
+  }
+
+  /** Account for the oldest items being removed up to (excluding) `first`. */
+  truncateFront(first: number): void {
+    let front = this.peek(Direction.HEAD);
+    while (front !== undefined && front < first) {
+      this.positions.pop(Direction.HEAD);
+      front = this.peek(Direction.HEAD);
+    }
+  }
+
+  /** Account for the newest items being removed after `last`. */
+  truncateBack(first: number, last: number): void {
+    let back = this.peek(Direction.TAIL);
+    while (back !== undefined && back > last) {
+      this.positions.pop(Direction.TAIL);
+      back = this.peek(Direction.TAIL);
+    }
+    // Items that only lost to removed ones become candidates again
+    for (let p = back === undefined ? first : back + 1; p <= last; p++) {
+      this.pushBack(p);
+    }
+  }
+
+  clear(): void {
+    this.positions.clear();
+  }
+
+  resize(capacity: number): void {
+    this.positions.resize(capacity);
+  }
+}
+
+/**
+ * A numeric ring buffer (Float64 storage) that maintains rolling statistics
+ * over its window in O(1) per sample:
+ *
+ * - sum with Kahan-Babuska (Neumaier) compensation
+ * - mean and variance with Welford's algorithm (including removals)
+ * - min / max with monotonic deques
+ *
+ * Statistics follow pushes, pops, overwrites and resizes from either direction.
+ * Appending at TAIL while evicting from HEAD is the O(1) fast path; removing
+ * newest items may rescan part of the window for min / max.
+ *
+ * @example
+ * ```ts
+ * const temps = new RollingStatsBuffer(60);
+ * temps.pushTail(21.5);
+ * temps.mean(); temps.stddev(); temps.max();
+ * ```
+ */
+export class RollingStatsBuffer {
+  private readonly buffer: Float64RingBuffer;
+  private readonly onEvict?: EvictCallback<number>;
+  private readonly minDeque: MonotonicDeque;
+  private readonly maxDeque: MonotonicDeque;
+
+  /** Absolute position of the oldest item */
+  private first = 0;
+  /** Collects items overwritten by the current push */
+  private evicted: number[] | null = null;
+
+  // Running accumulators
+  private total = 0;
+  private compensation = 0;
+  private average = 0;
+  private m2 = 0;
+
+  /**
+   * @param capacity - Maximum number of samples in the window
+   * @param options - Optional configuration (overflow policy, eviction callback)
+   */
+  constructor(capacity: number, options?: RollingStatsBufferOptions) {
+    this.onEvict = options?.onEvict;
+    this.buffer = new Float64RingBuffer(capacity, {
+      overflow: options?.overflow,
+      onEvict: (items, reason) => this.captureEvicted(items, reason),
+    });
+    const valueAt = (position: number) =>
+      this.buffer.at(position - this.first) as number;
+    this.minDeque = new MonotonicDeque(capacity, (a, b) => a < b, valueAt);
+    this.maxDeque = new MonotonicDeque(capacity, (a, b) => a > b, valueAt);
+  }
+
+  private captureEvicted(items: number[], reason: EvictReason): void {
+    this.evicted?.push(...items);
+    this.onEvict?.(items, reason);
+  }
+
+  // ============================================================================
+  // Accumulators
+  // ============================================================================
+
+  /** Neumaier compensated summation step. */
+  private accumulate(value: number): void {
+    const next = this.total + value;
+    if (Math.abs(this.total) >= Math.abs(value)) {
+      this.compensation += this.total - next + value;
+    } else {
+      this.compensation += value - next + this.total;
+    }
+    this.total = next;
+  }
+
+  /** Welford update for values entering the window. */
+  private include(values: ArrayLike<number>, countBefore: number): void {
+    let n = countBefore;
+    for (let i = 0; i < values.length; i++) {
+      const value = values[i];
+      n++;
+      const delta = value - this.average;
+      this.average += delta / n;
+      this.m2 += delta * (value - this.average);
+      this.accumulate(value);
+    }
+  }
+
+  /** Inverse Welford update for values leaving the window. */
+  private exclude(values: ArrayLike<number>, countBefore: number): void {
+    let n = countBefore;
+    for (let i = 0; i < values.length; i++) {
+      const value = values[i];
+      n--;
+      if (n === 0) {
+        this.resetAccumulators();
+        continue;
+      }
+      const delta = value - this.average;
+      this.average -= delta / n;
+      this.m2 = Math.max(0, this.m2 - delta * (value - this.average));
+      this.accumulate(-value);
+    }
+  }
+
+  private resetAccumulators(): void {
+    this.total = 0;
+    this.compensation = 0;
+    this.average = 0;
+    this.m2 = 0;
+  }
+
+  /** Update all statistics after items left HEAD and/or entered at TAIL. */
+  private applyTail(
+    removed: number[],
+    added: readonly number[],
+    sizeBefore: number
+  ): void {
+    this.first += removed.length;
+    this.minDeque.truncateFront(this.first);
+    this.maxDeque.truncateFront(this.first);
+    this.exclude(removed, sizeBefore);
+
+    const start = this.first + sizeBefore - removed.length;
+    for (let i = 0; i < added.length; i++) {
+      this.minDeque.pushBack(start + i);
+      this.maxDeque.pushBack(start + i);
+    }
+    this.include(added, sizeBefore - removed.length);
+  }
+
+  /** Update all statistics after items left TAIL and/or entered at HEAD. */
+  private applyHead(
+    removed: number[],
+    added: readonly number[],
+    sizeBefore: number
+  ): void {
+    this.first -= added.length;
+    const last = this.first + added.length + sizeBefore - removed.length - 1;
+    this.minDeque.truncateBack(this.first + added.length, last);
+    this.maxDeque.truncateBack(this.first + added.length, last);
+    this.exclude(removed, sizeBefore);
+
+    for (let i = added.length - 1; i >= 0; i--) {
+      this.minDeque.pushFront(this.first + i);
+      this.maxDeque.pushFront(this.first + i);
+    }
+    this.include(added, sizeBefore - removed.length);
+  }
+
+  /**
+   * Run a push on the underlying buffer and derive which items were stored
+   * and which existing items were overwritten.
+   */
+  private push(
+    input: number | readonly number[],
+    direction: Direction
+  ): PushResult {
+    const items: readonly number[] = Array.isArray(input)
+      ? input
+      : [input as number];
+    const sizeBefore = this.buffer.size();
+    const evicted: number[] = [];
+    this.evicted = evicted;
+
+    let result: PushResult;
+    try {
+      result =
+        direction === Direction.TAIL
+          ? this.buffer.pushTail(items)
+          : this.buffer.pushHead(items);
+    } finally {
+      this.evicted = null;
+    }
+
+    // Stored input items: the newest side of the input for OVERWRITE,
+    // the side nearest the existing items otherwise
+    const overwrite = this.buffer.overflowPolicy() === OverflowPolicy.OVERWRITE;
+    const stored = overwrite
+      ? Math.min(items.length, this.buffer.capacity())
+      : this.buffer.size() - sizeBefore;
+    const overwritten = sizeBefore + stored - this.buffer.size();
+
+    if (direction === Direction.TAIL) {
+      this.applyTail(
+        evicted.slice(0, overwritten),
+        overwrite ? items.slice(items.length - stored) : items.slice(0, stored),
+        sizeBefore
+      );
+    } else {
+      this.applyHead(
+        evicted.slice(evicted.length - overwritten),
+        overwrite ? items.slice(0, stored) : items.slice(items.length - stored),
+        sizeBefore
+      );
+    }
+    return result;
+  }
+
+  // ============================================================================
+  // Push / pop
+  // ============================================================================
+
+  /**
+   * Append sample(s) at TAIL (newest). Overflow follows the buffer's policy.
+   */
+  pushTail(input: number | readonly number[]): PushResult {
+    return this.push(input, Direction.TAIL);
+  }
+
+  /**
+   * Prepend sample(s) at HEAD (oldest). Overflow follows the buffer's policy.
+   */
+  pushHead(input: number | readonly number[]): PushResult {
+    return this.push(input, Direction.HEAD);
+  }
+
+  /**
+   * Remove and return sample(s) from HEAD (oldest).
+   */
+  popHead(): number | undefined;
+  popHead(count: number): number[];
+  popHead(count?: number): number | undefined | number[] {
+    const sizeBefore = this.buffer.size();
+    const removed = this.buffer.popHead(count ?? 1);
+    this.applyTail(removed, [], sizeBefore);
+    return count === undefined ? removed[0] : removed;
+  }
+
+  /**
+   * Remove and return sample(s) from TAIL (newest -> older).
+   */
+  popTail(): number | undefined;
+  popTail(count: number): number[];
+  popTail(count?: number): number | undefined | number[] {
+    const sizeBefore = this.buffer.size();
+    const removed = this.buffer.popTail(count ?? 1);
+    this.applyHead(removed, [], sizeBefore);
+    return count === undefined ? removed[0] : removed;
+  }
+
+  /**
+   * Remove all samples (evicted with reason `clear`).
+   */
+  clear(): void {
+    this.buffer.clear();
+    this.minDeque.clear();
+    this.maxDeque.clear();
+    this.first = 0;
+    this.resetAccumulators();
+  }
+
+  /**
+   * Resize the window; shrinking discards the oldest samples (reason `resize`).
+   */
+  resize(newCapacity: number): void {
+    const sizeBefore = this.buffer.size();
+    const dataLoss = sizeBefore - newCapacity;
+    const discarded =
+      newCapacity > 0 && dataLoss > 0 ? this.buffer.getHead(dataLoss) : [];
+    this.buffer.resize(newCapacity);
+    this.applyTail(discarded, [], sizeBefore);
+    this.minDeque.resize(newCapacity);
+    this.maxDeque.resize(newCapacity);
+  }
+
+  /**
+   * Recompute every statistic from the current window in O(n), discarding
+   * accumulated rounding error.
+   */
+  recompute(): void {
+    const values = this.buffer.toTypedArray();
+    this.minDeque.clear();
+    this.maxDeque.clear();
+    this.first = 0;
+    this.resetAccumulators();
+    this.applyTail([], Array.from(values), 0);
+  }
+
+  // ============================================================================
+  // Statistics (O(1))
+  // ============================================================================
+
+  /** @returns Number of samples in the window. */
+  count(): number {
+    return this.buffer.size();
+  }
+
+  /** @returns Compensated sum of the window (0 when empty). */
+  sum(): number {
+    return this.total + this.compensation;
+  }
+
+  /** @returns Mean of the window (NaN when empty). */
+  mean(): number {
+    return this.count() === 0 ? NaN : this.average;
+  }
+
+  /** @returns Population variance (NaN when empty). */
+  variance(): number {
+    const n = this.count();
+    return n === 0 ? NaN : this.m2 / n;
+  }
+
+  /** @returns Sample variance, n - 1 denominator (NaN with fewer than 2 samples). */
+  sampleVariance(): number {
+    const n = this.count();
+    return n < 2 ? NaN : this.m2 / (n - 1);
+  }
+
+  /** @returns Population standard deviation (NaN when empty). */
+  stddev(): number {
+    return Math.sqrt(this.variance());
+  }
+
+  /** @returns Sample standard deviation (NaN with fewer than 2 samples). */
+  sampleStddev(): number {
+    return Math.sqrt(this.sampleVariance());
+  }
+
+  /** @returns Smallest sample in the window. */
+  min(): number | undefined {
+    const position = this.minDeque.front();
+    return position === undefined
+      ? undefined
+      : this.buffer.at(position - this.first);
+  }
+
+  /** @returns Largest sample in the window. */
+  max(): number | undefined {
+    const position = this.maxDeque.front();
+    return position === undefined
+      ? undefined
+      : this.buffer.at(position - this.first);
+  }
+
+  /** @returns All statistics at once. */
+  stats(): RollingStats {
+    return {
+      count: this.count(),
+      sum: this.sum(),
+      mean: this.mean(),
+      variance: this.variance(),
+      stddev: this.stddev(),
+      min: this.min(),
+      max: this.max(),
+    };
+  }
+
+  // ============================================================================
+  // Read
+  // ============================================================================
+
+  /** @returns Sample at a logical index (0 = oldest, -1 = newest). */
+  at(index: number): number | undefined {
+    return this.buffer.at(index);
+  }
+
+  /** @returns All samples (oldest -> newest). */
+  getAll(): number[] {
+    return this.buffer.getAll();
+  }
+
+  /** @returns A new `Float64Array` of all samples (oldest -> newest). */
+  toTypedArray(): Float64Array {
+    return this.buffer.toTypedArray();
+  }
+
+  /** @returns Maximum number of samples. */
+  capacity(): number {
+    return this.buffer.capacity();
+  }
+
+  /** @returns True if empty. */
+  isEmpty(): boolean {
+    return this.buffer.isEmpty();
+  }
+
+  /** @returns True if full. */
+  isFull(): boolean {
+    return this.buffer.isFull();
+  }
+
+  /** @returns Overflow policy applied when pushing into a full window. */
+  overflowPolicy(): OverflowPolicy {
+    return this.buffer.overflowPolicy();
+  }
+
+  /**
+   * Iterate samples (oldest -> newest).
+   */
+  *[Symbol.iterator](): Iterator<number> {
+    yield* this.buffer;
+  }
+}
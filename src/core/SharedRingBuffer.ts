@@ -0,0 +1,444 @@
+import { BufferOverflowError } from "./errors";
+import type { NumericArray } from "./TypedRingBuffer";
+import { Direction, OverflowPolicy, PushResult } from "../types";
+
+/**
+ * Element types a {@link SharedRingBuffer} can store.
+ *
+ * The index in this list is recorded in the shared header so that
+ * {@link SharedRingBuffer.from} can re-create the same view in another thread.
+ */
+const ELEMENT_TYPES = [
+  "float64",
+  "float32",
+  "int32",
+  "uint32",
+  "int16",
+  "uint16",
+  "int8",
+  "uint8",
+] as const;
+
+export type SharedElementType = (typeof ELEMENT_TYPES)[number];
+
+interface SharedArrayConstructor {
+  new (
+    buffer: SharedArrayBuffer,
+    byteOffset: number,
+    length: number
+  ): NumericArray;
+  readonly BYTES_PER_ELEMENT: number;
+}
+
+const ARRAY_TYPES: Record<SharedElementType, SharedArrayConstructor> = {
+  float64: Float64Array,
+  float32: Float32Array,
+  int32: Int32Array,
+  uint32: Uint32Array,
+  int16: Int16Array,
+  uint16: Uint16Array,
+  int8: Int8Array,
+  uint8: Uint8Array,
+};
+
+// Header layout (Int32 slots). 32 bytes keeps the data section 8-byte aligned.
+const HEAD = 0; // next read index (owned by the consumer)
+const TAIL = 1; // next write index (owned by the producer)
+const SLOTS = 2; // physical slots (capacity + 1)
+const TYPE = 3; // index into ELEMENT_TYPES
+const CLOSED = 4; // 1 once the producer has closed the ring
+const SIGNAL = 5; // bumped on every publish / close; consumers wait on it
+const HEADER_INTS = 8;
+const HEADER_BYTES = HEADER_INTS * Int32Array.BYTES_PER_ELEMENT;
+
+/**
+ * Options for {@link SharedRingBuffer.create}.
+ */
+export interface SharedRingBufferOptions {
+  /**
+   * Numeric element type of the ring.
+   * @default "float64"
+   */
+  type?: SharedElementType;
+}
+
+/**
+ * Options for {@link SharedRingBuffer.producer}.
+ */
+export interface SharedRingProducerOptions {
+  /**
+   * What to do when pushing into a full ring.
+   *
+   * The producer cannot move the consumer's head, so OVERWRITE is not supported.
+   * @default OverflowPolicy.REJECT
+   */
+  overflow?: OverflowPolicy;
+}
+
+/**
+ * Shared views handed to producer / consumer handles.
+ * @internal
+ */
+export interface SharedRingState {
+  header: Int32Array;
+  data: NumericArray;
+  slots: number;
+}
+
+function sizeOf(state: SharedRingState): number {
+  const head = Atomics.load(state.header, HEAD);
+  const tail = Atomics.load(state.header, TAIL);
+  return (tail - head + state.slots) % state.slots;
+}
+
+/**
+ * A single-producer / single-consumer ring of numbers living in a
+ * `SharedArrayBuffer`, for passing samples between threads without `postMessage`.
+ *
+ * - Lock-free: the producer owns the tail index, the consumer owns the head index,
+ *   both published with `Atomics`
+ * - Mirrors {@link CircularBuffer} semantics: the producer pushes to TAIL
+ *   (newest), the consumer pops from HEAD (oldest)
+ * - Exactly one producer handle and one consumer handle may be used at a time
+ *   (typically one per thread)
+ *
+ * @example
+ * ```ts
+ * // main thread
+ * const ring = SharedRingBuffer.create(1024);
+ * worker.postMessage(ring.buffer);
+ * const consumer = ring.consumer();
+ *
+ * // worker
+ * const producer = SharedRingBuffer.from(buffer).producer();
+ * producer.pushTail(42);
+ * ```
+ */
+export class SharedRingBuffer {
+  /** The shared memory; send it to another thread and attach with {@link SharedRingBuffer.from}. */
+  readonly buffer: SharedArrayBuffer;
+  private readonly state: SharedRingState;
+
+  private constructor(buffer: SharedArrayBuffer) {
+    if (buffer.byteLength < HEADER_BYTES) {
+      throw new Error("Invalid shared ring: buffer too small");
+    }
+    const header = new Int32Array(buffer, 0, HEADER_INTS);
+    const slots = Atomics.load(header, SLOTS);
+    const type = ELEMENT_TYPES[Atomics.load(header, TYPE)];
+    if (slots < 2 || type === undefined) {
+      throw new Error("Invalid shared ring: corrupt header");
+    }
+
+    const ArrayType = ARRAY_TYPES[type];
+    const byteLength = HEADER_BYTES + slots * ArrayType.BYTES_PER_ELEMENT;
+    if (buffer.byteLength < byteLength) {
+      throw new Error("Invalid shared ring: buffer too small");
+    }
+
+    this.buffer = buffer;
+    this.state = {
+      header,
+      data: new ArrayType(buffer, HEADER_BYTES, slots),
+      slots,
+    };
+  }
+
+  /**
+   * Allocate a new shared ring.
+   *
+   * @param capacity - Maximum number of items (must be > 0)
+   * @param options - Optional configuration (element type)
+   */
+  static create(
+    capacity: number,
+    options?: SharedRingBufferOptions
+  ): SharedRingBuffer {
+    if (!Number.isInteger(capacity) || capacity <= 0) {
+      throw new Error("Capacity must be greater than 0");
+    }
+    const type = options?.type ?? "float64";
+    const typeCode = ELEMENT_TYPES.indexOf(type);
+    if (typeCode === -1) {
+      throw new Error(`Invalid element type: ${String(type)}`);
+    }
+
+    // One slot stays empty to tell "full" from "empty" without a shared counter
+    const slots = capacity + 1;
+    const buffer = new SharedArrayBuffer(
+      HEADER_BYTES + slots * ARRAY_TYPES[type].BYTES_PER_ELEMENT
+    );
+    const header = new Int32Array(buffer, 0, HEADER_INTS);
+    Atomics.store(header, SLOTS, slots);
+    Atomics.store(header, TYPE, typeCode);
+
+    return new SharedRingBuffer(buffer);
+  }
+
+  /**
+   * Attach to a ring created (possibly in another thread) by {@link SharedRingBuffer.create}.
+   */
+  static from(buffer: SharedArrayBuffer): SharedRingBuffer {
+    return new SharedRingBuffer(buffer);
+  }
+
+  /**
+   * Create the producer handle (push to TAIL). Use from one thread only.
+   */
+  producer(options?: SharedRingProducerOptions): SharedRingProducer {
+    return new SharedRingProducer(this.state, options);
+  }
+
+  /**
+   * Create the consumer handle (pop from HEAD). Use from one thread only.
+   */
+  consumer(): SharedRingConsumer {
+    return new SharedRingConsumer(this.state);
+  }
+
+  /**
+   * @returns Current number of items (a snapshot; the other side may change it concurrently).
+   */
+  size(): number {
+    return sizeOf(this.state);
+  }
+
+  /**
+   * @returns Maximum number of items.
+   */
+  capacity(): number {
+    return this.state.slots - 1;
+  }
+
+  /**
+   * @returns Numeric element type of the ring.
+   */
+  elementType(): SharedElementType {
+    return ELEMENT_TYPES[this.state.header[TYPE]];
+  }
+
+  /**
+   * @returns True once the producer has called `close()`.
+   */
+  isClosed(): boolean {
+    return Atomics.load(this.state.header, CLOSED) === 1;
+  }
+}
+
+/**
+ * Producer side of a {@link SharedRingBuffer}: pushes to TAIL (newest).
+ */
+export class SharedRingProducer {
+  private readonly state: SharedRingState;
+  private readonly overflow: OverflowPolicy;
+
+  /** @internal Use {@link SharedRingBuffer.producer}. */
+  constructor(state: SharedRingState, options?: SharedRingProducerOptions) {
+    const overflow = options?.overflow ?? OverflowPolicy.REJECT;
+    if (overflow === OverflowPolicy.OVERWRITE) {
+      throw new Error(
+        "OverflowPolicy.OVERWRITE is not supported by SharedRingBuffer"
+      );
+    }
+    if (!Object.values(OverflowPolicy).includes(overflow)) {
+      throw new Error(`Invalid overflow policy: ${String(overflow)}`);
+    }
+    this.state = state;
+    this.overflow = overflow;
+  }
+
+  /**
+   * Push value(s) to the tail (newest side).
+   *
+   * A batch is published with a single atomic store, so the consumer sees it
+   * all at once.
+   *
+   * Overflow:
+   * - REJECT / THROW: a batch is accepted only if it fits entirely
+   * - DROP: values that do not fit are discarded (the head end of the input is kept)
+   *
+   * @returns What happened to the value(s)
+   */
+  pushTail(value: number): PushResult;
+  pushTail(values: ArrayLike<number>): PushResult;
+  pushTail(input: number | ArrayLike<number>): PushResult {
+    const { header, data, slots } = this.state;
+    const values = typeof input === "number" ? [input] : input;
+    if (values.length === 0) return PushResult.ADDED;
+
+    const head = Atomics.load(header, HEAD);
+    let tail = Atomics.load(header, TAIL);
+    const free = slots - 1 - (tail - head + slots) % slots;
+
+    let count = values.length;
+    let result: PushResult = PushResult.ADDED;
+    if (count > free) {
+      if (this.overflow === OverflowPolicy.THROW) {
+        throw new BufferOverflowError(slots - 1, Direction.TAIL, count);
+      }
+      if (this.overflow === OverflowPolicy.REJECT) return PushResult.REJECTED;
+      count = free;
+      result = PushResult.DROPPED;
+    }
+    if (count === 0) return result;
+
+    for (let i = 0; i < count; i++) {
+      data[tail] = values[i];
+      tail = (tail + 1) % slots;
+    }
+    // Publish after the data writes, then wake a blocked consumer
+    Atomics.store(header, TAIL, tail);
+    Atomics.add(header, SIGNAL, 1);
+    Atomics.notify(header, SIGNAL);
+    return result;
+  }
+
+  /**
+   * Mark the ring as closed; blocked consumers wake up once it is drained.
+   */
+  close(): void {
+    Atomics.store(this.state.header, CLOSED, 1);
+    Atomics.add(this.state.header, SIGNAL, 1);
+    Atomics.notify(this.state.header, SIGNAL);
+  }
+
+  /**
+   * @returns Current number of items.
+   */
+  size(): number {
+    return sizeOf(this.state);
+  }
+
+  /**
+   * @returns Remaining free slots.
+   */
+  available(): number {
+    return this.state.slots - 1 - sizeOf(this.state);
+  }
+
+  /**
+   * @returns True if full.
+   */
+  isFull(): boolean {
+    return this.available() === 0;
+  }
+}
+
+/**
+ * Consumer side of a {@link SharedRingBuffer}: pops from HEAD (oldest).
+ */
+export class SharedRingConsumer {
+  private readonly state: SharedRingState;
+
+  /** @internal Use {@link SharedRingBuffer.consumer}. */
+  constructor(state: SharedRingState) {
+    this.state = state;
+  }
+
+  /**
+   * Pop (remove and return) value(s) from the head (oldest).
+   *
+   * - `popHead()` returns a single value, or undefined if empty
+   * - `popHead(n)` returns up to `n` values (oldest -> newer)
+   */
+  popHead(): number | undefined;
+  popHead(count: number): number[];
+  popHead(count?: number): number | undefined | number[] {
+    const { header, data, slots } = this.state;
+    const head = Atomics.load(header, HEAD);
+    const tail = Atomics.load(header, TAIL);
+    const size = (tail - head + slots) % slots;
+
+    if (count === undefined) {
+      if (size === 0) return undefined;
+      const value = data[head];
+      Atomics.store(header, HEAD, (head + 1) % slots);
+      return value;
+    }
+
+    const n = Math.min(Math.max(0, Math.floor(count)), size);
+    const result = new Array<number>(n);
+    for (let i = 0; i < n; i++) {
+      result[i] = data[(head + i) % slots];
+    }
+    if (n > 0) Atomics.store(header, HEAD, (head + n) % slots);
+    return result;
+  }
+
+  /**
+   * Pop up to `target.length - offset` values into `target` without allocating.
+   *
+   * @returns Number of values written
+   */
+  popHeadInto(target: NumericArray, offset = 0): number {
+    const { header, data, slots } = this.state;
+    const head = Atomics.load(header, HEAD);
+    const tail = Atomics.load(header, TAIL);
+    const n = Math.min((tail - head + slots) % slots, target.length - offset);
+    if (n <= 0) return 0;
+
+    for (let i = 0; i < n; i++) {
+      target[offset + i] = data[(head + i) % slots];
+    }
+    Atomics.store(header, HEAD, (head + n) % slots);
+    return n;
+  }
+
+  /**
+   * Pop the oldest value, blocking with `Atomics.wait` until one arrives.
+   *
+   * Blocking is only allowed where `Atomics.wait` is (workers, Node main thread);
+   * browsers throw on their main thread.
+   *
+   * @param timeoutMs - Maximum time to wait (default: forever)
+   * @returns The value, or undefined on timeout or when the ring is closed and drained
+   */
+  waitPopHead(timeoutMs = Infinity): number | undefined {
+    const { header } = this.state;
+    const deadline = Date.now() + timeoutMs;
+
+    for (;;) {
+      // Read the signal first: any publish / close after this wakes the wait below
+      const signal = Atomics.load(header, SIGNAL);
+
+      const value = this.popHead();
+      if (value !== undefined) return value;
+      if (Atomics.load(header, CLOSED) === 1) return undefined;
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) return undefined;
+
+      Atomics.wait(header, SIGNAL, signal, remaining);
+    }
+  }
+
+  /**
+   * Peek the oldest value without removing it.
+   */
+  getHead(): number | undefined {
+    const { header, data } = this.state;
+    const head = Atomics.load(header, HEAD);
+    return head === Atomics.load(header, TAIL) ? undefined : data[head];
+  }
+
+  /**
+   * @returns Current number of items.
+   */
+  size(): number {
+    return sizeOf(this.state);
+  }
+
+  /**
+   * @returns True if empty.
+   */
+  isEmpty(): boolean {
+    return this.size() === 0;
+  }
+
+  /**
+   * @returns True once the producer has closed the ring and every value was consumed.
+   */
+  isDone(): boolean {
+    return Atomics.load(this.state.header, CLOSED) === 1 && this.isEmpty();
+  }
+}
@@ -0,0 +1,354 @@
+import { BufferManager } from "./BufferManager";
+import {
+  EvictReason,
+  type EvictCallback,
+  type OverflowPolicy,
+  type PushResult,
+} from "../types";
+
+/**
+ * Time source and timer used by {@link TimeWindowBuffer}.
+ *
+ * Inject a manual clock to make expiry deterministic in tests.
+ */
+export interface Clock {
+  /** Current time in milliseconds */
+  now(): number;
+  /** Schedule `callback` after `delayMs`; returns a handle for `clearTimeout` */
+  setTimeout(callback: () => void, delayMs: number): unknown;
+  /** Cancel a callback scheduled with `setTimeout` */
+  clearTimeout(handle: unknown): void;
+}
+
+/** Clock backed by `Date.now()` and the global timers. */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, delayMs) => setTimeout(callback, delayMs),
+  clearTimeout: (handle) =>
+    clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+/**
+ * Options for {@link TimeWindowBuffer}.
+ *
+ * @template T - Element type stored in the buffer
+ */
+export interface TimeWindowBufferOptions<T> {
+  /** Items older than this (in ms) are expired */
+  maxAgeMs: number;
+
+  /** Extract an item's timestamp (ms, same time base as the clock) */
+  timestamp: (item: T) => number;
+
+  /**
+   * What to do when pushing into a buffer that is full by count.
+   * @default OverflowPolicy.OVERWRITE
+   */
+  overflow?: OverflowPolicy;
+
+  /**
+   * Called with items lost to expiry (`EvictReason.EXPIRED`), overwrite,
+   * resize or clear (oldest -> newest), once per operation.
+   */
+  onEvict?: EvictCallback<T>;
+
+  /**
+   * Time source and timers.
+   * @default systemClock
+   */
+  clock?: Clock;
+
+  /**
+   * Expire items on a timer (scheduled for the next expiry) in addition to
+   * lazily on access. Can also be toggled with `startAutoExpire()` /
+   * `stopAutoExpire()`.
+   * @default false
+   */
+  autoExpire?: boolean;
+}
+
+/**
+ * A buffer bounded by both item count and item age ("the last 5 minutes,
+ * at most 500 points").
+ *
+ * - Items are appended at TAIL and expire from HEAD, so timestamps should be
+ *   non-decreasing: expiry stops at the first item that is still fresh
+ * - An item is expired once `now - timestamp(item) >= maxAgeMs`
+ * - Expiry runs lazily before every read, and optionally on a timer
+ * - The count cap follows the overflow policy like {@link BufferManager}
+ *
+ * @example
+ * ```ts
+ * const points = new TimeWindowBuffer<Point>(500, {
+ *   maxAgeMs: 5 * 60_000,
+ *   timestamp: (p) => p.t,
+ * });
+ * points.pushTail({ t: Date.now(), value: 42 });
+ * points.getAll(); // points from the last 5 minutes (at most 500)
+ * ```
+ *
+ * @template T - Element type stored in the buffer
+ */
+export class TimeWindowBuffer<T> {
+  private readonly buffer: BufferManager<T>;
+  private readonly timestamp: (item: T) => number;
+  private readonly clock: Clock;
+  private readonly onEvict?: EvictCallback<T>;
+  private maxAgeMs: number;
+  private autoExpire = false;
+  private timer: unknown = undefined;
+  private timerDeadline = Infinity;
+
+  private validateMaxAge(maxAgeMs: number): void {
+    if (!(maxAgeMs > 0)) {
+      throw new Error("Max age must be greater than 0");
+    }
+  }
+
+  /**
+   * @param capacity - Maximum number of items to store
+   * @param options - Max age, timestamp extractor and optional configuration
+   */
+  constructor(capacity: number, options: TimeWindowBufferOptions<T>) {
+    this.validateMaxAge(options.maxAgeMs);
+    this.buffer = new BufferManager<T>(capacity, {
+      overflow: options.overflow,
+      onEvict: options.onEvict,
+    });
+    this.timestamp = options.timestamp;
+    this.clock = options.clock ?? systemClock;
+    this.onEvict = options.onEvict;
+    this.maxAgeMs = options.maxAgeMs;
+    if (options.autoExpire) this.startAutoExpire();
+  }
+
+  // ============================================================================
+  // Expiry
+  // ============================================================================
+
+  /**
+   * Remove expired items from HEAD.
+   *
+   * @returns Expired items (oldest -> newest)
+   */
+  expire(): T[] {
+    const cutoff = this.clock.now() - this.maxAgeMs;
+    const size = this.buffer.size();
+    let count = 0;
+    while (count < size) {
+      if (this.timestamp(this.buffer.at(count) as T) > cutoff) break;
+      count++;
+    }
+
+    const expired = count > 0 ? this.buffer.popHead(count) : [];
+    if (expired.length > 0) this.onEvict?.(expired, EvictReason.EXPIRED);
+    this.schedule();
+    return expired;
+  }
+
+  /**
+   * @returns Time (clock ms) at which the oldest item expires, or undefined if empty.
+   */
+  nextExpiry(): number | undefined {
+    if (this.buffer.isEmpty()) return undefined;
+    return this.timestamp(this.buffer.getHead() as T) + this.maxAgeMs;
+  }
+
+  /**
+   * @returns Max item age in ms.
+   */
+  maxAge(): number {
+    return this.maxAgeMs;
+  }
+
+  /**
+   * Change the max item age; items older than the new age expire immediately.
+   *
+   * @returns Expired items (oldest -> newest)
+   * @throws Error if `maxAgeMs` is not greater than 0
+   */
+  setMaxAge(maxAgeMs: number): T[] {
+    this.validateMaxAge(maxAgeMs);
+    this.maxAgeMs = maxAgeMs;
+    return this.expire();
+  }
+
+  /**
+   * Expire items on a timer, scheduled for the next expiry deadline.
+   */
+  startAutoExpire(): void {
+    this.autoExpire = true;
+    this.expire();
+  }
+
+  /**
+   * Stop the expiry timer (lazy expiry on access continues).
+   */
+  stopAutoExpire(): void {
+    this.autoExpire = false;
+    this.cancelTimer();
+  }
+
+  /**
+   * @returns True if the expiry timer is enabled.
+   */
+  isAutoExpiring(): boolean {
+    return this.autoExpire;
+  }
+
+  private cancelTimer(): void {
+    if (this.timer !== undefined) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.timerDeadline = Infinity;
+  }
+
+  /** (Re)arm the timer for the oldest item's deadline. */
+  private schedule(): void {
+    if (!this.autoExpire) return;
+
+    const deadline = this.nextExpiry();
+    if (deadline === undefined) {
+      this.cancelTimer();
+      return;
+    }
+    if (deadline === this.timerDeadline) return;
+
+    this.cancelTimer();
+    this.timerDeadline = deadline;
+    this.timer = this.clock.setTimeout(() => {
+      this.timer = undefined;
+      this.timerDeadline = Infinity;
+      this.expire();
+    }, Math.max(0, deadline - this.clock.now()));
+  }
+
+  // ============================================================================
+  // Push / pop
+  // ============================================================================
+
+  /**
+   * Append item(s) at TAIL (newest side).
+   *
+   * @returns Outcome of the push (see {@link BufferManager.pushTail})
+   */
+  pushTail(input: T | readonly T[]): PushResult {
+    this.expire();
+    const result = Array.isArray(input)
+      ? this.buffer.pushTail(input as readonly T[])
+      : this.buffer.pushTail(input as T);
+    this.schedule();
+    return result;
+  }
+
+  /**
+   * Remove and return item(s) from HEAD (oldest side).
+   */
+  popHead(): T | undefined;
+  popHead(count: number): T[];
+  popHead(count?: number): T | undefined | T[] {
+    this.expire();
+    const result =
+      count === undefined ? this.buffer.popHead() : this.buffer.popHead(count);
+    this.schedule();
+    return result;
+  }
+
+  /**
+   * Remove all items (reported to `onEvict` as `EvictReason.CLEAR`).
+   */
+  clear(): void {
+    this.buffer.clear();
+    this.schedule();
+  }
+
+  /**
+   * Change the count cap (discards oldest items when shrinking).
+   */
+  resize(newCapacity: number): void {
+    this.expire();
+    this.buffer.resize(newCapacity);
+    this.schedule();
+  }
+
+  /**
+   * Stop the expiry timer. The buffer stays usable with lazy expiry.
+   */
+  dispose(): void {
+    this.stopAutoExpire();
+  }
+
+  // ============================================================================
+  // Read (expires first)
+  // ============================================================================
+
+  /**
+   * @returns Oldest unexpired item.
+   */
+  getHead(): T | undefined {
+    this.expire();
+    return this.buffer.getHead();
+  }
+
+  /**
+   * @returns Newest unexpired item.
+   */
+  getTail(): T | undefined {
+    this.expire();
+    return this.buffer.getTail();
+  }
+
+  /**
+   * @returns Unexpired item at a logical index (0 = oldest, -1 = newest).
+   */
+  at(index: number): T | undefined {
+    this.expire();
+    return this.buffer.at(index);
+  }
+
+  /**
+   * @returns All unexpired items (oldest -> newest).
+   */
+  getAll(): T[] {
+    this.expire();
+    return this.buffer.getAll();
+  }
+
+  /**
+   * @returns Number of unexpired items.
+   */
+  size(): number {
+    this.expire();
+    return this.buffer.size();
+  }
+
+  /**
+   * @returns Count cap (max items).
+   */
+  capacity(): number {
+    return this.buffer.capacity();
+  }
+
+  /**
+   * @returns True if no unexpired items remain.
+   */
+  isEmpty(): boolean {
+    return this.size() === 0;
+  }
+
+  /**
+   * @returns True if full by count.
+   */
+  isFull(): boolean {
+    return this.size() === this.capacity();
+  }
+
+  /**
+   * Iterate unexpired items (oldest -> newest).
+   */
+  *[Symbol.iterator](): Iterator<T> {
+    this.expire();
+    yield* this.buffer;
+  }
+}
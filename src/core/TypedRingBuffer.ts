@@ -0,0 +1,147 @@
+import { BufferManager, type BufferManagerOptions } from "./BufferManager";
+
+/**
+ * Numeric typed arrays usable as ring storage or as `getAll()` targets.
+ */
+export type NumericArray =
+  | Float64Array
+  | Float32Array
+  | Int32Array
+  | Uint32Array
+  | Int16Array
+  | Uint16Array
+  | Int8Array
+  | Uint8Array
+  | Uint8ClampedArray;
+
+/**
+ * Constructor of a numeric typed array (e.g. `Float64Array`).
+ */
+export interface NumericArrayConstructor<A extends NumericArray> {
+  new (length: number): A;
+}
+
+/**
+ * Options for typed ring buffers (storage is fixed by the class).
+ */
+export type TypedRingBufferOptions = Omit<
+  BufferManagerOptions<number>,
+  "storage"
+>;
+
+/**
+ * A numeric {@link BufferManager} backed by a typed array instead of `number[]`.
+ *
+ * - Same push/pop/get/resize and overflow semantics as {@link BufferManager}
+ * - Values are stored unboxed, so steady-state single pushes/pops allocate nothing
+ * - Values are coerced by the typed array (e.g. `Int32RingBuffer` truncates `1.5` to `1`)
+ * - `getAll(target)` copies into a caller-provided typed array
+ *
+ * @template A - Backing typed array type
+ */
+export class TypedRingBuffer<A extends NumericArray> extends BufferManager<number> {
+  private readonly arrayType: NumericArrayConstructor<A>;
+
+  /**
+   * @param arrayType - Typed array constructor used for the backing storage
+   * @param capacity - Maximum number of items to store (logical capacity)
+   * @param options - Optional configuration (overflow policy, eviction callback)
+   */
+  constructor(
+    arrayType: NumericArrayConstructor<A>,
+    capacity: number,
+    options?: TypedRingBufferOptions
+  ) {
+    super(capacity, { ...options, storage: (n) => new arrayType(n) });
+    this.arrayType = arrayType;
+  }
+
+  /**
+   * Get all items (oldest -> newest).
+   *
+   * - `getAll()` returns a new `number[]`
+   * - `getAll(target)` copies into `target` starting at index 0 and returns it
+   *   (no allocation); slots past `size()` are left untouched
+   *
+   * @throws RangeError if `target` is shorter than `size()`
+   */
+  getAll(): number[];
+  getAll<D extends NumericArray>(target: D): D;
+  getAll(target?: NumericArray): number[] | NumericArray {
+    if (target === undefined) return super.getAll();
+
+    const size = this.size();
+    if (target.length < size) {
+      throw new RangeError(
+        `Target array too small: length ${target.length} < size ${size}`
+      );
+    }
+    for (let i = 0; i < size; i++) {
+      target[i] = this.at(i) as number;
+    }
+    return target;
+  }
+
+  /**
+   * @returns A new typed array (same type as the storage) holding all items (oldest -> newest).
+   */
+  toTypedArray(): A {
+    return this.getAll(new this.arrayType(this.size()));
+  }
+}
+
+/** Ring buffer of 64-bit floats backed by a `Float64Array`. */
+export class Float64RingBuffer extends TypedRingBuffer<Float64Array> {
+  constructor(capacity: number, options?: TypedRingBufferOptions) {
+    super(Float64Array, capacity, options);
+  }
+}
+
+/** Ring buffer of 32-bit floats backed by a `Float32Array`. */
+export class Float32RingBuffer extends TypedRingBuffer<Float32Array> {
+  constructor(capacity: number, options?: TypedRingBufferOptions) {
+    super(Float32Array, capacity, options);
+  }
+}
+
+/** Ring buffer of signed 32-bit integers backed by an `Int32Array`. */
+export class Int32RingBuffer extends TypedRingBuffer<Int32Array> {
+  constructor(capacity: number, options?: TypedRingBufferOptions) {
+    super(Int32Array, capacity, options);
+  }
+}
+
+/** Ring buffer of unsigned 32-bit integers backed by a `Uint32Array`. */
+export class Uint32RingBuffer extends TypedRingBuffer<Uint32Array> {
+  constructor(capacity: number, options?: TypedRingBufferOptions) {
+    super(Uint32Array, capacity, options);
+  }
+}
+
+/** Ring buffer of signed 16-bit integers backed by an `Int16Array`. */
+export class Int16RingBuffer extends TypedRingBuffer<Int16Array> {
+  constructor(capacity: number, options?: TypedRingBufferOptions) {
+    super(Int16Array, capacity, options);
+  }
+}
+
+/** Ring buffer of unsigned 16-bit integers backed by a `Uint16Array`. */
+export class Uint16RingBuffer extends TypedRingBuffer<Uint16Array> {
+  constructor(capacity: number, options?: TypedRingBufferOptions) {
+    super(Uint16Array, capacity, options);
+  }
+}
+
+/** Ring buffer of signed 8-bit integers backed by an `Int8Array`. */
+export class Int8RingBuffer extends TypedRingBuffer<Int8Array> {
+  constructor(capacity: number, options?: TypedRingBufferOptions) {
+    super(Int8Array, capacity, options);
+  }
+}
+
+/** Ring buffer of unsigned 8-bit integers backed by a `Uint8Array`. */
+export class Uint8RingBuffer extends TypedRingBuffer<Uint8Array> {
+  constructor(capacity: number, options?: TypedRingBufferOptions) {
+    super(Uint8Array, capacity, options);
+  }
+}
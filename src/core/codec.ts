@@ -0,0 +1,407 @@
+import { BufferManager, type BufferRestoreOptions } from "./BufferManager";
+import { BufferDecodeError } from "./errors";
+import { OverflowPolicy } from "../types";
+
+// ============================================================================
+// Byte streams
+// ============================================================================
+
+/**
+ * Growable byte sink used by codecs to encode values.
+ */
+export class ByteWriter {
+  private bytes: Uint8Array;
+  private view: DataView;
+  private length = 0;
+
+  constructor(initialSize = 64) {
+    this.bytes = new Uint8Array(Math.max(8, initialSize));
+    this.view = new DataView(this.bytes.buffer);
+  }
+
+  /** Make room for `n` more bytes and return the write offset. */
+  private reserve(n: number): number {
+    const offset = this.length;
+    if (offset + n > this.bytes.length) {
+      let size = this.bytes.length * 2;
+      while (size < offset + n) size *= 2;
+      const next = new Uint8Array(size);
+      next.set(this.bytes.subarray(0, offset));
+      this.bytes = next;
+      this.view = new DataView(next.buffer);
+    }
+    this.length += n;
+    return offset;
+  }
+
+  writeUint8(value: number): void {
+    // Reserve first: it may replace `this.bytes`
+    const offset = this.reserve(1);
+    this.bytes[offset] = value;
+  }
+
+  writeInt32(value: number): void {
+    this.view.setInt32(this.reserve(4), value, true);
+  }
+
+  writeFloat64(value: number): void {
+    this.view.setFloat64(this.reserve(8), value, true);
+  }
+
+  /**
+   * Unsigned LEB128 varint (non-negative safe integers).
+   *
+   * @throws RangeError if `value` is not a non-negative safe integer
+   */
+  writeVarUint(value: number): void {
+    if (!Number.isSafeInteger(value) || value < 0) {
+      throw new RangeError(`Varint out of range: ${value}`);
+    }
+    while (value >= 0x80) {
+      this.writeUint8((value % 0x80) | 0x80);
+      value = Math.floor(value / 0x80);
+    }
+    this.writeUint8(value);
+  }
+
+  /**
+   * Signed varint: sign in the lowest bit, then the magnitude (zigzag layout).
+   * Built without forming `2 * |value|`, which would lose precision above 2^52.
+   *
+   * @throws RangeError if `value` is not a safe integer
+   */
+  writeVarInt(value: number): void {
+    if (!Number.isSafeInteger(value)) {
+      throw new RangeError(`Varint out of range: ${value}`);
+    }
+    const negative = value < 0;
+    const magnitude = negative ? -(value + 1) : value;
+    const low = (magnitude % 0x40) * 2 + (negative ? 1 : 0);
+    const rest = Math.floor(magnitude / 0x40);
+    if (rest === 0) {
+      this.writeUint8(low);
+      return;
+    }
+    this.writeUint8(low | 0x80);
+    this.writeVarUint(rest);
+  }
+
+  writeBytes(bytes: Uint8Array): void {
+    const offset = this.reserve(bytes.length);
+    this.bytes.set(bytes, offset);
+  }
+
+  /**
+   * @returns The written bytes (a copy sized to the content).
+   */
+  finish(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+/** Longest valid varint: ceil(53 / 7) bytes. */
+const MAX_VARINT_BYTES = 8;
+
+/**
+ * Bounds-checked byte source used by codecs to decode values.
+ *
+ * Every read throws {@link BufferDecodeError} instead of reading past the end.
+ */
+export class ByteReader {
+  private readonly bytes: Uint8Array;
+  private readonly view: DataView;
+  private position = 0;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  /** Claim `n` bytes and return their offset. */
+  private take(n: number): number {
+    const offset = this.position;
+    if (offset + n > this.bytes.length) {
+      throw new BufferDecodeError(
+        `unexpected end of input (need ${n} byte(s), ${this.remaining()} left)`,
+        offset
+      );
+    }
+    this.position += n;
+    return offset;
+  }
+
+  /** @returns Current read offset. */
+  offset(): number {
+    return this.position;
+  }
+
+  /** @returns Bytes not yet read. */
+  remaining(): number {
+    return this.bytes.length - this.position;
+  }
+
+  /**
+   * Fail with a {@link BufferDecodeError} at the current offset.
+   */
+  fail(message: string): never {
+    throw new BufferDecodeError(message, this.position);
+  }
+
+  readUint8(): number {
+    return this.bytes[this.take(1)];
+  }
+
+  readInt32(): number {
+    return this.view.getInt32(this.take(4), true);
+  }
+
+  readFloat64(): number {
+    return this.view.getFloat64(this.take(8), true);
+  }
+
+  readVarUint(): number {
+    const start = this.position;
+    let result = 0;
+    let scale = 1;
+    for (let i = 0; i < MAX_VARINT_BYTES; i++) {
+      const byte = this.readUint8();
+      result += (byte & 0x7f) * scale;
+      if (byte < 0x80) {
+        if (!Number.isSafeInteger(result)) break;
+        return result;
+      }
+      scale *= 0x80;
+    }
+    throw new BufferDecodeError("malformed varint", start);
+  }
+
+  readVarInt(): number {
+    const start = this.position;
+    const first = this.readUint8();
+    const negative = (first & 1) === 1;
+    let magnitude = (first & 0x7f) >> 1;
+    if (first >= 0x80) {
+      magnitude += this.readVarUint() * 0x40;
+      if (!Number.isSafeInteger(magnitude)) {
+        throw new BufferDecodeError("malformed varint", start);
+      }
+    }
+    return negative ? -magnitude - 1 : magnitude;
+  }
+
+  /** @returns A view (not a copy) of the next `n` bytes. */
+  readBytes(n: number): Uint8Array {
+    const offset = this.take(n);
+    return this.bytes.subarray(offset, offset + n);
+  }
+}
+
+// ============================================================================
+// Codecs
+// ============================================================================
+
+/**
+ * Converts items to and from bytes.
+ *
+ * @template T - Item type
+ */
+export interface Codec<T> {
+  /** Append `value` to the writer */
+  encode(value: T, writer: ByteWriter): void;
+  /** Read one value (throw via `reader.fail()` on invalid data) */
+  decode(reader: ByteReader): T;
+}
+
+/** Numbers as 8-byte IEEE 754 doubles (lossless). */
+export const float64Codec: Codec<number> = {
+  encode: (value, writer) => writer.writeFloat64(value),
+  decode: (reader) => reader.readFloat64(),
+};
+
+/**
+ * Numbers as 4-byte signed integers.
+ *
+ * @throws RangeError when encoding a value that is not an int32
+ */
+export const int32Codec: Codec<number> = {
+  encode: (value, writer) => {
+    if ((value | 0) !== value) {
+      throw new RangeError(`Not an int32: ${value}`);
+    }
+    writer.writeInt32(value);
+  },
+  decode: (reader) => reader.readInt32(),
+};
+
+/**
+ * Safe integers as zigzag varints (1 byte for -64..63, larger values grow as needed).
+ *
+ * @throws RangeError when encoding a value that is not a safe integer
+ */
+export const varintCodec: Codec<number> = {
+  encode: (value, writer) => writer.writeVarInt(value),
+  decode: (reader) => reader.readVarInt(),
+};
+
+const utf8Encoder = new TextEncoder();
+const utf8Decoder = new TextDecoder("utf-8", { fatal: true });
+
+/** Strings as UTF-8 bytes prefixed with their varint byte length. */
+export const utf8Codec: Codec<string> = {
+  encode: (value, writer) => {
+    const bytes = utf8Encoder.encode(value);
+    writer.writeVarUint(bytes.length);
+    writer.writeBytes(bytes);
+  },
+  decode: (reader) => {
+    const length = reader.readVarUint();
+    const start = reader.offset();
+    const bytes = reader.readBytes(length);
+    try {
+      return utf8Decoder.decode(bytes);
+    } catch {
+      throw new BufferDecodeError("invalid UTF-8", start);
+    }
+  },
+};
+
+/**
+ * Compose a codec for plain objects from per-field codecs.
+ *
+ * Fields are written in the order of `fields`; no field names are stored.
+ *
+ * @example
+ * ```ts
+ * const sampleCodec = recordCodec({ t: varintCodec, value: float64Codec, tag: utf8Codec });
+ * ```
+ */
+export function recordCodec<T extends object>(
+  fields: { [K in keyof T]: Codec<T[K]> }
+): Codec<T> {
+  const keys = Object.keys(fields) as (keyof T)[];
+  return {
+    encode: (value, writer) => {
+      for (const key of keys) fields[key].encode(value[key], writer);
+    },
+    decode: (reader) => {
+      const record = {} as T;
+      for (const key of keys) record[key] = fields[key].decode(reader);
+      return record;
+    },
+  };
+}
+
+// ============================================================================
+// Buffer encoding
+// ============================================================================
+
+/** "CQRB" */
+const MAGIC = [0x43, 0x51, 0x52, 0x42];
+
+/**
+ * Current binary format version written by {@link encodeBuffer}.
+ */
+export const BINARY_FORMAT_VERSION = 1;
+
+/** Default largest capacity {@link decodeBuffer} accepts. */
+const DEFAULT_MAX_CAPACITY = 2 ** 24;
+
+/** Wire ids of overflow policies (append only). */
+const POLICY_IDS: readonly OverflowPolicy[] = [
+  OverflowPolicy.OVERWRITE,
+  OverflowPolicy.REJECT,
+  OverflowPolicy.THROW,
+  OverflowPolicy.DROP,
+];
+
+/**
+ * Encode a buffer's contents (oldest -> newest) into bytes.
+ *
+ * Layout: magic `"CQRB"`, format version (u8), overflow policy (u8),
+ * capacity (varint), item count (varint), then each item via `codec`.
+ *
+ * @example
+ * ```ts
+ * const bytes = encodeBuffer(telemetry, recordCodec({ t: varintCodec, v: float64Codec }));
+ * ```
+ */
+export function encodeBuffer<T>(
+  buffer: BufferManager<T>,
+  codec: Codec<T>
+): Uint8Array {
+  const writer = new ByteWriter(16 + buffer.size() * 8);
+  for (const byte of MAGIC) writer.writeUint8(byte);
+  writer.writeUint8(BINARY_FORMAT_VERSION);
+  writer.writeUint8(POLICY_IDS.indexOf(buffer.overflowPolicy()));
+  writer.writeVarUint(buffer.capacity());
+  writer.writeVarUint(buffer.size());
+  for (const item of buffer) codec.encode(item, writer);
+  return writer.finish();
+}
+
+/**
+ * Options for {@link decodeBuffer}.
+ */
+export interface DecodeBufferOptions<T>
+  extends Pick<BufferRestoreOptions<T>, "onEvict" | "storage"> {
+  /**
+   * Largest capacity to accept. The buffer allocates its capacity up front,
+   * so a corrupt header could otherwise demand a huge allocation.
+   * @default 2 ** 24
+   */
+  maxCapacity?: number;
+}
+
+/**
+ * Decode bytes produced by {@link encodeBuffer} into a new {@link BufferManager}.
+ *
+ * @throws BufferDecodeError if the input is truncated, corrupt, has trailing
+ * bytes, or uses a newer format version
+ */
+export function decodeBuffer<T>(
+  bytes: Uint8Array,
+  codec: Codec<T>,
+  options?: DecodeBufferOptions<T>
+): BufferManager<T> {
+  const reader = new ByteReader(bytes);
+
+  for (const byte of MAGIC) {
+    if (reader.readUint8() !== byte) {
+      reader.fail("not an encoded buffer (bad magic)");
+    }
+  }
+  const version = reader.readUint8();
+  if (version === 0 || version > BINARY_FORMAT_VERSION) {
+    reader.fail(`unsupported format version ${version}`);
+  }
+  const overflow = POLICY_IDS[reader.readUint8()];
+  if (overflow === undefined) reader.fail("unknown overflow policy");
+
+  const maxCapacity = options?.maxCapacity ?? DEFAULT_MAX_CAPACITY;
+  const capacity = reader.readVarUint();
+  if (capacity === 0) reader.fail("invalid capacity 0");
+  if (capacity > maxCapacity) {
+    reader.fail(`capacity ${capacity} exceeds maxCapacity ${maxCapacity}`);
+  }
+  const count = reader.readVarUint();
+  if (count > capacity) {
+    reader.fail(`item count ${count} exceeds capacity ${capacity}`);
+  }
+
+  // Grow as items decode so a corrupt count cannot force a huge allocation
+  const items: T[] = [];
+  for (let i = 0; i < count; i++) {
+    items.push(codec.decode(reader));
+  }
+  if (reader.remaining() > 0) {
+    reader.fail(`${reader.remaining()} unexpected trailing byte(s)`);
+  }
+
+  const buffer = new BufferManager<T>(capacity, {
+    overflow,
+    onEvict: options?.onEvict,
+    storage: options?.storage,
+  });
+  buffer.pushTail(items);
+  return buffer;
+}
@@ -0,0 +1,93 @@
+import type { Direction } from "../types";
+
+/**
+ * Thrown by a full buffer configured with `OverflowPolicy.THROW`.
+ *
+ * The buffer is left untouched when this error is thrown.
+ */
+export class BufferOverflowError extends Error {
+  /** Logical capacity of the buffer at the time of the push */
+  readonly capacity: number;
+  /** Side the push was directed at */
+  readonly direction: Direction;
+  /** Number of items the push tried to add */
+  readonly attempted: number;
+
+  constructor(capacity: number, direction: Direction, attempted = 1) {
+    super(
+      `Buffer overflow: cannot push ${attempted} item(s) to ${direction} (capacity ${capacity})`
+    );
+    this.name = "BufferOverflowError";
+    this.capacity = capacity;
+    this.direction = direction;
+    this.attempted = attempted;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * Thrown when a serialized buffer (JSON snapshot) is malformed or uses an
+ * unsupported format version.
+ */
+export class InvalidSnapshotError extends Error {
+  constructor(message: string) {
+    super(`Invalid buffer snapshot: ${message}`);
+    this.name = "InvalidSnapshotError";
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * Thrown by `decodeBuffer()` when binary input is truncated or corrupt.
+ */
+export class BufferDecodeError extends Error {
+  /** Byte offset at which decoding failed */
+  readonly offset: number;
+
+  constructor(message: string, offset: number) {
+    super(`Cannot decode buffer at byte ${offset}: ${message}`);
+    this.name = "BufferDecodeError";
+    this.offset = offset;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * Thrown by an {@link AsyncBufferQueue} that has been closed: rejects
+ * pending and later `take()` calls once no items remain, and pushes after
+ * `close()`.
+ */
+export class QueueClosedError extends Error {
+  constructor() {
+    super("Queue is closed");
+    this.name = "QueueClosedError";
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * Thrown when an {@link AsyncBufferQueue} wait exceeds its `timeout`.
+ */
+export class QueueTimeoutError extends Error {
+  /** Timeout that expired, in ms */
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`Queue wait timed out after ${timeoutMs} ms`);
+    this.name = "QueueTimeoutError";
+    this.timeoutMs = timeoutMs;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * Thrown when a {@link BufferView} is read after the buffer it views was
+ * modified.
+ */
+export class StaleViewError extends Error {
+  constructor() {
+    super("Buffer view is stale: the buffer was modified after it was created");
+    this.name = "StaleViewError";
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Items readable by logical index (0 = oldest), such as a buffer's ring or an
+ * {@link ImmutableSnapshot}.
+ */
+export interface IndexedItems<T> {
+  readonly length: number;
+  at(index: number): T | undefined;
+}
+
+/** Item callback of the Array-like read methods. */
+export type ItemPredicate<T> = (item: T, index: number) => boolean;
+
+/**
+ * Shared implementation of the `reduce` overloads (`initial` holds the
+ * optional initial value, so an explicit `undefined` still counts).
+ *
+ * @throws TypeError if there are no items and no initial value
+ */
+export function reduceItems<T, U>(
+  items: IndexedItems<T>,
+  callback: (accumulator: U, item: T, index: number) => U,
+  initial: [U?]
+): U {
+  let i = 0;
+  let accumulator: U;
+  if (initial.length > 0) {
+    accumulator = initial[0] as U;
+  } else if (items.length === 0) {
+    throw new TypeError("Reduce of empty buffer with no initial value");
+  } else {
+    accumulator = items.at(0) as unknown as U;
+    i = 1;
+  }
+
+  for (; i < items.length; i++) {
+    accumulator = callback(accumulator, items.at(i) as T, i);
+  }
+  return accumulator;
+}
+
+/**
+ * @returns Index of the oldest item matching `predicate` at or after `from`,
+ * or -1
+ */
+export function findIndex<T>(
+  items: IndexedItems<T>,
+  predicate: ItemPredicate<T>,
+  from = 0
+): number {
+  for (let i = from; i < items.length; i++) {
+    if (predicate(items.at(i) as T, i)) return i;
+  }
+  return -1;
+}
+
+/**
+ * @returns Index of the newest item matching `predicate`, or -1
+ */
+export function findLastIndex<T>(
+  items: IndexedItems<T>,
+  predicate: ItemPredicate<T>
+): number {
+  for (let i = items.length - 1; i >= 0; i--) {
+    if (predicate(items.at(i) as T, i)) return i;
+  }
+  return -1;
+}
+
+/**
+ * @returns The oldest item matching `predicate`, or undefined
+ */
+export function findItem<T>(
+  items: IndexedItems<T>,
+  predicate: ItemPredicate<T>
+): T | undefined {
+  const index = findIndex(items, predicate);
+  return index === -1 ? undefined : items.at(index);
+}
+
+/**
+ * @returns The newest item matching `predicate`, or undefined
+ */
+export function findLastItem<T>(
+  items: IndexedItems<T>,
+  predicate: ItemPredicate<T>
+): T | undefined {
+  const index = findLastIndex(items, predicate);
+  return index === -1 ? undefined : items.at(index);
+}
+
+/**
+ * @returns True if `predicate` matches every item (true when empty)
+ */
+export function everyItem<T>(
+  items: IndexedItems<T>,
+  predicate: ItemPredicate<T>
+): boolean {
+  return findIndex(items, (item, i) => !predicate(item, i)) === -1;
+}
+
+/**
+ * Index of the oldest occurrence of `item`, like `Array.prototype.indexOf`
+ * (strict equality) or, with `sameValueZero`, `Array.prototype.includes`
+ * (`NaN` matches `NaN`).
+ *
+ * @param fromIndex - Index to start at (negative counts from the newest)
+ * @returns The index, or -1 if not found
+ */
+export function indexOfItem<T>(
+  items: IndexedItems<T>,
+  item: T,
+  fromIndex: number,
+  sameValueZero = false
+): number {
+  const start = Math.trunc(fromIndex) || 0;
+  const from = start < 0 ? Math.max(0, items.length + start) : start;
+  return findIndex(
+    items,
+    (candidate) =>
+      candidate === item ||
+      (sameValueZero && candidate !== candidate && item !== item),
+    from
+  );
+}
+
+/**
+ * Join all items (oldest -> newest) into a string, like
+ * `Array.prototype.join` (`null` / `undefined` become empty strings).
+ */
+export function joinItems<T>(
+  items: IndexedItems<T>,
+  separator: string
+): string {
+  let out = "";
+  for (let i = 0; i < items.length; i++) {
+    if (i > 0) out += separator;
+    const item = items.at(i);
+    if (item !== null && item !== undefined) out += String(item);
+  }
+  return out;
+}
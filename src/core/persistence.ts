@@ -0,0 +1,253 @@
+/**
+ * Synchronous key/value storage for serialized buffers.
+ *
+ * `localStorage` and `sessionStorage` already satisfy this interface.
+ */
+export interface StorageAdapter {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+/**
+ * Asynchronous key/value storage for serialized buffers (e.g. IndexedDB).
+ */
+export interface AsyncStorageAdapter {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+/**
+ * Either kind of storage adapter.
+ */
+export type AnyStorageAdapter = StorageAdapter | AsyncStorageAdapter;
+
+/**
+ * @returns True if `error` reports a full storage quota (Web Storage or IndexedDB).
+ */
+export function isQuotaExceededError(error: unknown): boolean {
+  if (typeof error !== "object" || error === null) return false;
+  const { name, code } = error as { name?: unknown; code?: unknown };
+  return (
+    name === "QuotaExceededError" ||
+    name === "NS_ERROR_DOM_QUOTA_REACHED" ||
+    code === 22 ||
+    code === 1014
+  );
+}
+
+// ============================================================================
+// Web Storage
+// ============================================================================
+
+type WebStorageName = "localStorage" | "sessionStorage";
+
+/**
+ * Adapter over a global Web Storage object, resolved on every call.
+ * Without the global (SSR, workers, privacy modes that throw on access),
+ * reads return null and writes are ignored.
+ */
+function webStorageAdapter(name: WebStorageName): StorageAdapter {
+  const resolve = (): StorageAdapter | undefined => {
+    try {
+      return (globalThis as Partial<Record<WebStorageName, StorageAdapter>>)[name];
+    } catch {
+      return undefined;
+    }
+  };
+  return {
+    getItem: (key) => resolve()?.getItem(key) ?? null,
+    setItem: (key, value) => resolve()?.setItem(key, value),
+    removeItem: (key) => resolve()?.removeItem(key),
+  };
+}
+
+/** Adapter over `globalThis.localStorage`. */
+export const localStorageAdapter: StorageAdapter =
+  webStorageAdapter("localStorage");
+
+/** Adapter over `globalThis.sessionStorage`. */
+export const sessionStorageAdapter: StorageAdapter =
+  webStorageAdapter("sessionStorage");
+
+// ============================================================================
+// In-memory
+// ============================================================================
+
+/**
+ * Options for {@link createMemoryStorageAdapter}.
+ */
+export interface MemoryStorageOptions {
+  /**
+   * Maximum total characters (keys + values); writes beyond it throw an
+   * error named `QuotaExceededError`, like Web Storage.
+   * @default Infinity
+   */
+  quota?: number;
+}
+
+/**
+ * In-memory adapter (tests, SSR, or a fallback when Web Storage is unavailable).
+ */
+export function createMemoryStorageAdapter(
+  options?: MemoryStorageOptions
+): StorageAdapter {
+  const entries = new Map<string, string>();
+  const quota = options?.quota ?? Infinity;
+
+  const usage = (): number => {
+    let total = 0;
+    for (const [key, value] of entries) total += key.length + value.length;
+    return total;
+  };
+
+  return {
+    getItem: (key) => entries.get(key) ?? null,
+    setItem: (key, value) => {
+      const previous = entries.get(key);
+      const current = previous === undefined ? 0 : key.length + previous.length;
+      if (usage() - current + key.length + value.length > quota) {
+        const error = new Error(`Storage quota of ${quota} exceeded`);
+        error.name = "QuotaExceededError";
+        throw error;
+      }
+      entries.set(key, value);
+    },
+    removeItem: (key) => {
+      entries.delete(key);
+    },
+  };
+}
+
+// ============================================================================
+// IndexedDB
+// ============================================================================
+
+/** Minimal structural IndexedDB typings (the DOM lib is not required). */
+interface IDBRequestLike<R> {
+  result: R;
+  error: unknown;
+  onsuccess: (() => void) | null;
+  onerror: (() => void) | null;
+}
+
+interface IDBOpenRequestLike extends IDBRequestLike<IDBDatabaseLike> {
+  onupgradeneeded: (() => void) | null;
+}
+
+interface IDBObjectStoreLike {
+  get(key: string): IDBRequestLike<unknown>;
+  put(value: unknown, key: string): IDBRequestLike<unknown>;
+  delete(key: string): IDBRequestLike<unknown>;
+}
+
+interface IDBTransactionLike {
+  objectStore(name: string): IDBObjectStoreLike;
+  error: unknown;
+  oncomplete: (() => void) | null;
+  onerror: (() => void) | null;
+  onabort: (() => void) | null;
+}
+
+interface IDBDatabaseLike {
+  objectStoreNames: { contains(name: string): boolean };
+  createObjectStore(name: string): unknown;
+  transaction(
+    storeName: string,
+    mode: "readonly" | "readwrite"
+  ): IDBTransactionLike;
+}
+
+/**
+ * The subset of `IDBFactory` used by {@link createIndexedDBAdapter}.
+ */
+export interface IDBFactoryLike {
+  open(name: string, version?: number): IDBOpenRequestLike;
+}
+
+/**
+ * Options for {@link createIndexedDBAdapter}.
+ */
+export interface IndexedDBAdapterOptions {
+  /** @default "circular-queue-react" */
+  databaseName?: string;
+  /** @default "buffers" */
+  storeName?: string;
+  /** @default globalThis.indexedDB */
+  indexedDB?: IDBFactoryLike;
+}
+
+function requestResult<R>(request: IDBRequestLike<R>): Promise<R> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransactionLike): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Async adapter storing values in an IndexedDB object store.
+ *
+ * The database is opened on first use (and the store created if missing).
+ *
+ * @throws Error from the first operation if IndexedDB is unavailable
+ */
+export function createIndexedDBAdapter(
+  options?: IndexedDBAdapterOptions
+): AsyncStorageAdapter {
+  const databaseName = options?.databaseName ?? "circular-queue-react";
+  const storeName = options?.storeName ?? "buffers";
+  let database: Promise<IDBDatabaseLike> | undefined;
+
+  const open = (): Promise<IDBDatabaseLike> => {
+    if (database) return database;
+
+    const factory =
+      options?.indexedDB ??
+      (globalThis as { indexedDB?: IDBFactoryLike }).indexedDB;
+    if (!factory) {
+      return Promise.reject(new Error("IndexedDB is not available"));
+    }
+    const request = factory.open(databaseName, 1);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(storeName)) {
+        request.result.createObjectStore(storeName);
+      }
+    };
+    database = requestResult(request);
+    // Allow a retry after a failed open
+    database.catch(() => {
+      database = undefined;
+    });
+    return database;
+  };
+
+  const write = async (
+    apply: (store: IDBObjectStoreLike) => void
+  ): Promise<void> => {
+    const transaction = (await open()).transaction(storeName, "readwrite");
+    const done = transactionDone(transaction);
+    apply(transaction.objectStore(storeName));
+    await done;
+  };
+
+  return {
+    getItem: async (key) => {
+      const transaction = (await open()).transaction(storeName, "readonly");
+      const value = await requestResult(
+        transaction.objectStore(storeName).get(key)
+      );
+      return typeof value === "string" ? value : null;
+    },
+    setItem: (key, value) => write((store) => store.put(value, key)),
+    removeItem: (key) => write((store) => store.delete(key)),
+  };
+}
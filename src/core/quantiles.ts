@@ -0,0 +1,507 @@
+import type { BufferObserver } from "../types";
+
+/**
+ * Quantile summary over a multiset of numbers that supports removal, so it
+ * can track a sliding window through {@link BufferManager.observe}.
+ *
+ * `NaN` values are ignored.
+ */
+export interface QuantileEstimator extends BufferObserver<number> {
+  /** @returns Number of tracked values */
+  count(): number;
+  /**
+   * @param q - Quantile in `[0, 1]` (e.g. `0.99` for p99)
+   * @returns The quantile, or undefined when empty
+   * @throws RangeError if `q` is outside `[0, 1]`
+   */
+  quantile(q: number): number | undefined;
+  /** @returns Smallest tracked value, or undefined when empty */
+  min(): number | undefined;
+  /** @returns Largest tracked value, or undefined when empty */
+  max(): number | undefined;
+  /** Forget all tracked values. */
+  clear(): void;
+}
+
+function checkQuantile(q: number): void {
+  if (!(q >= 0 && q <= 1)) {
+    throw new RangeError(`Quantile must be between 0 and 1: ${String(q)}`);
+  }
+}
+
+// ============================================================================
+// Exact: order-statistic tree
+// ============================================================================
+
+interface TreeNode {
+  value: number;
+  /** Occurrences of `value` */
+  count: number;
+  /** Occurrences in the whole subtree */
+  size: number;
+  priority: number;
+  left: TreeNode | null;
+  right: TreeNode | null;
+}
+
+const sizeOf = (node: TreeNode | null): number => (node ? node.size : 0);
+
+function update(node: TreeNode): TreeNode {
+  node.size = sizeOf(node.left) + node.count + sizeOf(node.right);
+  return node;
+}
+
+/**
+ * Treap keyed by value, with duplicate counts and subtree sizes.
+ * Insert, delete, select and rank run in expected O(log n).
+ */
+class OrderStatisticTree {
+  private root: TreeNode | null = null;
+
+  size(): number {
+    return sizeOf(this.root);
+  }
+
+  insert(value: number): void {
+    this.root = this.insertAt(this.root, value);
+  }
+
+  /**
+   * @returns False if `value` is not in the tree
+   */
+  delete(value: number): boolean {
+    const before = this.size();
+    this.root = this.deleteAt(this.root, value);
+    return this.size() < before;
+  }
+
+  /**
+   * @param k - Zero-based rank in `[0, size)`
+   * @returns The k-th smallest value
+   */
+  select(k: number): number {
+    let node = this.root;
+    while (node) {
+      const left = sizeOf(node.left);
+      if (k < left) {
+        node = node.left;
+      } else if (k < left + node.count) {
+        return node.value;
+      } else {
+        k -= left + node.count;
+        node = node.right;
+      }
+    }
+    throw new RangeError(`Rank out of range: ${k}`);
+  }
+
+  /**
+   * @returns Number of values strictly smaller than `value`
+   */
+  rank(value: number): number {
+    let node = this.root;
+    let rank = 0;
+    while (node) {
+      if (value <= node.value) {
+        node = node.left;
+      } else {
+        rank += sizeOf(node.left) + node.count;
+        node = node.right;
+      }
+    }
+    return rank;
+  }
+
+  clear(): void {
+    this.root = null;
+  }
+
+  private insertAt(node: TreeNode | null, value: number): TreeNode {
+    if (!node) {
+      return {
+        value,
+        count: 1,
+        size: 1,
+        priority: Math.random(),
+        left: null,
+        right: null,
+      };
+    }
+    if (value === node.value) {
+      node.count++;
+      node.size++;
+      return node;
+    }
+    if (value < node.value) {
+      const left = this.insertAt(node.left, value);
+      node.left = left;
+      if (left.priority > node.priority) {
+        // Rotate right
+        node.left = left.right;
+        left.right = update(node);
+        return update(left);
+      }
+    } else {
+      const right = this.insertAt(node.right, value);
+      node.right = right;
+      if (right.priority > node.priority) {
+        // Rotate left
+        node.right = right.left;
+        right.left = update(node);
+        return update(right);
+      }
+    }
+    return update(node);
+  }
+
+  private deleteAt(node: TreeNode | null, value: number): TreeNode | null {
+    if (!node) return null;
+    if (value === node.value) {
+      if (node.count > 1) {
+        node.count--;
+        node.size--;
+        return node;
+      }
+      return this.merge(node.left, node.right);
+    }
+    if (value < node.value) {
+      node.left = this.deleteAt(node.left, value);
+    } else {
+      node.right = this.deleteAt(node.right, value);
+    }
+    return update(node);
+  }
+
+  /** Join two treaps where every value of `a` is smaller than those of `b`. */
+  private merge(a: TreeNode | null, b: TreeNode | null): TreeNode | null {
+    if (!a) return b;
+    if (!b) return a;
+    if (a.priority > b.priority) {
+      a.right = this.merge(a.right, b);
+      return update(a);
+    }
+    b.left = this.merge(a, b.left);
+    return update(b);
+  }
+}
+
+/**
+ * Exact quantiles over a sliding window, backed by an order-statistic tree.
+ *
+ * - add / remove / quantile are O(log n); memory is O(distinct values)
+ * - Quantiles interpolate linearly between the closest ranks
+ *   (like NumPy's default and Excel's `PERCENTILE.INC`)
+ *
+ * @example
+ * ```ts
+ * const latencies = new Float64RingBuffer(1000);
+ * const quantiles = new ExactQuantiles();
+ * latencies.observe(quantiles);
+ * latencies.pushTail([12, 15, 230, 14]);
+ * quantiles.quantile(0.5); // 14.5
+ * ```
+ */
+export class ExactQuantiles implements QuantileEstimator {
+  private readonly tree = new OrderStatisticTree();
+
+  added(value: number): void {
+    if (!Number.isNaN(value)) this.tree.insert(value);
+  }
+
+  removed(value: number): void {
+    if (!Number.isNaN(value)) this.tree.delete(value);
+  }
+
+  count(): number {
+    return this.tree.size();
+  }
+
+  quantile(q: number): number | undefined {
+    checkQuantile(q);
+    const n = this.tree.size();
+    if (n === 0) return undefined;
+
+    const position = q * (n - 1);
+    const lower = Math.floor(position);
+    const a = this.tree.select(lower);
+    if (position === lower) return a;
+    const b = this.tree.select(lower + 1);
+    return a === b ? a : a + (b - a) * (position - lower);
+  }
+
+  /**
+   * @param qs - Quantiles in `[0, 1]`
+   * @returns One value per requested quantile (undefined when empty)
+   * @throws RangeError if any quantile is outside `[0, 1]`
+   */
+  quantiles(qs: readonly number[]): (number | undefined)[] {
+    return qs.map((q) => this.quantile(q));
+  }
+
+  /**
+   * @returns Number of tracked values strictly smaller than `value`
+   */
+  rank(value: number): number {
+    return this.tree.rank(value);
+  }
+
+  min(): number | undefined {
+    return this.count() === 0 ? undefined : this.tree.select(0);
+  }
+
+  max(): number | undefined {
+    const n = this.count();
+    return n === 0 ? undefined : this.tree.select(n - 1);
+  }
+
+  clear(): void {
+    this.tree.clear();
+  }
+}
+
+// ============================================================================
+// Approximate: logarithmic buckets with bounded memory
+// ============================================================================
+
+/**
+ * Options for {@link ApproximateQuantiles}.
+ */
+export interface ApproximateQuantilesOptions {
+  /**
+   * Maximum relative error of a reported quantile, in `(0, 1)`.
+   * @default 0.01
+   */
+  relativeAccuracy?: number;
+
+  /**
+   * Maximum number of buckets per sign. When values span a wider range, the
+   * buckets closest to zero are merged (losing accuracy there first).
+   * @default 2048
+   */
+  maxBuckets?: number;
+}
+
+/**
+ * Dense counts for a contiguous range of bucket keys.
+ *
+ * Keys below `floor` were merged into the `floor` bucket to respect
+ * `maxBuckets`; the floor only rises while the store holds items that were
+ * merged, so removals map every value to the bucket that counted it.
+ */
+class BucketStore {
+  private counts: number[] = [];
+  /** Key of `counts[0]` */
+  private offset = 0;
+  private floor = -Infinity;
+  private readonly maxBuckets: number;
+  total = 0;
+
+  constructor(maxBuckets: number) {
+    this.maxBuckets = maxBuckets;
+  }
+
+  add(key: number): void {
+    if (this.total === 0) {
+      this.counts = [0];
+      this.offset = key;
+      this.floor = -Infinity;
+    }
+    let k = Math.max(key, this.floor);
+
+    if (k < this.offset || k >= this.offset + this.counts.length) {
+      this.trim();
+      const low = Math.min(k, this.offset);
+      const high = Math.max(k, this.offset + this.counts.length - 1);
+      if (high - low + 1 > this.maxBuckets) {
+        this.collapseBelow(high - this.maxBuckets + 1);
+        k = Math.max(k, this.floor);
+      }
+      if (k < this.offset) {
+        const grow = new Array<number>(this.offset - k).fill(0);
+        this.counts = grow.concat(this.counts);
+        this.offset = k;
+      }
+      while (k >= this.offset + this.counts.length) this.counts.push(0);
+    }
+
+    this.counts[k - this.offset]++;
+    this.total++;
+  }
+
+  /**
+   * @returns False if no value was counted under `key`
+   */
+  remove(key: number): boolean {
+    const k = Math.max(key, this.floor);
+    const i = k - this.offset;
+    if (i < 0 || i >= this.counts.length || this.counts[i] === 0) return false;
+
+    this.counts[i]--;
+    this.total--;
+    if (k === this.floor && this.counts[i] === 0) {
+      // No merged values left: later values can use their own buckets again
+      this.floor = -Infinity;
+    }
+    return true;
+  }
+
+  /**
+   * @param rank - Zero-based rank in `[0, total)`
+   * @returns Key of the bucket holding the value of that rank
+   */
+  keyAt(rank: number): number {
+    let seen = 0;
+    for (let i = 0; i < this.counts.length; i++) {
+      seen += this.counts[i];
+      if (seen > rank) return this.offset + i;
+    }
+    return this.offset + this.counts.length - 1;
+  }
+
+  bucketCount(): number {
+    return this.total === 0 ? 0 : this.counts.length;
+  }
+
+  clear(): void {
+    this.counts = [];
+    this.offset = 0;
+    this.floor = -Infinity;
+    this.total = 0;
+  }
+
+  /** Drop empty buckets at both ends of the range. */
+  private trim(): void {
+    let start = 0;
+    let end = this.counts.length;
+    while (start < end && this.counts[start] === 0) start++;
+    while (end > start && this.counts[end - 1] === 0) end--;
+    if (start === 0 && end === this.counts.length) return;
+    this.counts = this.counts.slice(start, end);
+    this.offset += start;
+  }
+
+  /** Merge every bucket below `floor` into the `floor` bucket. */
+  private collapseBelow(floor: number): void {
+    const cut = floor - this.offset;
+    if (cut > 0) {
+      let merged = 0;
+      for (let i = 0; i < Math.min(cut, this.counts.length); i++) {
+        merged += this.counts[i];
+      }
+      this.counts = this.counts.slice(cut);
+      if (this.counts.length === 0) this.counts.push(0);
+      this.counts[0] += merged;
+      this.offset = floor;
+    }
+    this.floor = Math.max(this.floor, floor);
+  }
+}
+
+/**
+ * Approximate quantiles over a sliding window with bounded memory
+ * (a DDSketch-style logarithmic histogram that supports removal).
+ *
+ * - add / remove are O(1) amortized; quantile is O(buckets)
+ * - Memory is at most `2 * maxBuckets` counters, whatever the window size
+ * - A reported quantile is within `relativeAccuracy` of the value whose rank
+ *   is `floor(q * (count - 1))`, as long as fewer than `maxBuckets` buckets
+ *   are needed per sign
+ * - Non-finite values (`NaN`, `Infinity`) are ignored
+ */
+export class ApproximateQuantiles implements QuantileEstimator {
+  private readonly logGamma: number;
+  private readonly gamma: number;
+  private readonly positive: BucketStore;
+  private readonly negative: BucketStore;
+  private zeros = 0;
+
+  /**
+   * @param options - Accuracy and memory bound
+   * @throws RangeError on an invalid accuracy or bucket count
+   */
+  constructor(options?: ApproximateQuantilesOptions) {
+    const accuracy = options?.relativeAccuracy ?? 0.01;
+    if (!(accuracy > 0 && accuracy < 1)) {
+      throw new RangeError("Relative accuracy must be between 0 and 1");
+    }
+    const maxBuckets = options?.maxBuckets ?? 2048;
+    if (!Number.isInteger(maxBuckets) || maxBuckets < 1) {
+      throw new RangeError("Max buckets must be a positive integer");
+    }
+    this.gamma = (1 + accuracy) / (1 - accuracy);
+    this.logGamma = Math.log(this.gamma);
+    this.positive = new BucketStore(maxBuckets);
+    this.negative = new BucketStore(maxBuckets);
+  }
+
+  private keyOf(magnitude: number): number {
+    return Math.ceil(Math.log(magnitude) / this.logGamma);
+  }
+
+  private valueOf(key: number): number {
+    return (2 * Math.pow(this.gamma, key)) / (this.gamma + 1);
+  }
+
+  added(value: number): void {
+    if (!Number.isFinite(value)) return;
+    if (value > 0) this.positive.add(this.keyOf(value));
+    else if (value < 0) this.negative.add(this.keyOf(-value));
+    else this.zeros++;
+  }
+
+  removed(value: number): void {
+    if (!Number.isFinite(value)) return;
+    if (value > 0) this.positive.remove(this.keyOf(value));
+    else if (value < 0) this.negative.remove(this.keyOf(-value));
+    else if (this.zeros > 0) this.zeros--;
+  }
+
+  count(): number {
+    return this.negative.total + this.zeros + this.positive.total;
+  }
+
+  quantile(q: number): number | undefined {
+    checkQuantile(q);
+    const n = this.count();
+    if (n === 0) return undefined;
+
+    let rank = Math.floor(q * (n - 1));
+    const negatives = this.negative.total;
+    if (rank < negatives) {
+      return -this.valueOf(this.negative.keyAt(negatives - 1 - rank));
+    }
+    rank -= negatives;
+    if (rank < this.zeros) return 0;
+    return this.valueOf(this.positive.keyAt(rank - this.zeros));
+  }
+
+  /**
+   * @param qs - Quantiles in `[0, 1]`
+   * @returns One value per requested quantile (undefined when empty)
+   * @throws RangeError if any quantile is outside `[0, 1]`
+   */
+  quantiles(qs: readonly number[]): (number | undefined)[] {
+    return qs.map((q) => this.quantile(q));
+  }
+
+  min(): number | undefined {
+    return this.quantile(0);
+  }
+
+  max(): number | undefined {
+    return this.quantile(1);
+  }
+
+  /**
+   * @returns Number of buckets currently allocated (memory footprint)
+   */
+  bucketCount(): number {
+    return this.negative.bucketCount() + this.positive.bucketCount();
+  }
+
+  clear(): void {
+    this.positive.clear();
+    this.negative.clear();
+    this.zeros = 0;
+  }
+}
@@ -0,0 +1,125 @@
+import { InvalidSnapshotError } from "./errors";
+import { OverflowPolicy, type BufferSnapshot } from "../types";
+
+/**
+ * Current snapshot format version written by `toJSON()` / `toSnapshot()`.
+ */
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * Options for writing a snapshot.
+ *
+ * @template T - Element type stored in the buffer
+ */
+export interface SnapshotOptions<T> {
+  /** Convert each item to a JSON-safe value (e.g. a `Map` to an entries array) */
+  replacer?: (item: T, index: number) => unknown;
+  /** Application-defined item schema version recorded in the snapshot */
+  schemaVersion?: number;
+}
+
+/**
+ * Options for reading a snapshot.
+ *
+ * @template T - Element type stored in the buffer
+ */
+export interface RestoreOptions<T> {
+  /** Rebuild each item from its serialized form (e.g. ISO string to `Date`) */
+  reviver?: (value: unknown, index: number) => T;
+  /**
+   * Upgrade a snapshot before its items are revived. Called for every
+   * snapshot; inspect `schemaVersion` to decide what to change.
+   */
+  migrate?: (snapshot: BufferSnapshot) => BufferSnapshot;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+/**
+ * Check the structure of a snapshot (object or JSON string) and its format version.
+ *
+ * @throws InvalidSnapshotError if malformed or from a newer format version
+ */
+function validateSnapshot(input: unknown): BufferSnapshot {
+  let value = input;
+  if (typeof value === "string") {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      throw new InvalidSnapshotError("not valid JSON");
+    }
+  }
+
+  if (!isRecord(value)) {
+    throw new InvalidSnapshotError("expected an object");
+  }
+  const { version, schemaVersion, capacity, items, options } = value;
+
+  if (!Number.isInteger(version) || (version as number) < 1) {
+    throw new InvalidSnapshotError("missing format version");
+  }
+  if ((version as number) > SNAPSHOT_VERSION) {
+    throw new InvalidSnapshotError(
+      `unsupported format version ${String(version)} (max ${SNAPSHOT_VERSION})`
+    );
+  }
+  if (schemaVersion !== undefined && typeof schemaVersion !== "number") {
+    throw new InvalidSnapshotError("schemaVersion must be a number");
+  }
+  if (!Number.isInteger(capacity) || (capacity as number) <= 0) {
+    throw new InvalidSnapshotError("capacity must be a positive integer");
+  }
+  if (!Array.isArray(items)) {
+    throw new InvalidSnapshotError("items must be an array");
+  }
+  if (items.length > (capacity as number)) {
+    throw new InvalidSnapshotError("more items than capacity");
+  }
+  if (!isRecord(options)) {
+    throw new InvalidSnapshotError("options must be an object");
+  }
+  if (!Object.values(OverflowPolicy).includes(options.overflow as OverflowPolicy)) {
+    throw new InvalidSnapshotError(
+      `invalid overflow policy ${String(options.overflow)}`
+    );
+  }
+  const threshold = options.compactThreshold;
+  if (threshold !== null && !(typeof threshold === "number" && threshold >= 1)) {
+    throw new InvalidSnapshotError("invalid compactThreshold");
+  }
+
+  return value as unknown as BufferSnapshot;
+}
+
+/**
+ * Validate, migrate and revive a snapshot (object or JSON string).
+ *
+ * @returns The snapshot with revived items
+ * @throws InvalidSnapshotError if the input (or the migrated result) is invalid
+ */
+export function parseSnapshot<T>(
+  input: unknown,
+  options?: RestoreOptions<T>
+): BufferSnapshot<T> {
+  let snapshot = validateSnapshot(input);
+  if (options?.migrate) {
+    snapshot = validateSnapshot(options.migrate(snapshot));
+  }
+
+  const reviver = options?.reviver;
+  return {
+    ...snapshot,
+    items: reviver
+      ? snapshot.items.map((item, i) => reviver(item, i))
+      : (snapshot.items as T[]),
+  };
+}
+
+/**
+ * @returns The `compactThreshold` option encoded in a snapshot.
+ */
+export function snapshotCompactThreshold(snapshot: BufferSnapshot): number {
+  return snapshot.options.compactThreshold ?? Infinity;
+}
@@ -1,2 +1,17 @@
 export { useCircularBuffer } from './useCircularBuffer';
 export type { UseCircularBufferOptions, UseCircularBufferReturn } from './useCircularBuffer';
+export { usePersistentCircularBuffer } from './usePersistentCircularBuffer';
+export type {
+  UsePersistentCircularBufferOptions,
+  UsePersistentCircularBufferReturn,
+} from './usePersistentCircularBuffer';
+export { useTimeWindowBuffer } from './useTimeWindowBuffer';
+export type {
+  UseTimeWindowBufferOptions,
+  UseTimeWindowBufferReturn,
+} from './useTimeWindowBuffer';
+export { useUndoableState } from './useUndoableState';
+export type {
+  UseUndoableStateOptions,
+  UseUndoableStateReturn,
+} from './useUndoableState';
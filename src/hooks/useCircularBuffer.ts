@@ -1,5 +1,21 @@
-import { useCallback, useEffect, useRef, useState } from "react";
-import { BufferManager, createBuffer } from "../core/BufferManager";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import {
+  BufferManager,
+  createBuffer,
+  type BufferManagerOptions,
+} from "../core/BufferManager";
+import type { ImmutableSnapshot } from "../core/ImmutableSnapshot";
+import {
+  parseSnapshot,
+  snapshotCompactThreshold,
+  type RestoreOptions,
+} from "../core/snapshot";
+import type {
+  BufferSnapshot,
+  EvictCallback,
+  OverflowPolicy,
+  PushResult,
+} from "../types";
 
 /**
  * Options for the useCircularBuffer hook
@@ -13,6 +29,61 @@ export interface UseCircularBufferOptions<T> {
    * (i.e., keeps the last `capacity` items).
    */
   initialItems?: readonly T[];
+
+  /**
+   * Snapshot (from `manager.toJSON()`, object or JSON string) to restore on
+   * mount. Takes precedence over `initialItems`; the `capacity` argument
+   * still applies (via resize), and explicit `overflow` / `compactThreshold`
+   * options override the snapshot's.
+   */
+  initialSnapshot?: BufferSnapshot | string;
+
+  /**
+   * Item reviver and schema migration used with `initialSnapshot`.
+   */
+  snapshotOptions?: RestoreOptions<T>;
+
+  /**
+   * What to do when pushing into a full buffer (applied once on mount).
+   * @default OverflowPolicy.OVERWRITE
+   */
+  overflow?: OverflowPolicy;
+
+  /**
+   * Called with items lost to overwrite, resize, clear or replaceAll
+   * (oldest -> newest). The latest callback is always used.
+   */
+  onEvict?: EvictCallback<T>;
+
+  /**
+   * Storage compaction hysteresis for shrinking resizes (applied once on mount).
+   * @default 2
+   */
+  compactThreshold?: number;
+
+  /**
+   * Item weight counted against `maxWeight` (applied once on mount).
+   * @default () => 1
+   */
+  weigh?: (item: T) => number;
+
+  /**
+   * Total weight budget alongside the capacity (applied once on mount).
+   * @default Infinity
+   */
+  maxWeight?: number;
+
+  /**
+   * Creates the underlying manager (applied once on mount), e.g.
+   * `(capacity, options) => new Float64RingBuffer(capacity, options)`.
+   * Receives the hook's `overflow` / `onEvict` / `compactThreshold` /
+   * `weigh` / `maxWeight` options.
+   * @default createBuffer
+   */
+  factory?: (
+    capacity: number,
+    options: BufferManagerOptions<T>
+  ) => BufferManager<T>;
 }
 
 /**
@@ -23,18 +94,38 @@ export interface PopFn<T> {
   (count: number): T[];
 }
 
+/**
+ * Overloaded reduce function signature
+ */
+export interface ReduceFn<T> {
+  (callback: (accumulator: T, item: T, index: number) => T): T;
+  <U>(
+    callback: (accumulator: U, item: T, index: number) => U,
+    initialValue: U
+  ): U;
+}
+
 /**
  * Return type for useCircularBuffer hook
  */
 export interface UseCircularBufferReturn<T> {
-  /** Current items in the buffer (oldest -> newest) */
+  /**
+   * Current items in the buffer (oldest -> newest). Copied from `snapshot`
+   * on first read after each change.
+   */
   data: T[];
 
+  /**
+   * Immutable view of the current items; a new instance after every change,
+   * cheap to produce (structural sharing), usable as a memo dependency
+   */
+  snapshot: ImmutableSnapshot<T>;
+
   /** Add a single item or array to the head (HEAD) */
-  pushHead: (input: T | readonly T[]) => void;
+  pushHead: (input: T | readonly T[]) => PushResult;
 
   /** Add a single item or array to the tail (TAIL) */
-  pushTail: (input: T | readonly T[]) => void;
+  pushTail: (input: T | readonly T[]) => PushResult;
 
   /** Remove and return item(s) from head (oldest) */
   popHead: PopFn<T>;
@@ -48,11 +139,26 @@ export interface UseCircularBufferReturn<T> {
   /** Peek tail (newest) item (non-destructive) */
   getTail: () => T | undefined;
 
+  /** Insert an item at a logical position (0 = before the oldest) */
+  insertAt: (index: number, item: T) => PushResult;
+
+  /** Remove the item at a logical index (0 = oldest, -1 = newest) */
+  removeAt: (index: number) => T | undefined;
+
+  /** Remove and/or insert items like Array.prototype.splice */
+  splice: (start: number, deleteCount?: number, ...items: T[]) => T[];
+
+  /** Remove the first (oldest) occurrence of an item */
+  remove: (item: T) => boolean;
+
+  /** Remove every item matching a predicate */
+  removeWhere: (predicate: (item: T, index: number) => boolean) => T[];
+
   /** Clear all items from the buffer */
   clear: () => void;
 
   /** Replace all items with new ones */
-  replaceAll: (items: readonly T[]) => void;
+  replaceAll: (items: readonly T[]) => PushResult;
 
   /** Resize the buffer capacity (logical capacity) */
   resize: (newCapacity: number) => void;
@@ -75,6 +181,34 @@ export interface UseCircularBufferReturn<T> {
   /** Get the first (oldest) and last (newest) items */
   getFirstAndLast: () => { first: T | undefined; last: T | undefined };
 
+  // Reads over `snapshot` without copying. Each gets a new identity with
+  // every new snapshot, so it can be a memo dependency:
+  // `useMemo(() => find(isError), [find])`
+
+  /** Fold items (oldest -> newest) like Array.prototype.reduce */
+  reduce: ReduceFn<T>;
+
+  /** Oldest item matching a predicate */
+  find: (predicate: (item: T, index: number) => boolean) => T | undefined;
+
+  /** Newest item matching a predicate */
+  findLast: (predicate: (item: T, index: number) => boolean) => T | undefined;
+
+  /** Whether a predicate matches at least one item */
+  some: (predicate: (item: T, index: number) => boolean) => boolean;
+
+  /** Whether a predicate matches every item */
+  every: (predicate: (item: T, index: number) => boolean) => boolean;
+
+  /** Whether the buffer holds an item (SameValueZero) */
+  includes: (item: T, fromIndex?: number) => boolean;
+
+  /** Index of the oldest occurrence of an item, or -1 */
+  indexOf: (item: T, fromIndex?: number) => number;
+
+  /** Join items (oldest -> newest) into a string */
+  join: (separator?: string) => string;
+
   /** (Optional) access to the manager if needed */
   manager: BufferManager<T>;
 }
@@ -84,7 +218,8 @@ export interface UseCircularBufferReturn<T> {
  *
  * Design notes:
  * - BufferManager is stored in a ref (mutable, stable across renders).
- * - React state (`data`) is used to trigger re-renders after mutations.
+ * - React state (an immutable `snapshot`) is used to trigger re-renders after
+ *   mutations; `data` is materialized from it lazily.
  * - No setState is called during render; initialization is done via lazy state init.
  *
  * @param capacity - Initial logical capacity (max elements)
@@ -97,24 +232,42 @@ export function useCircularBuffer<T>(
   // Create the buffer ONCE per mount (lazy init) and seed initial items.
   const bufferRef = useRef<BufferManager<T> | null>(null);
 
-  const [data, setData] = useState<T[]>(() => {
-    const manager = createBuffer<T>(capacity);
+  // The manager is created once, so route evictions through a ref to the latest callback.
+  const onEvictRef = useRef(options?.onEvict);
+  onEvictRef.current = options?.onEvict;
+
+  const [snapshot, setSnapshot] = useState<ImmutableSnapshot<T>>(() => {
+    const factory = options?.factory ?? createBuffer;
+    const snapshot =
+      options?.initialSnapshot !== undefined
+        ? parseSnapshot<T>(options.initialSnapshot, options.snapshotOptions)
+        : undefined;
+
+    // Restore at the snapshot's capacity; the resize effect applies `capacity`.
+    const manager = factory(snapshot?.capacity ?? capacity, {
+      overflow: options?.overflow ?? snapshot?.options.overflow,
+      onEvict: (items, reason) => onEvictRef.current?.(items, reason),
+      compactThreshold:
+        options?.compactThreshold ??
+        (snapshot ? snapshotCompactThreshold(snapshot) : undefined),
+      weigh: options?.weigh,
+      maxWeight: options?.maxWeight,
+    });
     bufferRef.current = manager;
 
-    const initial = options?.initialItems;
+    const initial = snapshot ? snapshot.items : options?.initialItems;
     if (initial && initial.length > 0) {
       manager.pushTail(initial);
-      return manager.getAll();
     }
 
-    return [];
+    return manager.snapshot();
   });
 
   const buffer = bufferRef.current!;
 
   // Keep a stable "sync" helper.
   const sync = useCallback(() => {
-    setData(buffer.getAll());
+    setSnapshot(buffer.snapshot());
   }, [buffer]);
 
   // If `capacity` prop changes, resize the underlying buffer.
@@ -129,24 +282,22 @@ export function useCircularBuffer<T>(
 
   const pushHead = useCallback(
     (input: T | readonly T[]) => {
-      if (Array.isArray(input)) {
-        buffer.pushHead(input as readonly T[]);
-      } else {
-        buffer.pushHead(input as T);
-      }
+      const result = Array.isArray(input)
+        ? buffer.pushHead(input as readonly T[])
+        : buffer.pushHead(input as T);
       sync();
+      return result;
     },
     [buffer, sync]
   );
 
   const pushTail = useCallback(
     (input: T | readonly T[]) => {
-      if (Array.isArray(input)) {
-        buffer.pushTail(input as readonly T[]);
-      } else {
-        buffer.pushTail(input as T);
-      }
+      const result = Array.isArray(input)
+        ? buffer.pushTail(input as readonly T[])
+        : buffer.pushTail(input as T);
       sync();
+      return result;
     },
     [buffer, sync]
   );
@@ -174,15 +325,61 @@ export function useCircularBuffer<T>(
   const getHead = useCallback(() => buffer.getHead(), [buffer]);
   const getTail = useCallback(() => buffer.getTail(), [buffer]);
 
+  const insertAt = useCallback(
+    (index: number, item: T) => {
+      const result = buffer.insertAt(index, item);
+      sync();
+      return result;
+    },
+    [buffer, sync]
+  );
+
+  const removeAt = useCallback(
+    (index: number) => {
+      const result = buffer.removeAt(index);
+      sync();
+      return result;
+    },
+    [buffer, sync]
+  );
+
+  const splice = useCallback(
+    (start: number, deleteCount?: number, ...items: T[]) => {
+      const result = buffer.splice(start, deleteCount, ...items);
+      sync();
+      return result;
+    },
+    [buffer, sync]
+  );
+
+  const remove = useCallback(
+    (item: T) => {
+      const result = buffer.remove(item);
+      sync();
+      return result;
+    },
+    [buffer, sync]
+  );
+
+  const removeWhere = useCallback(
+    (predicate: (item: T, index: number) => boolean) => {
+      const result = buffer.removeWhere(predicate);
+      sync();
+      return result;
+    },
+    [buffer, sync]
+  );
+
   const clear = useCallback(() => {
     buffer.clear();
-    setData([]);
-  }, [buffer]);
+    sync();
+  }, [buffer, sync]);
 
   const replaceAll = useCallback(
     (items: readonly T[]) => {
-      buffer.replaceAll(items);
+      const result = buffer.replaceAll(items);
       sync();
+      return result;
     },
     [buffer, sync]
   );
@@ -197,12 +394,68 @@ export function useCircularBuffer<T>(
 
   const getFirstAndLast = useCallback(() => buffer.getFirstAndLast(), [buffer]);
 
-  // Derived state (recomputed on each render; re-render is triggered by `data` updates)
+  // Read helpers work on the rendered snapshot, so a memoized helper keeps
+  // returning results for the items it was created with
+  const reduce = useCallback(
+    (<U>(
+      callback: (accumulator: U, item: T, index: number) => U,
+      ...initial: [U?]
+    ) =>
+      initial.length > 0
+        ? snapshot.reduce(callback, initial[0] as U)
+        : snapshot.reduce(
+            callback as unknown as (accumulator: T, item: T, i: number) => T
+          )) as ReduceFn<T>,
+    [snapshot]
+  );
+  const find = useCallback(
+    (predicate: (item: T, index: number) => boolean) =>
+      snapshot.find(predicate),
+    [snapshot]
+  );
+  const findLast = useCallback(
+    (predicate: (item: T, index: number) => boolean) =>
+      snapshot.findLast(predicate),
+    [snapshot]
+  );
+  const some = useCallback(
+    (predicate: (item: T, index: number) => boolean) =>
+      snapshot.some(predicate),
+    [snapshot]
+  );
+  const every = useCallback(
+    (predicate: (item: T, index: number) => boolean) =>
+      snapshot.every(predicate),
+    [snapshot]
+  );
+  const includes = useCallback(
+    (item: T, fromIndex?: number) => snapshot.includes(item, fromIndex),
+    [snapshot]
+  );
+  const indexOf = useCallback(
+    (item: T, fromIndex?: number) => snapshot.indexOf(item, fromIndex),
+    [snapshot]
+  );
+  const join = useCallback(
+    (separator?: string) => snapshot.join(separator),
+    [snapshot]
+  );
+
+  // Copy the items only if `data` is read, once per snapshot
+  const materialize = useMemo(() => {
+    let data: T[] | undefined;
+    return () => (data ??= snapshot.toArray());
+  }, [snapshot]);
+
+  // Derived state (recomputed on each render; re-render is triggered by `snapshot` updates)
   const size = buffer.size();
   const cap = buffer.capacity();
 
   return {
-    data,
+    get data() {
+      return materialize();
+    },
+    snapshot,
 
     pushHead,
     pushTail,
@@ -212,6 +465,12 @@ export function useCircularBuffer<T>(
     getHead,
     getTail,
 
+    insertAt,
+    removeAt,
+    splice,
+    remove,
+    removeWhere,
+
     clear,
     replaceAll,
     resize,
@@ -224,6 +483,15 @@ export function useCircularBuffer<T>(
 
     getFirstAndLast,
 
+    reduce,
+    find,
+    findLast,
+    some,
+    every,
+    includes,
+    indexOf,
+    join,
+
     manager: buffer,
   };
 }
@@ -0,0 +1,208 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  localStorageAdapter,
+  type AnyStorageAdapter,
+} from "../core/persistence";
+import { parseSnapshot, type SnapshotOptions } from "../core/snapshot";
+import {
+  useCircularBuffer,
+  type UseCircularBufferOptions,
+  type UseCircularBufferReturn,
+} from "./useCircularBuffer";
+
+/**
+ * Options for the usePersistentCircularBuffer hook
+ *
+ * @template T - Element type stored in the buffer
+ */
+export interface UsePersistentCircularBufferOptions<T>
+  extends Omit<UseCircularBufferOptions<T>, "initialSnapshot"> {
+  /**
+   * Where snapshots are stored (applied once on mount).
+   * @default localStorageAdapter
+   */
+  adapter?: AnyStorageAdapter;
+
+  /**
+   * Delay before writing after the last mutation (write-behind).
+   * @default 250
+   */
+  debounceMs?: number;
+
+  /**
+   * Item replacer and schema version used when writing snapshots.
+   */
+  serializeOptions?: SnapshotOptions<T>;
+
+  /**
+   * Called when restoring or writing fails (corrupt data, quota exceeded,
+   * unavailable storage). The in-memory buffer keeps working either way.
+   */
+  onError?: (error: unknown, operation: "restore" | "write") => void;
+}
+
+/**
+ * Return type for usePersistentCircularBuffer hook
+ */
+export interface UsePersistentCircularBufferReturn<T>
+  extends UseCircularBufferReturn<T> {
+  /** False until the stored snapshot has been read (async adapters) */
+  isRestored: boolean;
+
+  /** Last restore/write error, cleared by the next successful write */
+  persistError: unknown;
+
+  /** Write the current contents now instead of waiting for the debounce */
+  flush: () => Promise<void>;
+}
+
+function isPromise<V>(value: V | Promise<V>): value is Promise<V> {
+  return typeof (value as Promise<V> | null)?.then === "function";
+}
+
+/**
+ * {@link useCircularBuffer} that restores its items from storage on mount and
+ * writes them back (debounced) after every mutation.
+ *
+ * Design notes:
+ * - `key` and `adapter` are applied once on mount, like the other options.
+ * - Only items are restored; capacity and policies come from the hook arguments.
+ * - Sync adapters restore during the first render. Async adapters restore after
+ *   mount; items pushed meanwhile are kept as the newest items.
+ * - Nothing is written before the restore completes, so a slow read never
+ *   clobbers stored data.
+ * - A pending write is flushed on unmount.
+ *
+ * @param key - Storage key
+ * @param capacity - Logical capacity (max elements)
+ * @param options - Optional configuration
+ */
+export function usePersistentCircularBuffer<T>(
+  key: string,
+  capacity: number,
+  options?: UsePersistentCircularBufferOptions<T>
+): UsePersistentCircularBufferReturn<T> {
+  const onErrorRef = useRef(options?.onError);
+  onErrorRef.current = options?.onError;
+  const serializeRef = useRef(options?.serializeOptions);
+  serializeRef.current = options?.serializeOptions;
+
+  const [persistError, setPersistError] = useState<unknown>(null);
+  const report = useCallback(
+    (error: unknown, operation: "restore" | "write") => {
+      setPersistError(error);
+      onErrorRef.current?.(error, operation);
+    },
+    []
+  );
+
+  // Read once on mount: sync adapters yield the items now, async ones a promise.
+  const [mount] = useState(() => {
+    const adapter = options?.adapter ?? localStorageAdapter;
+    const restore = (stored: string | null): T[] | undefined => {
+      if (stored === null) return undefined;
+      return parseSnapshot<T>(stored, options?.snapshotOptions).items;
+    };
+
+    let items: T[] | undefined;
+    let pending: Promise<T[] | undefined> | undefined;
+    let error: unknown;
+    try {
+      const stored = adapter.getItem(key);
+      if (isPromise(stored)) {
+        pending = stored.then(restore);
+      } else {
+        items = restore(stored);
+      }
+    } catch (e) {
+      error = e;
+    }
+    return { key, adapter, items, pending, error };
+  });
+
+  const buffer = useCircularBuffer<T>(capacity, {
+    ...options,
+    initialItems: mount.items ?? options?.initialItems,
+  });
+  const { manager, snapshot, splice } = buffer;
+
+  const [isRestored, setIsRestored] = useState(mount.pending === undefined);
+
+  useEffect(() => {
+    if (mount.error !== undefined) report(mount.error, "restore");
+  }, [mount, report]);
+
+  useEffect(() => {
+    if (!mount.pending) return;
+    let cancelled = false;
+    mount.pending.then(
+      (items) => {
+        if (cancelled) return;
+        if (items && items.length > 0) {
+          // Restored items are older than anything pushed since mount
+          const room = manager.available();
+          const kept = room > 0 ? items.slice(-room) : [];
+          if (kept.length > 0) splice(0, 0, ...kept);
+        }
+        setIsRestored(true);
+      },
+      (error) => {
+        if (cancelled) return;
+        report(error, "restore");
+        setIsRestored(true);
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [mount, manager, splice, report]);
+
+  const mountedRef = useRef(true);
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const flush = useCallback(async () => {
+    if (timerRef.current !== null) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    try {
+      const value = JSON.stringify(manager.toSnapshot(serializeRef.current));
+      await mount.adapter.setItem(mount.key, value);
+      if (mountedRef.current) setPersistError(null);
+    } catch (error) {
+      if (mountedRef.current) {
+        report(error, "write");
+      } else {
+        onErrorRef.current?.(error, "write");
+      }
+    }
+  }, [manager, mount, report]);
+
+  // Write behind: every `snapshot` change (re)starts the debounce timer.
+  const debounceMs = options?.debounceMs ?? 250;
+  useEffect(() => {
+    if (!isRestored) return;
+    if (timerRef.current !== null) clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(() => {
+      timerRef.current = null;
+      void flush();
+    }, debounceMs);
+  }, [snapshot, isRestored, debounceMs, flush]);
+
+  // Flush a pending write on unmount.
+  useEffect(() => {
+    return () => {
+      if (timerRef.current !== null) void flush();
+    };
+  }, [flush]);
+
+  // Assign onto the base result to keep its lazy `data` getter.
+  return Object.assign(buffer, { isRestored, persistError, flush });
+}
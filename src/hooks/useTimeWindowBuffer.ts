@@ -0,0 +1,177 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  TimeWindowBuffer,
+  type TimeWindowBufferOptions,
+} from "../core/TimeWindowBuffer";
+import { EvictReason, type PushResult } from "../types";
+import type { PopFn } from "./useCircularBuffer";
+
+/**
+ * Options for the useTimeWindowBuffer hook
+ *
+ * @template T - Element type stored in the buffer
+ */
+export interface UseTimeWindowBufferOptions<T>
+  extends Omit<TimeWindowBufferOptions<T>, "autoExpire"> {
+  /**
+   * Initial items (applied once on mount); expired ones are dropped.
+   */
+  initialItems?: readonly T[];
+}
+
+/**
+ * Return type for useTimeWindowBuffer hook
+ */
+export interface UseTimeWindowBufferReturn<T> {
+  /** Current unexpired items (oldest -> newest) */
+  data: T[];
+
+  /** Append item(s) at the tail (newest side) */
+  pushTail: (input: T | readonly T[]) => PushResult;
+
+  /** Remove and return item(s) from head (oldest) */
+  popHead: PopFn<T>;
+
+  /** Expire items now (normally done by the timer) */
+  expire: () => T[];
+
+  /** Clear all items */
+  clear: () => void;
+
+  /** Number of unexpired items */
+  size: number;
+
+  /** Count cap */
+  capacity: number;
+
+  /** Whether no unexpired items remain */
+  isEmpty: boolean;
+
+  /** Whether the count cap is reached */
+  isFull: boolean;
+
+  /** (Optional) access to the underlying buffer */
+  buffer: TimeWindowBuffer<T>;
+}
+
+/**
+ * React hook for a count- and age-bounded buffer that re-renders when items expire.
+ *
+ * Design notes:
+ * - The buffer is created once (lazy state init); the expiry timer runs while mounted.
+ * - `capacity` and `maxAgeMs` changes are applied to the existing buffer.
+ * - `timestamp`, `overflow` and `clock` are applied once on mount.
+ * - Derived values come from `data`, so rendering never triggers expiry itself.
+ *
+ * @param capacity - Count cap (max elements)
+ * @param options - Max age, timestamp extractor and optional configuration
+ */
+export function useTimeWindowBuffer<T>(
+  capacity: number,
+  options: UseTimeWindowBufferOptions<T>
+): UseTimeWindowBufferReturn<T> {
+  const bufferRef = useRef<TimeWindowBuffer<T> | null>(null);
+
+  // Latest onEvict, plus a re-render when the timer expires items.
+  // Hook methods sync once themselves, so expiry inside them is not synced.
+  const onEvictRef = useRef(options.onEvict);
+  onEvictRef.current = options.onEvict;
+  const expiredRef = useRef<(() => void) | null>(null);
+  const mutatingRef = useRef(false);
+
+  const [data, setData] = useState<T[]>(() => {
+    const buffer = new TimeWindowBuffer<T>(capacity, {
+      maxAgeMs: options.maxAgeMs,
+      timestamp: options.timestamp,
+      overflow: options.overflow,
+      clock: options.clock,
+      onEvict: (items, reason) => {
+        onEvictRef.current?.(items, reason);
+        if (reason === EvictReason.EXPIRED && !mutatingRef.current) {
+          expiredRef.current?.();
+        }
+      },
+    });
+    bufferRef.current = buffer;
+
+    const initial = options.initialItems;
+    if (initial && initial.length > 0) buffer.pushTail(initial);
+    return buffer.getAll();
+  });
+
+  const buffer = bufferRef.current!;
+
+  const sync = useCallback(() => {
+    setData(buffer.getAll());
+  }, [buffer]);
+  expiredRef.current = sync;
+
+  const mutate = useCallback(
+    <R>(fn: () => R): R => {
+      mutatingRef.current = true;
+      try {
+        return fn();
+      } finally {
+        mutatingRef.current = false;
+        sync();
+      }
+    },
+    [sync]
+  );
+
+  // Run the expiry timer while mounted.
+  useEffect(() => {
+    buffer.startAutoExpire();
+    sync();
+    return () => buffer.stopAutoExpire();
+  }, [buffer, sync]);
+
+  useEffect(() => {
+    mutate(() => buffer.resize(capacity));
+  }, [capacity, buffer, mutate]);
+
+  useEffect(() => {
+    mutate(() => buffer.setMaxAge(options.maxAgeMs));
+  }, [options.maxAgeMs, buffer, mutate]);
+
+  const pushTail = useCallback(
+    (input: T | readonly T[]) => mutate(() => buffer.pushTail(input)),
+    [buffer, mutate]
+  );
+
+  const popHead = useCallback(
+    ((count?: number) =>
+      mutate(() =>
+        count === undefined ? buffer.popHead() : buffer.popHead(count)
+      )) as PopFn<T>,
+    [buffer, mutate]
+  );
+
+  const expire = useCallback(() => mutate(() => buffer.expire()), [
+    buffer,
+    mutate,
+  ]);
+
+  const clear = useCallback(() => {
+    buffer.clear();
+    setData([]);
+  }, [buffer]);
+
+  const cap = buffer.capacity();
+
+  return {
+    data,
+
+    pushTail,
+    popHead,
+    expire,
+    clear,
+
+    size: data.length,
+    capacity: cap,
+    isEmpty: data.length === 0,
+    isFull: data.length === cap,
+
+    buffer,
+  };
+}
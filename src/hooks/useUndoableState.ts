@@ -0,0 +1,143 @@
+import { useCallback, useRef, useState } from "react";
+import {
+  HistoryBuffer,
+  type HistoryBufferOptions,
+} from "../core/HistoryBuffer";
+
+/**
+ * Options for the useUndoableState hook
+ */
+export interface UseUndoableStateOptions extends HistoryBufferOptions {
+  /**
+   * Maximum number of states kept, present included (applied once on mount).
+   * @default 100
+   */
+  limit?: number;
+}
+
+/**
+ * Return type for useUndoableState hook
+ *
+ * @template T - State type
+ */
+export interface UseUndoableStateReturn<T> {
+  /** Present state */
+  state: T;
+
+  /**
+   * Record a new present state (value or updater, like `useState`),
+   * discarding the redo branch. Rapid calls within `coalesceMs` form one
+   * undo step.
+   */
+  setState: (next: T | ((previous: T) => T)) => void;
+
+  /** Step back; no-op if there is nothing to undo */
+  undo: () => void;
+
+  /** Step forward; no-op if there is nothing to redo */
+  redo: () => void;
+
+  /** Replace the whole history with a single state */
+  reset: (state: T) => void;
+
+  /** Whether `undo()` would change the state */
+  canUndo: boolean;
+
+  /** Whether `redo()` would change the state */
+  canRedo: boolean;
+
+  /** (Optional) access to the underlying history */
+  history: HistoryBuffer<T>;
+}
+
+interface UndoableSnapshot<T> {
+  state: T;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+/**
+ * React hook for state with bounded undo / redo history.
+ *
+ * Design notes:
+ * - The history is created once (lazy state init); `limit`, `coalesceMs`
+ *   and `clock` are applied once on mount.
+ * - Callbacks are stable and always act on the latest history.
+ * - Like `useState`, a function `T` must be passed through an updater.
+ *
+ * @param initial - Initial state (or a function returning it)
+ * @param options - History depth and coalescing
+ */
+export function useUndoableState<T>(
+  initial: T | (() => T),
+  options: UseUndoableStateOptions = {}
+): UseUndoableStateReturn<T> {
+  const historyRef = useRef<HistoryBuffer<T> | null>(null);
+
+  const [snapshot, setSnapshot] = useState<UndoableSnapshot<T>>(() => {
+    const history = new HistoryBuffer<T>(options.limit ?? 100, {
+      coalesceMs: options.coalesceMs,
+      clock: options.clock,
+    });
+    historyRef.current = history;
+    history.reset(
+      typeof initial === "function" ? (initial as () => T)() : initial
+    );
+    return { state: history.present() as T, canUndo: false, canRedo: false };
+  });
+
+  const history = historyRef.current!;
+
+  const sync = useCallback(() => {
+    setSnapshot({
+      state: history.present() as T,
+      canUndo: history.canUndo(),
+      canRedo: history.canRedo(),
+    });
+  }, [history]);
+
+  const setState = useCallback(
+    (next: T | ((previous: T) => T)) => {
+      history.record(
+        typeof next === "function"
+          ? (next as (previous: T) => T)(history.present() as T)
+          : next
+      );
+      sync();
+    },
+    [history, sync]
+  );
+
+  const undo = useCallback(() => {
+    if (history.canUndo()) {
+      history.undo();
+      sync();
+    }
+  }, [history, sync]);
+
+  const redo = useCallback(() => {
+    if (history.canRedo()) {
+      history.redo();
+      sync();
+    }
+  }, [history, sync]);
+
+  const reset = useCallback(
+    (state: T) => {
+      history.reset(state);
+      sync();
+    },
+    [history, sync]
+  );
+
+  return {
+    state: snapshot.state,
+    setState,
+    undo,
+    redo,
+    reset,
+    canUndo: snapshot.canUndo,
+    canRedo: snapshot.canRedo,
+    history,
+  };
+}
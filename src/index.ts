@@ -5,12 +5,153 @@
 
 // Core classes
 export { CircularBuffer } from './core/CircularBuffer';
+export type { CircularBufferOptions } from './core/CircularBuffer';
 export { BufferManager, createBuffer } from './core/BufferManager';
+export type {
+  BufferManagerOptions,
+  BufferRestoreOptions,
+} from './core/BufferManager';
+export { SNAPSHOT_VERSION } from './core/snapshot';
+export { ImmutableSnapshot } from './core/ImmutableSnapshot';
+export { BufferCursor } from './core/BufferCursor';
+export { BufferView } from './core/BufferView';
+export type { RestoreOptions, SnapshotOptions } from './core/snapshot';
+export {
+  TypedRingBuffer,
+  Float64RingBuffer,
+  Float32RingBuffer,
+  Int32RingBuffer,
+  Uint32RingBuffer,
+  Int16RingBuffer,
+  Uint16RingBuffer,
+  Int8RingBuffer,
+  Uint8RingBuffer,
+} from './core/TypedRingBuffer';
+export type {
+  NumericArray,
+  NumericArrayConstructor,
+  TypedRingBufferOptions,
+} from './core/TypedRingBuffer';
+
+export { RollingStatsBuffer } from './core/RollingStatsBuffer';
+export { ApproximateQuantiles, ExactQuantiles } from './core/quantiles';
+export type {
+  ApproximateQuantilesOptions,
+  QuantileEstimator,
+} from './core/quantiles';
+export {
+  Histogram,
+  exponentialBoundaries,
+  linearBoundaries,
+} from './core/Histogram';
+export type { HistogramBucket } from './core/Histogram';
+export type {
+  RollingStats,
+  RollingStatsBufferOptions,
+} from './core/RollingStatsBuffer';
+export { TimeWindowBuffer, systemClock } from './core/TimeWindowBuffer';
+export type { Clock, TimeWindowBufferOptions } from './core/TimeWindowBuffer';
+export { AsyncBufferQueue } from './core/AsyncBufferQueue';
+export type {
+  AsyncBufferQueueOptions,
+  WaitOptions,
+} from './core/AsyncBufferQueue';
+export { HistoryBuffer } from './core/HistoryBuffer';
+export type {
+  HistoryBufferOptions,
+  RecordOptions,
+} from './core/HistoryBuffer';
+export { LruCache } from './core/LruCache';
+export type { LruCacheOptions, LruSetOptions } from './core/LruCache';
+
+export {
+  SharedRingBuffer,
+  SharedRingProducer,
+  SharedRingConsumer,
+} from './core/SharedRingBuffer';
+export type {
+  SharedElementType,
+  SharedRingBufferOptions,
+  SharedRingProducerOptions,
+} from './core/SharedRingBuffer';
+
+export {
+  ByteReader,
+  ByteWriter,
+  BINARY_FORMAT_VERSION,
+  decodeBuffer,
+  encodeBuffer,
+  float64Codec,
+  int32Codec,
+  recordCodec,
+  utf8Codec,
+  varintCodec,
+} from './core/codec';
+export type { Codec, DecodeBufferOptions } from './core/codec';
+
+export {
+  createIndexedDBAdapter,
+  createMemoryStorageAdapter,
+  isQuotaExceededError,
+  localStorageAdapter,
+  sessionStorageAdapter,
+} from './core/persistence';
+export type {
+  AnyStorageAdapter,
+  AsyncStorageAdapter,
+  IDBFactoryLike,
+  IndexedDBAdapterOptions,
+  MemoryStorageOptions,
+  StorageAdapter,
+} from './core/persistence';
+
+// Errors
+export {
+  BufferDecodeError,
+  BufferOverflowError,
+  InvalidSnapshotError,
+  QueueClosedError,
+  QueueTimeoutError,
+  StaleViewError,
+} from './core/errors';
 
 // Types
-export { Direction } from './types';
-export type { IBuffer } from './types';
+export {
+  BufferOperation,
+  CursorStatus,
+  Direction,
+  EvictReason,
+  OverflowPolicy,
+  PushResult,
+} from './types';
+export type {
+  BufferChange,
+  BufferChangeListener,
+  BufferObserver,
+  BufferSnapshot,
+  CursorRead,
+  EvictCallback,
+  IBuffer,
+  KeySelector,
+  RingStorage,
+  SinceRead,
+  StorageFactory,
+} from './types';
 
 // React Hooks
-export { useCircularBuffer } from './hooks';
-export type { UseCircularBufferOptions, UseCircularBufferReturn } from './hooks';
+export {
+  useCircularBuffer,
+  usePersistentCircularBuffer,
+  useTimeWindowBuffer,
+  useUndoableState,
+} from './hooks';
+export type {
+  UseCircularBufferOptions,
+  UseCircularBufferReturn,
+  UsePersistentCircularBufferOptions,
+  UsePersistentCircularBufferReturn,
+  UseTimeWindowBufferOptions,
+  UseTimeWindowBufferReturn,
+  UseUndoableStateOptions,
+  UseUndoableStateReturn,
+} from './hooks';
@@ -13,11 +13,237 @@ export const Direction = {
 
 export type Direction = (typeof Direction)[keyof typeof Direction];
 
+/**
+ * What a buffer does when an item is pushed while it is full.
+ *
+ * - OVERWRITE: replace the item on the opposite side (default)
+ *   - TAIL push drops the oldest, HEAD push drops the newest
+ * - REJECT: refuse the push and leave the buffer untouched
+ * - THROW: throw a {@link BufferOverflowError} and leave the buffer untouched
+ * - DROP: silently discard the incoming item(s) that do not fit
+ */
+export const OverflowPolicy = {
+  /** Overwrite the item on the opposite side (default) */
+  OVERWRITE: "overwrite",
+  /** Refuse the push (reported as PushResult.REJECTED) */
+  REJECT: "reject",
+  /** Throw a BufferOverflowError */
+  THROW: "throw",
+  /** Discard the incoming item(s) (reported as PushResult.DROPPED) */
+  DROP: "drop",
+} as const;
+
+export type OverflowPolicy =
+  (typeof OverflowPolicy)[keyof typeof OverflowPolicy];
+
+/**
+ * Outcome of a push operation.
+ *
+ * For batch pushes the most significant outcome is reported:
+ * REJECTED > DROPPED > OVERWRITTEN > ADDED.
+ */
+export const PushResult = {
+  /** Every item was stored without displacing anything */
+  ADDED: "added",
+  /** Every item was stored, but existing items were overwritten */
+  OVERWRITTEN: "overwritten",
+  /** Nothing was stored (OverflowPolicy.REJECT) */
+  REJECTED: "rejected",
+  /** Some or all incoming items were discarded (OverflowPolicy.DROP) */
+  DROPPED: "dropped",
+} as const;
+
+export type PushResult = (typeof PushResult)[keyof typeof PushResult];
+
+/**
+ * Indexed backing storage for a circular buffer.
+ *
+ * Plain arrays and numeric typed arrays (e.g. `Float64Array`) both qualify.
+ * Slots outside the live range may hold stale values.
+ */
+export interface RingStorage<T> {
+  [index: number]: T | undefined;
+  readonly length: number;
+}
+
+/**
+ * Allocates backing storage with exactly `capacity` slots.
+ */
+export type StorageFactory<T> = (capacity: number) => RingStorage<T>;
+
+/**
+ * Why items left a buffer without being popped.
+ *
+ * - OVERFLOW: overwritten by a push into a full buffer
+ * - RESIZE: discarded because the capacity shrank below the current size
+ * - CLEAR: removed by `clear()`
+ * - REPLACE_ALL: replaced by `replaceAll()`
+ * - EXPIRED: older than the max age of a time-windowed buffer
+ */
+export const EvictReason = {
+  /** Overwritten by a push into a full buffer */
+  OVERFLOW: "overflow",
+  /** Discarded by a shrinking resize */
+  RESIZE: "resize",
+  /** Removed by clear() */
+  CLEAR: "clear",
+  /** Replaced by replaceAll() */
+  REPLACE_ALL: "replaceAll",
+  /** Aged out of a TimeWindowBuffer */
+  EXPIRED: "expired",
+} as const;
+
+export type EvictReason = (typeof EvictReason)[keyof typeof EvictReason];
+
+/**
+ * Callback receiving items lost to overwrite, resize, clear, replaceAll or expiry.
+ *
+ * `items` are ordered oldest -> newest.
+ */
+export type EvictCallback<T> = (items: T[], reason: EvictReason) => void;
+
+/**
+ * Receives every item entering or leaving a buffer, whatever the cause
+ * (push, pop, overwrite, set, insert/remove, clear, resize).
+ *
+ * Used to keep derived structures (quantiles, histograms) in sync with the
+ * buffer contents. Observers must not modify the buffer they observe.
+ *
+ * @template T - Element type stored in the buffer
+ */
+export interface BufferObserver<T> {
+  /** Called after `item` was stored */
+  added(item: T): void;
+  /** Called after `item` left the buffer */
+  removed(item: T): void;
+}
+
+/**
+ * Mutating `BufferManager` method that produced a {@link BufferChange}.
+ */
+export const BufferOperation = {
+  PUSH_HEAD: "pushHead",
+  PUSH_TAIL: "pushTail",
+  POP_HEAD: "popHead",
+  POP_TAIL: "popTail",
+  SET: "set",
+  INSERT_AT: "insertAt",
+  REMOVE_AT: "removeAt",
+  SPLICE: "splice",
+  REMOVE: "remove",
+  REMOVE_WHERE: "removeWhere",
+  CLEAR: "clear",
+  RESIZE: "resize",
+  TRIM_TO_SIZE: "trimToSize",
+  REPLACE_ALL: "replaceAll",
+} as const;
+
+export type BufferOperation =
+  (typeof BufferOperation)[keyof typeof BufferOperation];
+
+/**
+ * Change record delivered to `BufferManager.subscribe()` listeners, once per
+ * mutating call that changed the items or the capacity.
+ *
+ * @template T - Element type stored in the buffer
+ */
+export interface BufferChange<T> {
+  operation: BufferOperation;
+  /** Side pushed to / popped from (push and pop operations only) */
+  direction?: Direction;
+  /** Items stored by the operation (in the order they were stored) */
+  added: T[];
+  /** Items that left the buffer: popped, removed or evicted (in the order they left) */
+  removed: T[];
+  /** Increases by one with every change */
+  version: number;
+}
+
+/**
+ * Listener registered with `BufferManager.subscribe()`.
+ */
+export type BufferChangeListener<T> = (change: BufferChange<T>) => void;
+
+/**
+ * Outcome of a `BufferCursor.next()` read.
+ */
+export const CursorStatus = {
+  /** Every item since the previous read is returned */
+  OK: "ok",
+  /** Items left the buffer (overwritten, popped, cleared) before being read */
+  OVERRUN: "overrun",
+} as const;
+
+export type CursorStatus = (typeof CursorStatus)[keyof typeof CursorStatus];
+
+/**
+ * Result of `BufferCursor.next()`.
+ *
+ * On overrun the cursor skips to the oldest retained item; `missed` counts
+ * the items it never saw.
+ *
+ * @template T - Element type stored in the buffer
+ */
+export type CursorRead<T> =
+  | { status: typeof CursorStatus.OK; items: T[]; missed: 0 }
+  | { status: typeof CursorStatus.OVERRUN; items: T[]; missed: number };
+
+/**
+ * Result of `BufferManager.getSince(seq)`.
+ *
+ * @template T - Element type stored in the buffer
+ */
+export interface SinceRead<T> {
+  /** Items with a sequence number greater than `seq` (oldest -> newest) */
+  items: T[];
+  /** Highest sequence number returned (or `seq` if none); pass it to the next call */
+  lastSeq: number;
+  /**
+   * TAIL-side items numbered after `seq` that left the buffer (evicted,
+   * popped or removed) before this read. Greater than 0 means `items` has a
+   * gap and the reader should resynchronize.
+   */
+  missed: number;
+}
+
+/**
+ * Extracts the sort key of an item for `BufferManager.range()`,
+ * `lowerBound()` and `upperBound()`. Keys must not decrease from HEAD
+ * (oldest) to TAIL (newest), e.g. timestamps of items pushed to TAIL.
+ *
+ * @template T - Element type stored in the buffer
+ */
+export type KeySelector<T> = (item: T) => number | string;
+
+/**
+ * Versioned, JSON-safe snapshot of a managed buffer.
+ *
+ * @template T - Serialized item type
+ */
+export interface BufferSnapshot<T = unknown> {
+  /** Snapshot format version (see `SNAPSHOT_VERSION`) */
+  version: number;
+  /** Application-defined item schema version, used by `migrate` hooks */
+  schemaVersion?: number;
+  /** Logical capacity */
+  capacity: number;
+  /** Items, oldest -> newest */
+  items: T[];
+  /** Buffer policy options */
+  options: {
+    overflow: OverflowPolicy;
+    /** `null` stands for `Infinity` (never compact automatically) */
+    compactThreshold: number | null;
+  };
+}
+
 /**
  * Common managed-buffer interface.
  *
  * Notes:
  * - `pushHead/pushTail` accept either a single item or a (readonly) array of items.
+ * - `pushHead/pushTail/replaceAll` report a {@link PushResult} describing what the
+ *   overflow policy did.
  * - `popHead/popTail`:
  *   - without args: returns a single item (or undefined if empty)
  *   - with `count`: returns an array (order depends on method)
@@ -34,7 +260,7 @@ export interface IBuffer<T> {
   /**
    * Add one item to the head (HEAD / oldest side).
    */
-  pushHead(item: T): void;
+  pushHead(item: T): PushResult;
 
   /**
    * Add multiple items to the head (HEAD / oldest side).
@@ -42,17 +268,17 @@ export interface IBuffer<T> {
    * Implementations should preserve original order:
    * `pushHead([a,b,c])` => `a` becomes oldest among inserted items.
    */
-  pushHead(items: readonly T[]): void;
+  pushHead(items: readonly T[]): PushResult;
 
   /**
    * Add one item to the tail (TAIL / newest side).
    */
-  pushTail(item: T): void;
+  pushTail(item: T): PushResult;
 
   /**
    * Add multiple items to the tail (TAIL / newest side).
    */
-  pushTail(items: readonly T[]): void;
+  pushTail(items: readonly T[]): PushResult;
 
   // ============================================================================
   // Core operations (remove)
@@ -103,6 +329,26 @@ export interface IBuffer<T> {
    */
   getAll(): T[];
 
+  /**
+   * Read the item at a logical index in O(1).
+   *
+   * `0` is the oldest item; negative indices count from the newest (`-1` = newest).
+   *
+   * @returns The item, or undefined if the index is out of range
+   */
+  at(index: number): T | undefined;
+
+  // ============================================================================
+  // Indexed write
+  // ============================================================================
+
+  /**
+   * Replace the item at a logical index in O(1) (same indexing as `at`).
+   *
+   * @throws RangeError if the index is out of range
+   */
+  set(index: number, value: T): void;
+
   // ============================================================================
   // Maintenance
   // ============================================================================
@@ -148,7 +394,7 @@ export interface IBuffer<T> {
    * If overflow happens, implementations should follow their own overflow policy
    * (typically keeping the last `capacity()` items).
    */
-  replaceAll(items: readonly T[]): void;
+  replaceAll(items: readonly T[]): PushResult;
 
   /**
    * @returns Snapshot of buffer data and item count.
@@ -192,4 +438,71 @@ export interface IBuffer<T> {
    * Filter items (oldest -> newest).
    */
   filter(predicate: (item: T, index: number) => boolean): T[];
+
+  /**
+   * Fold items (oldest -> newest) like `Array.prototype.reduce`.
+   * Throws a TypeError on an empty buffer without an initial value.
+   */
+  reduce(callback: (accumulator: T, item: T, index: number) => T): T;
+  reduce<U>(
+    callback: (accumulator: U, item: T, index: number) => U,
+    initialValue: U
+  ): U;
+
+  /**
+   * Oldest item matching `predicate`, or undefined.
+   */
+  find(predicate: (item: T, index: number) => boolean): T | undefined;
+
+  /**
+   * Newest item matching `predicate`, or undefined.
+   */
+  findLast(predicate: (item: T, index: number) => boolean): T | undefined;
+
+  /**
+   * Whether `predicate` matches at least one item.
+   */
+  some(predicate: (item: T, index: number) => boolean): boolean;
+
+  /**
+   * Whether `predicate` matches every item (true when empty).
+   */
+  every(predicate: (item: T, index: number) => boolean): boolean;
+
+  /**
+   * Whether the buffer holds `item` (SameValueZero).
+   * Negative `fromIndex` counts from the newest.
+   */
+  includes(item: T, fromIndex?: number): boolean;
+
+  /**
+   * Logical index of the oldest occurrence of `item` (strict equality), or -1.
+   * Negative `fromIndex` counts from the newest.
+   */
+  indexOf(item: T, fromIndex?: number): number;
+
+  /**
+   * Join items (oldest -> newest) into a string (default separator `","`).
+   */
+  join(separator?: string): string;
+
+  /**
+   * Iterate items from newest -> oldest.
+   */
+  reverseIterator(): IterableIterator<T>;
+
+  /**
+   * Iterate `[index, item]` pairs (oldest -> newest).
+   */
+  entries(): IterableIterator<[number, T]>;
+
+  /**
+   * Iterate logical indices (oldest -> newest).
+   */
+  keys(): IterableIterator<number>;
+
+  /**
+   * Iterate items (oldest -> newest).
+   */
+  values(): IterableIterator<T>;
 }